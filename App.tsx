@@ -13,8 +13,14 @@ import { DialogProvider } from './src/contexts/DialogContext';
 import { SettingsProvider } from './src/contexts/SettingsContext';
 import { AppNavigator } from './src/navigation/AppNavigator';
 import { logger } from './src/utils/logger';
-import { downloadService, analyticsService } from './src/services';
+import {
+  downloadService,
+  analyticsService,
+  subscriptionService,
+  storageService,
+} from './src/services';
 import { backgroundTaskManager } from './src/utils/backgroundTask';
+import { scanLibrary } from './src/services/download/library';
 import * as Sentry from '@sentry/react-native';
 import envConfigs from './src/config/env';
 
@@ -77,9 +83,21 @@ function App(): React.JSX.Element {
     backgroundTaskManager.initialize().catch(error => {
       logger.error('Failed to initialize background tasks:', error);
     });
+
+    // Periodically queue new uploads from followed channels
+    subscriptionService.start();
+
+    // History entries saved before sizes were recorded can't be sorted by size
+    storageService.backfillDownloadSizes();
+
+    // Flag history entries whose files were moved or deleted in another app
+    scanLibrary().catch(error => {
+      logger.error('Failed to scan the download library:', error);
+    });
     
     return () => {
       logger.info('👋 App unmounting');
+      subscriptionService.stop();
       // Ensure all active SSE connections are closed
       downloadService.cleanup();
     };
@@ -0,0 +1,156 @@
+/**
+ * @format
+ */
+
+import { parseChapters } from '../src/utils/chapters';
+import {
+  chapterFilename,
+  splitMp3ByChapters,
+} from '../src/services/download/chapters';
+// "mock" names may be used by the hoisted jest.mock factory below
+import {
+  latin1,
+  concatBytes as mockConcatBytes,
+  decodeBase64 as mockDecodeBase64,
+  encodeBase64 as mockEncodeBase64,
+} from '../src/services/download/bytes';
+
+// In-memory files, so only the frame scan and the cutting are exercised
+const mockFiles = new Map<string, Uint8Array>();
+
+jest.mock('react-native-fs', () => ({
+  stat: jest.fn(async (path: string) => ({
+    size: mockFiles.get(path)?.length ?? 0,
+  })),
+  read: jest.fn(async (path: string, length: number, position: number) =>
+    mockEncodeBase64(
+      (mockFiles.get(path) || new Uint8Array(0)).subarray(
+        position,
+        position + length,
+      ),
+    ),
+  ),
+  writeFile: jest.fn(async (path: string, data: string) => {
+    mockFiles.set(path, mockDecodeBase64(data));
+  }),
+  appendFile: jest.fn(async (path: string, data: string) => {
+    mockFiles.set(
+      path,
+      mockConcatBytes([
+        mockFiles.get(path) || new Uint8Array(0),
+        mockDecodeBase64(data),
+      ]),
+    );
+  }),
+  unlink: jest.fn(async (path: string) => {
+    mockFiles.delete(path);
+  }),
+}));
+
+describe('parseChapters', () => {
+  it('reads timestamps before or after the title', () => {
+    const description = [
+      'Full album, recorded live.',
+      '0:00 Intro',
+      '1. [3:45] Second Song',
+      'Finale - 1:02:33',
+    ].join('\n');
+
+    expect(parseChapters(description, 4000)).toEqual([
+      { title: 'Intro', start: 0, end: 225 },
+      { title: 'Second Song', start: 225, end: 3753 },
+      { title: 'Finale', start: 3753, end: 4000 },
+    ]);
+  });
+
+  it('leaves the last chapter open without a duration', () => {
+    const chapters = parseChapters('0:00 A\n1:00 B\n2:00 C');
+    expect(chapters[2]).toEqual({ title: 'C', start: 120, end: undefined });
+  });
+
+  it('ignores lists that YouTube would not show as chapters', () => {
+    // Too few, not starting at 0:00, out of order, past the end
+    expect(parseChapters('0:00 A\n1:00 B')).toEqual([]);
+    expect(parseChapters('0:30 A\n1:00 B\n2:00 C')).toEqual([]);
+    expect(parseChapters('0:00 A\n2:00 B\n1:00 C')).toEqual([]);
+    expect(parseChapters('0:00 A\n1:00 B\n2:00 C', 90)).toEqual([]);
+    expect(parseChapters(undefined)).toEqual([]);
+  });
+});
+
+describe('chapterFilename', () => {
+  it('numbers the file by its position', () => {
+    expect(chapterFilename({ title: 'Intro', start: 0 }, 2, 12)).toBe(
+      '03 - Intro.mp3',
+    );
+    expect(chapterFilename({ title: 'A/B', start: 0 }, 4, 120)).toBe(
+      '005 - AB.mp3',
+    );
+  });
+});
+
+describe('splitMp3ByChapters', () => {
+  // MPEG-1 Layer III, 128 kbps, 44.1 kHz: 417 bytes and 1152 samples a frame
+  const FRAME_SIZE = 417;
+  const FRAME = new Uint8Array(FRAME_SIZE);
+  FRAME.set([0xff, 0xfb, 0x90, 0x00]);
+  // ID3v2 header with a 4-byte tag body
+  const ID3 = mockConcatBytes([
+    latin1('ID3'),
+    new Uint8Array([3, 0, 0, 0, 0, 0, 4]),
+    new Uint8Array(4),
+  ]);
+
+  const frames = (count: number) =>
+    mockConcatBytes(Array.from({ length: count }, () => FRAME));
+
+  beforeEach(() => {
+    mockFiles.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('cuts on the first frame at or after each chapter start', async () => {
+    mockFiles.set('/tmp/album.mp3', mockConcatBytes([ID3, frames(100)]));
+
+    const parts = await splitMp3ByChapters(
+      '/tmp/album.mp3',
+      [
+        { title: 'One', start: 0 },
+        { title: 'Two', start: 1 },
+        { title: 'Three', start: 2 },
+      ],
+      '/out',
+    );
+
+    expect(parts).toEqual([
+      '/out/01 - One.mp3',
+      '/out/02 - Two.mp3',
+      '/out/03 - Three.mp3',
+    ]);
+    // A frame lasts 1152 / 44100 s, so 1 s and 2 s fall in frames 39 and 77
+    expect(parts.map(path => mockFiles.get(path)?.length)).toEqual([
+      39 * FRAME_SIZE,
+      38 * FRAME_SIZE,
+      23 * FRAME_SIZE,
+    ]);
+    expect(mockFiles.get(parts[1])?.subarray(0, 2)).toEqual(
+      new Uint8Array([0xff, 0xfb]),
+    );
+  });
+
+  it('writes nothing when a chapter starts after the audio ends', async () => {
+    mockFiles.set('/tmp/short.mp3', frames(10));
+
+    await expect(
+      splitMp3ByChapters(
+        '/tmp/short.mp3',
+        [
+          { title: 'One', start: 0 },
+          { title: 'Two', start: 60 },
+        ],
+        '/out',
+      ),
+    ).rejects.toThrow('before chapter 2 starts');
+    expect(Array.from(mockFiles.keys())).toEqual(['/tmp/short.mp3']);
+  });
+});
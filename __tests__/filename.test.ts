@@ -0,0 +1,134 @@
+/**
+ * @format
+ */
+
+import RNFS from 'react-native-fs';
+import {
+  renderFilenameTemplate,
+  resolveSaveTarget,
+} from '../src/services/download/filename';
+
+jest.mock('react-native-fs', () => ({ exists: jest.fn() }));
+jest.mock('react-native-saf-x', () => ({ exists: jest.fn() }));
+
+const mockedExists = RNFS.exists as jest.MockedFunction<typeof RNFS.exists>;
+
+const DATE = new Date(2025, 2, 7);
+
+describe('renderFilenameTemplate', () => {
+  const values = {
+    title: 'Lecture 12: Graphs',
+    channel: 'Lecture Channel',
+    videoId: 'abc123',
+    quality: '720p',
+    date: DATE,
+    index: 3,
+  };
+
+  it('fills every token', () => {
+    expect(
+      renderFilenameTemplate(
+        '{index}. {channel} - {title} [{quality}] {date} {videoId}',
+        values,
+      ),
+    ).toBe('03. Lecture Channel - Lecture 12 Graphs [720p] 2025-03-07 abc123');
+  });
+
+  it('leaves unknown tokens as typed', () => {
+    expect(renderFilenameTemplate('{title} {artist}', values)).toBe(
+      'Lecture 12 Graphs {artist}',
+    );
+  });
+
+  it('drops empty tokens with the separators and brackets around them', () => {
+    const bare = { title: 'Talk', videoId: 'abc123', date: DATE };
+
+    expect(renderFilenameTemplate('{channel} - {title}', bare)).toBe('Talk');
+    expect(renderFilenameTemplate('{index}. {title}', bare)).toBe('Talk');
+    expect(renderFilenameTemplate('{title} [{quality}]', bare)).toBe('Talk');
+    expect(renderFilenameTemplate('{title}_{quality}_{date}', bare)).toBe(
+      'Talk_2025-03-07',
+    );
+    expect(renderFilenameTemplate('{date} - {channel} - {title}', bare)).toBe(
+      '2025-03-07 - Talk',
+    );
+  });
+
+  it('keeps separators that are part of the title', () => {
+    const title = 'Wait... what - the _real_ story';
+
+    expect(
+      renderFilenameTemplate('{channel} - {title}', {
+        title,
+        videoId: 'abc123',
+      }),
+    ).toBe(title);
+    expect(
+      renderFilenameTemplate('{title} [{quality}]', {
+        title: '...and then',
+        videoId: 'abc123',
+      }),
+    ).toBe('...and then');
+  });
+
+  it('falls back to the video id without a title', () => {
+    expect(renderFilenameTemplate('{title}', { videoId: 'abc123' })).toBe(
+      'abc123',
+    );
+  });
+});
+
+describe('resolveSaveTarget', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('numbers the copy when the name is taken', async () => {
+    mockedExists.mockImplementation(
+      async path => path === '/downloads/Talk.mp3',
+    );
+
+    const target = await resolveSaveTarget('/downloads', 'Talk.mp3', 'number');
+
+    expect(target.filename).toBe('Talk (2).mp3');
+    expect(target.existingPath).toBeUndefined();
+    target.release();
+  });
+
+  it('does not hand out a name that is reserved but not yet written', async () => {
+    mockedExists.mockResolvedValue(false);
+
+    const first = await resolveSaveTarget('/downloads', 'Talk.mp3', 'number');
+    const second = await resolveSaveTarget('/downloads', 'Talk.mp3', 'number');
+
+    expect(first.filename).toBe('Talk.mp3');
+    expect(second.filename).toBe('Talk (2).mp3');
+    first.release();
+    second.release();
+  });
+
+  it('reports the existing file when the policy is skip', async () => {
+    mockedExists.mockResolvedValue(true);
+
+    const target = await resolveSaveTarget('/downloads', 'Talk.mp3', 'skip');
+
+    expect(target).toMatchObject({
+      filename: 'Talk.mp3',
+      existingPath: '/downloads/Talk.mp3',
+    });
+  });
+
+  it('keeps the name when the policy is overwrite', async () => {
+    mockedExists.mockResolvedValue(true);
+
+    const target = await resolveSaveTarget(
+      '/downloads',
+      'Talk.mp3',
+      'overwrite',
+    );
+
+    expect(target.filename).toBe('Talk.mp3');
+    expect(mockedExists).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DownloadHistoryStore } from '../src/services/historyStore';
+import type { DownloadedVideo } from '../src/services/storageService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const video = (
+  id: string,
+  overrides: Partial<DownloadedVideo> = {},
+): DownloadedVideo => ({
+  id,
+  videoId: `v_${id}`,
+  title: `Video ${id}`,
+  format: 'mp4',
+  filePath: `/downloads/${id}.mp4`,
+  filename: `${id}.mp4`,
+  downloadedAt: Number(id.replace(/\D/g, '')) * 1000,
+  ...overrides,
+});
+
+describe('DownloadHistoryStore', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('moves the legacy array into pages once', async () => {
+    await AsyncStorage.setItem(
+      'downloaded_videos',
+      JSON.stringify([video('2'), video('1')]),
+    );
+
+    const store = new DownloadHistoryStore();
+
+    expect((await store.getAll()).map(v => v.id)).toEqual(['2', '1']);
+    expect(await AsyncStorage.getItem('downloaded_videos')).toBeNull();
+    // A fresh instance reads the pages, not the legacy key
+    expect(await new DownloadHistoryStore().count()).toBe(2);
+  });
+
+  it('starts a new page once one is full', async () => {
+    const store = new DownloadHistoryStore();
+    await store.upsertMany(
+      Array.from({ length: 101 }, (_, i) => video(`${i + 1}`)),
+    );
+
+    const meta = JSON.parse(
+      (await AsyncStorage.getItem('download_history:meta')) || '{}',
+    );
+    expect(meta.pages).toEqual([0, 1]);
+    const lastPage = JSON.parse(
+      (await AsyncStorage.getItem('download_history:page:1')) || '[]',
+    );
+    expect(lastPage.map((v: DownloadedVideo) => v.id)).toEqual(['101']);
+  });
+
+  it('updates and removes records in place', async () => {
+    const store = new DownloadHistoryStore();
+    await store.upsertMany([video('1'), video('2')]);
+    await store.upsert(video('1', { title: 'Renamed' }));
+    await store.remove('2');
+
+    const reloaded = new DownloadHistoryStore();
+    expect(await reloaded.getAll()).toEqual([video('1', { title: 'Renamed' })]);
+  });
+
+  it('searches, filters, sorts and pages', async () => {
+    const store = new DownloadHistoryStore();
+    await store.upsertMany([
+      video('1', { title: 'Cooking pasta', format: 'mp3', fileSize: 300 }),
+      video('2', { title: 'Cooking rice', fileSize: 100 }),
+      video('3', { title: 'Gardening' }),
+      video('4', { title: 'Cooking soup', fileSize: 200 }),
+    ]);
+
+    const cooking = await store.query({ search: ' COOKING ', limit: 2 });
+    expect(cooking.total).toBe(3);
+    expect(cooking.items.map(v => v.id)).toEqual(['4', '2']);
+
+    const bySize = await store.query({ sortBy: 'size', sortDirection: 'asc' });
+    // Unknown sizes sort last
+    expect(bySize.items.map(v => v.id)).toEqual(['2', '4', '1', '3']);
+
+    const videos = await store.query({
+      formats: ['mp4'],
+      from: 2000,
+      to: 3000,
+      sortBy: 'title',
+      sortDirection: 'asc',
+    });
+    expect(videos.items.map(v => v.id)).toEqual(['2', '3']);
+  });
+
+  it('keeps chapter files together in track order', async () => {
+    const chapter = (id: string, index: number, downloadedAt: number) =>
+      video(id, {
+        downloadedAt,
+        chapter: { parentId: 'album', parentTitle: 'Album', index, count: 2 },
+      });
+    const store = new DownloadHistoryStore();
+    await store.upsertMany([
+      chapter('ch1', 1, 1000),
+      video('5'),
+      chapter('ch2', 2, 9000),
+    ]);
+
+    const { items } = await store.query();
+    expect(items.map(v => v.id)).toEqual(['ch1', 'ch2', '5']);
+  });
+});
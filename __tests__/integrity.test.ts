@@ -0,0 +1,142 @@
+/**
+ * @format
+ */
+
+import {
+  expectedSizeFromHeaders,
+  verifyDownloadedFile,
+} from '../src/services/download/integrity';
+import { DownloadCorruptedError } from '../src/services/download/errors';
+// "mock" names may be used by the hoisted jest.mock factory below
+import {
+  concatBytes,
+  latin1,
+  uint32Bytes,
+  encodeBase64 as mockEncodeBase64,
+} from '../src/services/download/bytes';
+
+// In-memory files, so only the container parsing is exercised
+const mockFiles = new Map<string, Uint8Array>();
+
+jest.mock('react-native-fs', () => ({
+  stat: jest.fn(async (path: string) => ({
+    size: mockFiles.get(path)?.length ?? 0,
+  })),
+  read: jest.fn(async (path: string, length: number, position: number) =>
+    mockEncodeBase64(
+      (mockFiles.get(path) || new Uint8Array(0)).subarray(
+        position,
+        position + length,
+      ),
+    ),
+  ),
+  hash: jest.fn(async () => 'abc123'),
+}));
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+const box = (type: string, payload: Uint8Array = new Uint8Array(0)) =>
+  concatBytes([uint32Bytes(8 + payload.length), latin1(type), payload]);
+
+const MP4 = concatBytes([
+  box('ftyp', latin1('isom\0\0\0\0')),
+  box('moov', new Uint8Array(8)),
+  box('mdat', new Uint8Array(32)),
+]);
+
+// ID3v2 header with a 4-byte tag body, then an MPEG frame
+const MP3 = concatBytes([
+  latin1('ID3'),
+  bytes(3, 0, 0, 0, 0, 0, 4),
+  new Uint8Array(4),
+  bytes(0xff, 0xfb, 0x90, 0x00),
+  new Uint8Array(16),
+]);
+
+// EBML header with a 4-byte body, then a Segment that holds 8 bytes
+const WEBM = concatBytes([
+  bytes(0x1a, 0x45, 0xdf, 0xa3, 0x84),
+  new Uint8Array(4),
+  bytes(0x18, 0x53, 0x80, 0x67, 0x88),
+  new Uint8Array(8),
+]);
+
+const verify = (file: Uint8Array, format: string, sha256?: string) => {
+  mockFiles.set('/tmp/file', file);
+  return verifyDownloadedFile('/tmp/file', { format, sha256 });
+};
+
+describe('verifyDownloadedFile', () => {
+  beforeEach(() => {
+    mockFiles.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('accepts complete MP4, MP3 and WebM files', async () => {
+    await expect(verify(MP4, 'mp4')).resolves.toBeUndefined();
+    await expect(verify(MP3, 'video.mp3')).resolves.toBeUndefined();
+    await expect(verify(WEBM, 'webm')).resolves.toBeUndefined();
+  });
+
+  it('rejects a truncated MP4', async () => {
+    await expect(
+      verify(MP4.subarray(0, MP4.length - 4), 'mp4'),
+    ).rejects.toThrow("MP4 'mdat' box runs past the end of the file");
+  });
+
+  it('rejects an MP4 without a moov box', async () => {
+    const file = concatBytes([box('ftyp', latin1('isom')), box('mdat')]);
+    await expect(verify(file, 'mp4')).rejects.toThrow('MP4 has no moov box');
+  });
+
+  it('rejects an MP3 without a frame after its ID3 tag', async () => {
+    const file = concatBytes([MP3.subarray(0, 14), new Uint8Array(8)]);
+    await expect(verify(file, 'mp3')).rejects.toThrow(
+      'no MP3 frame after the ID3 tag',
+    );
+  });
+
+  it('rejects a truncated WebM Segment', async () => {
+    await expect(
+      verify(WEBM.subarray(0, WEBM.length - 2), 'webm'),
+    ).rejects.toThrow('WebM Segment runs past the end of the file');
+  });
+
+  it('checks the size and checksum the server reported', async () => {
+    mockFiles.set('/tmp/file', MP4);
+    await expect(
+      verifyDownloadedFile('/tmp/file', { expectedSize: MP4.length + 1 }),
+    ).rejects.toBeInstanceOf(DownloadCorruptedError);
+    await expect(verify(MP4, 'mp4', 'ABC123')).resolves.toBeUndefined();
+    await expect(verify(MP4, 'mp4', 'def456')).rejects.toThrow(
+      'SHA-256 checksum mismatch',
+    );
+  });
+
+  it('rejects an empty file', async () => {
+    await expect(verify(new Uint8Array(0), 'mp4')).rejects.toThrow(
+      'file is empty',
+    );
+  });
+});
+
+describe('expectedSizeFromHeaders', () => {
+  it('prefers the Content-Range total', () => {
+    expect(
+      expectedSizeFromHeaders(
+        { 'Content-Range': 'bytes 100-199/1000', 'Content-Length': '100' },
+        100,
+      ),
+    ).toBe(1000);
+  });
+
+  it('adds the resumed offset to Content-Length', () => {
+    expect(expectedSizeFromHeaders({ 'content-length': '900' }, 100)).toBe(
+      1000,
+    );
+  });
+
+  it('is unknown without either header', () => {
+    expect(expectedSizeFromHeaders(undefined, 0)).toBeUndefined();
+  });
+});
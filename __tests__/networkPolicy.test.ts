@@ -0,0 +1,81 @@
+/**
+ * @format
+ */
+
+import {
+  describeNetworkHold,
+  downloadSizeLimit,
+  queueHoldReason,
+} from '../src/services/download/networkPolicy';
+import {
+  DEFAULT_NETWORK_POLICY,
+  type NetworkStatus,
+} from '../src/types/network';
+
+const WIFI: NetworkStatus = {
+  isConnected: true,
+  isInternetReachable: true,
+  type: 'wifi',
+  isCellular: false,
+  isMetered: false,
+};
+const CELLULAR: NetworkStatus = {
+  ...WIFI,
+  type: 'cellular',
+  isCellular: true,
+  isMetered: true,
+};
+
+describe('queueHoldReason', () => {
+  it('runs on any connection by default', () => {
+    expect(queueHoldReason(WIFI, DEFAULT_NETWORK_POLICY)).toBeNull();
+    expect(queueHoldReason(CELLULAR, DEFAULT_NETWORK_POLICY)).toBeNull();
+  });
+
+  it('holds everything while offline', () => {
+    expect(
+      queueHoldReason(
+        { ...WIFI, isInternetReachable: false },
+        DEFAULT_NETWORK_POLICY,
+      ),
+    ).toBe('offline');
+  });
+
+  it('holds cellular with Wi-Fi only', () => {
+    const policy = {
+      ...DEFAULT_NETWORK_POLICY,
+      cellular: 'wifi_only' as const,
+    };
+    expect(queueHoldReason(CELLULAR, policy)).toBe('wifi_only');
+    expect(queueHoldReason(WIFI, policy)).toBeNull();
+  });
+
+  it('holds metered networks, hotspots included, when asked to', () => {
+    const policy = { ...DEFAULT_NETWORK_POLICY, pauseOnMetered: true };
+    expect(queueHoldReason({ ...WIFI, isMetered: true }, policy)).toBe(
+      'metered',
+    );
+  });
+});
+
+describe('downloadSizeLimit', () => {
+  it('only limits cellular with a size limit set', () => {
+    const policy = {
+      ...DEFAULT_NETWORK_POLICY,
+      cellular: 'size_limit' as const,
+      cellularLimitMB: 25,
+    };
+    expect(downloadSizeLimit(CELLULAR, policy)).toBe(25 * 1024 * 1024);
+    expect(downloadSizeLimit(WIFI, policy)).toBeUndefined();
+    expect(downloadSizeLimit(CELLULAR, DEFAULT_NETWORK_POLICY)).toBeUndefined();
+  });
+});
+
+describe('describeNetworkHold', () => {
+  it('explains what the job is waiting for', () => {
+    expect(describeNetworkHold('wifi_only')).toBe('Waiting for Wi-Fi');
+    expect(describeNetworkHold('size_limit')).toBe(
+      'Too large for cellular - waiting for Wi-Fi',
+    );
+  });
+});
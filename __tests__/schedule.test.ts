@@ -0,0 +1,95 @@
+/**
+ * @format
+ */
+
+import {
+  formatMinuteOfDay,
+  isInQuietHours,
+  nextQuietHoursStart,
+  scheduledStart,
+} from '../src/services/download/schedule';
+import type { QuietHours } from '../src/types/schedule';
+
+// 23:00 - 07:00, wrapping past midnight
+const OVERNIGHT: QuietHours = { enabled: true, start: 23 * 60, end: 7 * 60 };
+const at = (hours: number, minutes = 0) =>
+  new Date(2025, 2, 7, hours, minutes).getTime();
+
+describe('isInQuietHours', () => {
+  it('handles a window that wraps past midnight', () => {
+    expect(isInQuietHours(OVERNIGHT, at(23, 30))).toBe(true);
+    expect(isInQuietHours(OVERNIGHT, at(6, 59))).toBe(true);
+    expect(isInQuietHours(OVERNIGHT, at(7))).toBe(false);
+    expect(isInQuietHours(OVERNIGHT, at(12))).toBe(false);
+  });
+
+  it('handles a window within one day', () => {
+    const lunch = { enabled: true, start: 12 * 60, end: 13 * 60 };
+    expect(isInQuietHours(lunch, at(12, 30))).toBe(true);
+    expect(isInQuietHours(lunch, at(13))).toBe(false);
+  });
+
+  it('covers the whole day when start and end match, and nothing when off', () => {
+    expect(isInQuietHours({ ...OVERNIGHT, end: 23 * 60 }, at(12))).toBe(true);
+    expect(isInQuietHours({ ...OVERNIGHT, enabled: false }, at(23, 30))).toBe(
+      false,
+    );
+  });
+});
+
+describe('nextQuietHoursStart', () => {
+  it('is now inside the window, else the next start', () => {
+    expect(nextQuietHoursStart(OVERNIGHT, at(1))).toBe(at(1));
+    expect(nextQuietHoursStart(OVERNIGHT, at(12, 15))).toBe(at(23));
+  });
+
+  it('rolls over to tomorrow once the start has passed for today', () => {
+    const morning = { enabled: true, start: 5 * 60, end: 6 * 60 };
+    expect(nextQuietHoursStart(morning, at(8))).toBe(at(29));
+  });
+});
+
+describe('scheduledStart', () => {
+  it('is undefined when the job can start now', () => {
+    expect(scheduledStart({}, OVERNIGHT, at(12))).toBeUndefined();
+    expect(
+      scheduledStart({ notBefore: at(11) }, OVERNIGHT, at(12)),
+    ).toBeUndefined();
+  });
+
+  it('waits for the requested time', () => {
+    expect(scheduledStart({ notBefore: at(15) }, OVERNIGHT, at(12))).toBe(
+      at(15),
+    );
+  });
+
+  it('waits for quiet hours only while they are enabled', () => {
+    expect(scheduledStart({ quietHoursOnly: true }, OVERNIGHT, at(12))).toBe(
+      at(23),
+    );
+    expect(
+      scheduledStart(
+        { quietHoursOnly: true },
+        { ...OVERNIGHT, enabled: false },
+        at(12),
+      ),
+    ).toBeUndefined();
+  });
+
+  it('looks for the window from the requested time', () => {
+    expect(
+      scheduledStart(
+        { notBefore: at(23, 30), quietHoursOnly: true },
+        OVERNIGHT,
+        at(12),
+      ),
+    ).toBe(at(23, 30));
+  });
+});
+
+describe('formatMinuteOfDay', () => {
+  it('pads hours and minutes', () => {
+    expect(formatMinuteOfDay(7 * 60 + 5)).toBe('07:05');
+    expect(formatMinuteOfDay(23 * 60)).toBe('23:00');
+  });
+});
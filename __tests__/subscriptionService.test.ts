@@ -0,0 +1,173 @@
+/**
+ * @format
+ */
+
+import { SubscriptionService } from '../src/services/subscriptionService';
+import { apiClient } from '../src/services/apiClient';
+import { storageService } from '../src/services/storageService';
+import { clientDownloadQueue } from '../src/services/download/queueManager';
+import type { Video } from '../src/types/video';
+
+jest.mock('../src/services/apiClient', () => ({
+  apiClient: { getChannelVideos: jest.fn() },
+}));
+
+jest.mock('../src/services/storageService', () => ({
+  storageService: {
+    getSubscriptions: jest.fn(),
+    saveSubscriptions: jest.fn(),
+    getDownloadedVideos: jest.fn(),
+  },
+}));
+
+jest.mock('../src/services/download/queueManager', () => ({
+  clientDownloadQueue: {
+    getState: jest.fn(),
+    enqueueManyWithCallbacks: jest.fn(),
+  },
+}));
+
+const mockedApi = apiClient as jest.Mocked<typeof apiClient>;
+const mockedStorage = storageService as jest.Mocked<typeof storageService>;
+const mockedQueue = clientDownloadQueue as jest.Mocked<
+  typeof clientDownloadQueue
+>;
+
+const SUBSCRIBED_AT = Date.parse('2025-01-01T00:00:00Z');
+
+const upload = (id: string, title: string, publishedAt: string): Video => ({
+  id,
+  title,
+  thumbnailUrl: `https://i.ytimg.com/vi/${id}/mqdefault.jpg`,
+  duration: 0,
+  channelName: 'Lecture Channel',
+  channelId: 'UCchannel',
+  publishedAt,
+});
+
+describe('SubscriptionService.checkForNewUploads', () => {
+  let service: SubscriptionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockedStorage.getSubscriptions.mockResolvedValue([
+      {
+        channelId: 'UCchannel',
+        channelName: 'Lecture Channel',
+        format: 'mp3',
+        quality: 'audio_only',
+        bitRate: '192k',
+        keyword: 'lecture',
+        subscribedAt: SUBSCRIBED_AT,
+      },
+    ]);
+    mockedStorage.saveSubscriptions.mockResolvedValue();
+    mockedStorage.getDownloadedVideos.mockResolvedValue([]);
+    mockedQueue.getState.mockReturnValue({
+      activeDownloads: [],
+      maxConcurrent: 2,
+      queuedDownloads: [],
+      pausedDownloads: [],
+      completedDownloads: new Map(),
+    });
+    mockedQueue.enqueueManyWithCallbacks.mockImplementation(entries =>
+      entries.map(({ job }) => job.id),
+    );
+
+    service = new SubscriptionService();
+  });
+
+  it('queues matching new uploads as mp3 jobs', async () => {
+    mockedApi.getChannelVideos.mockResolvedValue([
+      upload('new1', 'Lecture 12: Graphs', '2025-02-01T00:00:00Z'),
+      upload('new2', 'Behind the scenes', '2025-02-02T00:00:00Z'),
+    ]);
+
+    const queued = await service.checkForNewUploads();
+
+    expect(queued).toBe(1);
+    expect(mockedApi.getChannelVideos).toHaveBeenCalledWith('UCchannel', 15);
+    const [entries] = mockedQueue.enqueueManyWithCallbacks.mock.calls[0];
+    expect(entries).toHaveLength(1);
+    expect(entries[0].job).toMatchObject({
+      videoId: 'new1',
+      format: 'mp3',
+      bitRate: '192k',
+      videoTitle: 'Lecture 12: Graphs',
+    });
+  });
+
+  it('skips uploads that are already downloaded, queued or older than the subscription', async () => {
+    mockedStorage.getDownloadedVideos.mockResolvedValue([
+      {
+        id: '1',
+        videoId: 'done',
+        title: 'Lecture 1',
+        format: 'mp3',
+        filePath: '/downloads/lecture1.mp3',
+        filename: 'lecture1.mp3',
+        downloadedAt: Date.now(),
+      },
+    ]);
+    mockedQueue.getState.mockReturnValue({
+      activeDownloads: [],
+      maxConcurrent: 2,
+      queuedDownloads: [
+        {
+          id: 'q1',
+          videoId: 'waiting',
+          videoTitle: 'Lecture 2',
+          format: 'mp3',
+          status: 'queued',
+          progress: 0,
+          createdAt: Date.now(),
+        },
+      ],
+      pausedDownloads: [],
+      completedDownloads: new Map(),
+    });
+    mockedApi.getChannelVideos.mockResolvedValue([
+      upload('done', 'Lecture 1', '2025-02-01T00:00:00Z'),
+      upload('waiting', 'Lecture 2', '2025-02-02T00:00:00Z'),
+      upload('old', 'Lecture 0', '2024-12-01T00:00:00Z'),
+    ]);
+
+    const queued = await service.checkForNewUploads();
+
+    expect(queued).toBe(0);
+    const [entries] = mockedQueue.enqueueManyWithCallbacks.mock.calls[0];
+    expect(entries).toHaveLength(0);
+  });
+
+  it('still records the check when the queue skips a duplicate', async () => {
+    mockedApi.getChannelVideos.mockResolvedValue([
+      upload('dup', 'Lecture 3', '2025-02-01T00:00:00Z'),
+      upload('new3', 'Lecture 4', '2025-02-02T00:00:00Z'),
+    ]);
+    // The queue finds a saved copy of the first one
+    mockedQueue.enqueueManyWithCallbacks.mockImplementation(entries =>
+      entries
+        .filter(({ job }) => job.videoId !== 'dup')
+        .map(({ job }) => job.id),
+    );
+
+    const queued = await service.checkForNewUploads();
+
+    expect(queued).toBe(1);
+    const [saved] = mockedStorage.saveSubscriptions.mock.calls[0];
+    expect(saved[0].lastCheckedAt).toEqual(expect.any(Number));
+  });
+
+  it('does not mark a channel as checked when its API call fails', async () => {
+    mockedApi.getChannelVideos.mockRejectedValue(new Error('offline'));
+
+    const queued = await service.checkForNewUploads();
+
+    expect(queued).toBe(0);
+    const [saved] = mockedStorage.saveSubscriptions.mock.calls[0];
+    expect(saved[0].lastCheckedAt).toBeUndefined();
+  });
+});
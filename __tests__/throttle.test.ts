@@ -0,0 +1,145 @@
+/**
+ * @format
+ */
+
+import RNFS from 'react-native-fs';
+import {
+  RateLimiter,
+  startThrottledDownload,
+} from '../src/services/download/throttle';
+// "mock" names may be used by the hoisted jest.mock factory below
+import {
+  concatBytes as mockConcatBytes,
+  decodeBase64 as mockDecodeBase64,
+} from '../src/services/download/bytes';
+
+// Node's http module; the app's type setup doesn't include Node's typings
+const http = require('http');
+
+// In-memory files, so the test only exercises the transfer and the pacing
+const mockFiles = new Map<string, Uint8Array>();
+
+jest.mock('react-native-fs', () => ({
+  writeFile: jest.fn(async (path: string, data: string) => {
+    mockFiles.set(path, mockDecodeBase64(data));
+  }),
+  appendFile: jest.fn(async (path: string, data: string) => {
+    mockFiles.set(
+      path,
+      mockConcatBytes([mockFiles.get(path) || new Uint8Array(0), mockDecodeBase64(data)]),
+    );
+  }),
+}));
+
+const KB = 1024;
+const FILE = Uint8Array.from({ length: 256 * KB }, (_, i) => i % 251);
+
+const sameBytes = (a: Uint8Array | undefined, b: Uint8Array) =>
+  !!a && a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+// Serves FILE, honouring Range requests unless `ranges` is off
+function startServer(ranges = true): Promise<any> {
+  const server = http.createServer((req: any, res: any) => {
+    const match = /bytes=(\d+)-(\d*)/.exec(req.headers.range || '');
+    if (!ranges || !match) {
+      res.writeHead(200, { 'Content-Length': FILE.length });
+      res.end(FILE);
+      return;
+    }
+    const start = Number(match[1]);
+    const end = Math.min(Number(match[2] || FILE.length - 1), FILE.length - 1);
+    if (start >= FILE.length) {
+      res.writeHead(416, { 'Content-Range': `bytes */${FILE.length}` });
+      res.end();
+      return;
+    }
+    res.writeHead(206, {
+      'Content-Length': end - start + 1,
+      'Content-Range': `bytes ${start}-${end}/${FILE.length}`,
+    });
+    res.end(FILE.subarray(start, end + 1));
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+const urlOf = (server: any) =>
+  `http://127.0.0.1:${server.address().port}/file.mp4`;
+
+describe('startThrottledDownload', () => {
+  let server: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(done => {
+    mockFiles.clear();
+    server.close(() => done());
+  });
+
+  it('keeps the transfer under the cap and writes the whole file', async () => {
+    server = await startServer();
+    const rate = 64 * KB;
+    const progress: number[] = [];
+
+    const startedAt = Date.now();
+    const result = await startThrottledDownload(urlOf(server), '/tmp/file.mp4', {
+      limiter: new RateLimiter(rate),
+      onProgress: received => progress.push(received),
+    }).promise;
+    const elapsed = (Date.now() - startedAt) / 1000;
+
+    expect(result).toMatchObject({
+      ranged: true,
+      status: 206,
+      totalSize: FILE.length,
+      bytesWritten: FILE.length,
+    });
+    expect(sameBytes(mockFiles.get('/tmp/file.mp4'), FILE)).toBe(true);
+    // One second of burst is allowed up front; the rest has to wait its turn
+    expect(elapsed).toBeGreaterThanOrEqual((FILE.length - rate) / rate - 0.05);
+    expect(progress).toEqual([64 * KB, 128 * KB, 192 * KB, 256 * KB]);
+  });
+
+  it('shares one limiter between concurrent transfers', async () => {
+    server = await startServer();
+    const rate = 128 * KB;
+    const limiter = new RateLimiter(rate);
+
+    const startedAt = Date.now();
+    await Promise.all([
+      startThrottledDownload(urlOf(server), '/tmp/a.mp4', { limiter }).promise,
+      startThrottledDownload(urlOf(server), '/tmp/b.mp4', { limiter }).promise,
+    ]);
+    const elapsed = (Date.now() - startedAt) / 1000;
+
+    expect(sameBytes(mockFiles.get('/tmp/a.mp4'), FILE)).toBe(true);
+    expect(sameBytes(mockFiles.get('/tmp/b.mp4'), FILE)).toBe(true);
+    expect(elapsed).toBeGreaterThanOrEqual((2 * FILE.length - rate) / rate - 0.05);
+  });
+
+  it('appends from startOffset when resuming', async () => {
+    server = await startServer();
+    mockFiles.set('/tmp/file.mp4', FILE.subarray(0, 100 * KB));
+
+    const result = await startThrottledDownload(urlOf(server), '/tmp/file.mp4', {
+      limiter: new RateLimiter(512 * KB),
+      startOffset: 100 * KB,
+    }).promise;
+
+    expect(result.bytesWritten).toBe(FILE.length - 100 * KB);
+    expect(sameBytes(mockFiles.get('/tmp/file.mp4'), FILE)).toBe(true);
+  });
+
+  it('reports servers that ignore Range requests without writing anything', async () => {
+    server = await startServer(false);
+
+    const result = await startThrottledDownload(urlOf(server), '/tmp/file.mp4', {
+      limiter: new RateLimiter(64 * KB),
+    }).promise;
+
+    expect(result).toMatchObject({ ranged: false, status: 200, bytesWritten: 0 });
+    expect(mockFiles.get('/tmp/file.mp4')!.length).toBe(0);
+    expect(RNFS.appendFile).not.toHaveBeenCalled();
+  });
+});
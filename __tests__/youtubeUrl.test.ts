@@ -0,0 +1,75 @@
+/**
+ * @format
+ */
+
+import { parseYouTubeUrl } from '../src/utils/youtubeUrl';
+
+const ID = 'dQw4w9WgXcQ';
+
+describe('parseYouTubeUrl', () => {
+  it('accepts a bare video id', () => {
+    expect(parseYouTubeUrl(`  ${ID} `)).toEqual({
+      videoId: ID,
+      playlistId: null,
+    });
+  });
+
+  it('reads watch, youtu.be and mobile links', () => {
+    [
+      `https://www.youtube.com/watch?v=${ID}`,
+      `https://m.youtube.com/watch?feature=share&v=${ID}&t=1m30s`,
+      `https://music.youtube.com/watch?v=${ID}#t=30`,
+      `youtu.be/${ID}?si=tracking`,
+      `https://youtu.be/${ID}`,
+    ].forEach(link =>
+      expect(parseYouTubeUrl(link)).toEqual({ videoId: ID, playlistId: null }),
+    );
+  });
+
+  it('reads shorts, embed and live paths', () => {
+    ['shorts', 'embed', 'live'].forEach(path =>
+      expect(
+        parseYouTubeUrl(`https://youtube.com/${path}/${ID}`)?.videoId,
+      ).toBe(ID),
+    );
+    expect(
+      parseYouTubeUrl(`https://www.youtube-nocookie.com/embed/${ID}?start=90`)
+        ?.videoId,
+    ).toBe(ID);
+  });
+
+  it('finds the link inside shared text', () => {
+    expect(
+      parseYouTubeUrl(`Check this out: https://youtu.be/${ID} it's great`),
+    ).toEqual({ videoId: ID, playlistId: null });
+  });
+
+  it('reads playlists, with or without a video', () => {
+    expect(
+      parseYouTubeUrl('https://www.youtube.com/playlist?list=PLabc123'),
+    ).toEqual({ videoId: null, playlistId: 'PLabc123' });
+    expect(
+      parseYouTubeUrl(`https://www.youtube.com/watch?v=${ID}&list=PLabc123`),
+    ).toEqual({ videoId: ID, playlistId: 'PLabc123' });
+  });
+
+  it('does not treat auto-generated mixes as playlists', () => {
+    expect(
+      parseYouTubeUrl(`https://www.youtube.com/watch?v=${ID}&list=RD${ID}`),
+    ).toEqual({ videoId: ID, playlistId: null });
+    expect(
+      parseYouTubeUrl(`https://www.youtube.com/playlist?list=RD${ID}`),
+    ).toBeNull();
+  });
+
+  it('rejects anything without a video or playlist', () => {
+    [
+      '',
+      'not a link',
+      'https://example.com/watch?v=dQw4w9WgXcQ',
+      'https://www.youtube.com/',
+      'https://www.youtube.com/watch?v=tooshort',
+      'https://www.youtube.com/channel/UCabc',
+    ].forEach(input => expect(parseYouTubeUrl(input)).toBeNull());
+  });
+});
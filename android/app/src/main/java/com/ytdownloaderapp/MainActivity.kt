@@ -1,5 +1,8 @@
 package com.ytdownloaderapp
 
+import android.content.Intent
+import android.net.Uri
+import android.os.Bundle
 import com.facebook.react.ReactActivity
 import com.facebook.react.ReactActivityDelegate
 import com.facebook.react.defaults.DefaultNewArchitectureEntryPoint.fabricEnabled
@@ -19,4 +22,30 @@ class MainActivity : ReactActivity() {
    */
   override fun createReactActivityDelegate(): ReactActivityDelegate =
       DefaultReactActivityDelegate(this, mainComponentName, fabricEnabled)
+
+  /**
+   * Shared links arrive as ACTION_SEND. Rewriting them to a deep link before React sees the
+   * intent lets JS handle both through Linking, on a cold start and a warm one.
+   */
+  override fun onCreate(savedInstanceState: Bundle?) {
+    intent = toDeepLink(intent)
+    super.onCreate(savedInstanceState)
+  }
+
+  override fun onNewIntent(intent: Intent) {
+    val deepLink = toDeepLink(intent)
+    setIntent(deepLink)
+    super.onNewIntent(deepLink)
+  }
+
+  private fun toDeepLink(intent: Intent): Intent {
+    if (intent.action != Intent.ACTION_SEND || intent.type != "text/plain") return intent
+    val text = intent.getStringExtra(Intent.EXTRA_TEXT) ?: return intent
+    val uri = Uri.Builder()
+        .scheme("ytdownloader")
+        .authority("download")
+        .appendQueryParameter("url", text)
+        .build()
+    return Intent(Intent.ACTION_VIEW, uri)
+  }
 }
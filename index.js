@@ -5,9 +5,11 @@ import 'react-native-reanimated';
 
 import { AppRegistry } from 'react-native';
 import notifee, { EventType } from '@notifee/react-native';
+import BackgroundFetch from 'react-native-background-fetch';
 import App from './App';
 import { name as appName } from './app.json';
 import { clientDownloadQueue } from './src/services/download/queueManager';
+import { backgroundTaskManager } from './src/utils/backgroundTask';
 
 notifee.onBackgroundEvent(async ({ type, detail }) => {
   const actionId = detail?.pressAction?.id || '';
@@ -26,4 +28,7 @@ notifee.onBackgroundEvent(async ({ type, detail }) => {
   }
 });
 
+// Scheduled downloads: the queue is loaded above and wakes itself
+BackgroundFetch.registerHeadlessTask(backgroundTaskManager.handleHeadlessEvent);
+
 AppRegistry.registerComponent(appName, () => App);
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useCallback } from 'react';
 import {
   View,
   Text,
@@ -8,20 +8,66 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../hooks/useTheme';
+import { useDownloads } from '../hooks/useDownloads';
+import { useDialog } from '../hooks/useDialog';
+import { useClipboardLink } from '../hooks/useClipboardLink';
+import { useSettings } from '../contexts/SettingsContext';
+import { downloadService } from '../services/downloadService';
 import { SunIcon, MoonIcon } from './icons/ModernIcons';
+import ClipboardLinkBanner, {
+  type QuickDownloadFormat,
+} from './ClipboardLinkBanner';
 
 interface AppHeaderProps {
   title?: string;
   showThemeToggle?: boolean;
   onThemeToggle?: () => void;
+  showTitleBar?: boolean; // false: only the clipboard banner, when there is one
 }
 
 const AppHeader: React.FC<AppHeaderProps> = ({ 
   title,
   showThemeToggle = true,
   onThemeToggle,
+  showTitleBar = true,
 }) => {
   const { theme, isDark, toggleTheme } = useTheme();
+  const { startDownload } = useDownloads();
+  const { showSuccess, showError } = useDialog();
+  const { downloadLocation } = useSettings();
+  const { video: clipboardVideo, dismiss: dismissClipboardLink } =
+    useClipboardLink();
+
+  // One tap from the banner: default quality, no drawer
+  const handleQuickDownload = useCallback(
+    async (format: QuickDownloadFormat) => {
+      if (!clipboardVideo) return;
+      dismissClipboardLink();
+      try {
+        downloadService.setDownloadPath(downloadLocation);
+        await startDownload(
+          clipboardVideo,
+          format,
+          format === 'mp3' ? 'audio_only' : '720p',
+        );
+        showSuccess(
+          'Download Queued',
+          `${clipboardVideo.title} has been added to the download queue.`,
+        );
+      } catch (error) {
+        console.error('Clipboard download error:', error);
+        showError('Download Error', 'Failed to start download. Please try again.');
+      }
+    },
+    [
+      clipboardVideo,
+      dismissClipboardLink,
+      downloadLocation,
+      startDownload,
+      showSuccess,
+      showError,
+    ],
+  );
 
   const handleThemeToggle = () => {
     toggleTheme();
@@ -86,6 +132,10 @@ const AppHeader: React.FC<AppHeaderProps> = ({
     brandContainer: {
       alignItems: 'center',
     },
+    bannerOnly: {
+      backgroundColor: theme.colors.background,
+      paddingTop: theme.spacing.sm,
+    },
     brandAccent: {
       width: 40,
       height: 4,
@@ -95,6 +145,22 @@ const AppHeader: React.FC<AppHeaderProps> = ({
     },
   });
 
+  const clipboardBanner = clipboardVideo && (
+    <ClipboardLinkBanner
+      video={clipboardVideo}
+      onDownload={handleQuickDownload}
+      onDismiss={dismissClipboardLink}
+    />
+  );
+
+  if (!showTitleBar) {
+    return clipboardBanner ? (
+      <SafeAreaView edges={['top']} style={styles.bannerOnly}>
+        {clipboardBanner}
+      </SafeAreaView>
+    ) : null;
+  }
+
   return (
     <View style={styles.container}>
       <StatusBar
@@ -138,6 +204,7 @@ const AppHeader: React.FC<AppHeaderProps> = ({
             )}
           </View>
         </View>
+        {clipboardBanner}
       </SafeAreaView>
     </View>
   );
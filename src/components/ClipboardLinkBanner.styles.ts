@@ -0,0 +1,65 @@
+import { StyleSheet } from 'react-native';
+import { Theme } from '../types/theme';
+import { moderateScale as ms, scale, verticalScale as vs } from '../utils/responsive';
+
+export const getClipboardBannerStyles = (theme: Theme) =>
+  StyleSheet.create({
+    banner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginHorizontal: scale(16),
+      marginBottom: vs(10),
+      padding: scale(10),
+      borderRadius: ms(14),
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.surface,
+    },
+    thumbnail: {
+      width: scale(64),
+      height: scale(36),
+      borderRadius: ms(6),
+      backgroundColor: theme.colors.border,
+    },
+    info: {
+      flex: 1,
+      marginHorizontal: scale(10),
+    },
+    label: {
+      fontSize: ms(11),
+      fontWeight: '600',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+    },
+    title: {
+      fontSize: ms(14),
+      fontWeight: '600',
+      color: theme.colors.text,
+      marginTop: vs(2),
+    },
+    actions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: scale(6),
+    },
+    actionButton: {
+      paddingHorizontal: scale(10),
+      paddingVertical: vs(6),
+      borderRadius: ms(8),
+      backgroundColor: theme.colors.primary,
+    },
+    actionText: {
+      fontSize: ms(12),
+      fontWeight: '700',
+      color: '#FFFFFF',
+    },
+    dismissButton: {
+      paddingHorizontal: scale(6),
+      paddingVertical: vs(6),
+    },
+    dismissText: {
+      fontSize: ms(16),
+      color: theme.colors.textSecondary,
+    },
+  });
@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { View, Text, Image, TouchableOpacity } from 'react-native';
+import { useTheme } from '../hooks/useTheme';
+import type { Video } from '../types/video';
+import { getClipboardBannerStyles } from './ClipboardLinkBanner.styles';
+
+export type QuickDownloadFormat = 'mp3' | 'mp4';
+
+interface ClipboardLinkBannerProps {
+  video: Video;
+  onDownload: (format: QuickDownloadFormat) => void;
+  onDismiss: () => void;
+}
+
+const QUICK_FORMATS: QuickDownloadFormat[] = ['mp3', 'mp4'];
+
+const ClipboardLinkBanner: React.FC<ClipboardLinkBannerProps> = ({
+  video,
+  onDownload,
+  onDismiss,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => getClipboardBannerStyles(theme), [theme]);
+
+  return (
+    <View style={styles.banner}>
+      {video.thumbnailUrl ? (
+        <Image
+          source={{ uri: video.thumbnailUrl }}
+          style={styles.thumbnail}
+          resizeMode="cover"
+        />
+      ) : (
+        <View style={styles.thumbnail} />
+      )}
+
+      <View style={styles.info}>
+        <Text style={styles.label}>Link on clipboard</Text>
+        <Text style={styles.title} numberOfLines={1}>
+          {video.title}
+        </Text>
+      </View>
+
+      <View style={styles.actions}>
+        {QUICK_FORMATS.map(format => (
+          <TouchableOpacity
+            key={format}
+            style={styles.actionButton}
+            onPress={() => onDownload(format)}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.actionText}>{format.toUpperCase()}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={styles.dismissButton}
+          onPress={onDismiss}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessibilityLabel="Dismiss clipboard link"
+        >
+          <Text style={styles.dismissText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+export default ClipboardLinkBanner;
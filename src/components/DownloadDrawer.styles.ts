@@ -75,6 +75,18 @@ export const getDrawerStyles = (theme: Theme) =>
       fontSize: ms(14),
       color: theme.colors.textSecondary,
     },
+    subtitleStatusText: {
+      fontSize: ms(13),
+      color: theme.colors.textSecondary,
+      marginBottom: vs(16),
+      paddingHorizontal: scale(4),
+    },
+    clipText: {
+      fontSize: ms(13),
+      fontWeight: '600',
+      color: theme.colors.primary,
+      marginTop: vs(6),
+    },
     bottomSection: {
       marginTop: 'auto',
       paddingTop: vs(12),
@@ -152,4 +164,17 @@ export const getOptionButtonStyles = (theme: Theme) =>
       fontSize: ms(14),
       textAlign: 'center',
     },
+    buttonDisabled: {
+      opacity: 0.4,
+    },
+    // Second line under the label, e.g. the download size
+    detail: {
+      fontSize: ms(11),
+      textAlign: 'center',
+      marginTop: 2,
+      color: theme.colors.textSecondary,
+    },
+    detailSelected: {
+      color: '#FFFFFF',
+    },
   });
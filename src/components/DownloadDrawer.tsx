@@ -18,7 +18,31 @@ import {
   ScrollView,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Video, VideoFormat, VideoQuality } from '../types/video';
+import {
+  Chapter,
+  ClipRange,
+  Video,
+  QualityMode,
+  VideoFormat,
+  VideoQuality,
+} from '../types/video';
+import {
+  formatBandwidth,
+  formatClipRange,
+  formatFileSize,
+  formatFolder,
+} from '../utils/formatters';
+import { validateFolder } from '../services/download/folderRules';
+import { DuplicateDownloadError } from '../services/download/errors';
+import { openFile } from '../utils/openFile';
+import { downloadSizeFor, isQualityAvailable } from '../utils/streamFormats';
+import type { StreamFormat } from '../types/formats';
+import { BANDWIDTH_LIMIT_OPTIONS_KBPS } from '../types/network';
+import type { CaptionTrack, SubtitleFormat } from '../types/subtitle';
+import { apiClient } from '../services/apiClient';
+import { storageService } from '../services/storageService';
+import { formatMinuteOfDay } from '../services/download/schedule';
+import type { DownloadSchedule, QuietHours } from '../types/schedule';
 import { useTheme } from '../hooks/useTheme';
 import { useDownloads } from '../hooks/useDownloads';
 import { useDialog } from '../hooks/useDialog';
@@ -34,6 +58,8 @@ import {
 interface DownloadDrawerProps {
   visible: boolean;
   video: Video | null;
+  clip?: ClipRange; // Only this part of the video is downloaded
+  initialFormat?: VideoFormat; // Preselected, e.g. by a download link
   onClose: () => void;
 }
 
@@ -48,7 +74,55 @@ const SECONDARY_QUALITIES: VideoQuality[] = [
   '2160p',
   'audio_only',
 ];
+const QUALITY_ORDER: VideoQuality[] = [
+  '144p',
+  '240p',
+  '360p',
+  '480p',
+  '720p',
+  '1080p',
+  '1440p',
+  '2160p',
+];
+// What to do when the video lacks the picked quality
+const qualityModeLabels = (quality: VideoQuality): Record<QualityMode, string> => ({
+  best_up_to: `Best up to ${quality}`,
+  exact: `Exactly ${quality}`,
+});
 const BITRATE_OPTIONS = ['128k', '192k', '256k', '320k'];
+type SubtitleMode = 'Off' | 'With media' | 'Captions only';
+const SUBTITLE_MODES: SubtitleMode[] = ['Off', 'With media', 'Captions only'];
+const SUBTITLE_FORMATS = ['SRT', 'VTT'];
+const AUTO_CAPTION_OPTIONS = ['Allowed', 'Manual only'];
+const CHAPTER_MODES = ['Whole file', 'Split by chapters'];
+// Delay in hours per start option; quiet hours is offered when enabled
+const SCHEDULE_DELAYS: Record<string, number> = {
+  Now: 0,
+  'In 1 hour': 1,
+  'In 3 hours': 3,
+};
+const QUIET_HOURS_OPTION = 'Quiet hours';
+// 'Default' follows the cap in Settings; the others override it for this job
+const SPEED_LIMIT_DEFAULT = 'Default';
+const SPEED_LIMIT_OPTIONS = [
+  SPEED_LIMIT_DEFAULT,
+  ...BANDWIDTH_LIMIT_OPTIONS_KBPS.map(formatBandwidth),
+];
+
+// 'Automatic' is the download folder, or a folder rule's when one matches
+const SAVE_TO_AUTOMATIC = 'Automatic';
+const SAVE_TO_OTHER = 'Other folder...';
+
+const bandwidthLimitFor = (option: string): number | undefined => {
+  const index = SPEED_LIMIT_OPTIONS.indexOf(option) - 1;
+  return index >= 0 ? BANDWIDTH_LIMIT_OPTIONS_KBPS[index] : undefined;
+};
+
+const scheduleFor = (option: string): DownloadSchedule | undefined => {
+  if (option === QUIET_HOURS_OPTION) return { quietHoursOnly: true };
+  const hours = SCHEDULE_DELAYS[option];
+  return hours ? { notBefore: Date.now() + hours * 3600000 } : undefined;
+};
 
 // Drawer height constants
 const getInitialDrawerHeight = (screenHeight: number): number => {
@@ -62,12 +136,14 @@ const getMaxDrawerHeight = (screenHeight: number, topInset: number): number => {
 const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
   visible,
   video,
+  clip,
+  initialFormat,
   onClose,
 }) => {
   // ALL HOOKS MUST BE CALLED FIRST, IN THE SAME ORDER EVERY RENDER
   const { theme } = useTheme();
   const { startDownload } = useDownloads();
-  const { showSuccess, showError } = useDialog();
+  const { showSuccess, showError, showDialog } = useDialog();
   const { downloadLocation, setDownloadLocation, isLocationSet } =
     useSettings();
   const { width, height } = useWindowDimensions();
@@ -81,6 +157,28 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
   const [showAllFormats, setShowAllFormats] = useState(false);
   const [showAllQualities, setShowAllQualities] = useState(false);
   const [showLocationPicker, setShowLocationPicker] = useState(false);
+  const [subtitleMode, setSubtitleMode] = useState<SubtitleMode>('Off');
+  // null until loaded for the current video
+  const [captionTracks, setCaptionTracks] = useState<CaptionTrack[] | null>(
+    null,
+  );
+  const [captionsError, setCaptionsError] = useState<string | null>(null);
+  const [subtitleLanguage, setSubtitleLanguage] = useState<string | null>(null);
+  const [subtitleFormat, setSubtitleFormat] = useState<SubtitleFormat>('srt');
+  const [allowAutoCaptions, setAllowAutoCaptions] = useState(true);
+  // null until known: search results only carry part of the description
+  const [chapters, setChapters] = useState<Chapter[] | null>(null);
+  const [splitByChapters, setSplitByChapters] = useState(false);
+  const [scheduleOption, setScheduleOption] = useState('Now');
+  const [speedLimitOption, setSpeedLimitOption] = useState(SPEED_LIMIT_DEFAULT);
+  const [qualityMode, setQualityMode] = useState<QualityMode>('best_up_to');
+  const [jobFolder, setJobFolder] = useState<string | null>(null);
+  const [showJobFolderPicker, setShowJobFolderPicker] = useState(false);
+  const [quietHours, setQuietHours] = useState<QuietHours | null>(null);
+  // null until loaded; empty when the lookup failed and every option is shown
+  const [streamFormats, setStreamFormats] = useState<StreamFormat[] | null>(
+    null,
+  );
 
   // Calculate responsive values AFTER all hooks
   const isLandscape = width > height;
@@ -190,6 +288,115 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
     }
   }, [selectedFormat, selectedQuality, showAllQualities]);
 
+  useEffect(() => {
+    if (visible && initialFormat) setSelectedFormat(initialFormat);
+  }, [visible, initialFormat, video?.id]);
+
+  // Quiet hours may have changed in Settings since the last open
+  useEffect(() => {
+    if (!visible) return;
+    setScheduleOption('Now');
+    setSpeedLimitOption(SPEED_LIMIT_DEFAULT);
+    setJobFolder(null);
+    storageService.getQuietHours().then(setQuietHours);
+  }, [visible]);
+
+  // Caption choices belong to one video
+  useEffect(() => {
+    setSubtitleMode('Off');
+    setCaptionTracks(null);
+    setCaptionsError(null);
+    setSubtitleLanguage(null);
+  }, [video?.id]);
+
+  // Real streams, so options the video lacks can be disabled and sizes shown
+  useEffect(() => {
+    setStreamFormats(null);
+    if (!video) return;
+    let cancelled = false;
+    apiClient
+      .getFormats(video.id)
+      .then(formats => {
+        if (!cancelled) setStreamFormats(formats);
+      })
+      .catch(() => {
+        if (!cancelled) setStreamFormats([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [video]);
+
+  // Chapters belong to one video too
+  useEffect(() => {
+    setChapters(video?.chapters?.length ? video.chapters : null);
+    setSplitByChapters(false);
+  }, [video?.id, video?.chapters]);
+
+  // Splitting is MP3-only, so the full description is fetched on choosing it
+  useEffect(() => {
+    if (!video || selectedFormat !== 'mp3' || chapters !== null) return;
+    let cancelled = false;
+    apiClient
+      .getVideoDetails(video.id)
+      .then(details => {
+        if (!cancelled) setChapters(details.chapters || []);
+      })
+      .catch(() => {
+        if (!cancelled) setChapters([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [video, selectedFormat, chapters]);
+
+  // Tracks are only fetched once the user asks for subtitles
+  useEffect(() => {
+    if (!video || subtitleMode === 'Off' || captionTracks !== null) return;
+    let cancelled = false;
+    apiClient
+      .getCaptionTracks(video.id)
+      .then(tracks => {
+        if (!cancelled) setCaptionTracks(tracks);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setCaptionTracks([]);
+        setCaptionsError(error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [video, subtitleMode, captionTracks]);
+
+  // One entry per language; a manual track wins over an automatic one
+  const languageOptions = useMemo(() => {
+    const byCode = new Map<string, string>();
+    (captionTracks || []).forEach(track => {
+      if (track.isAutoGenerated && !allowAutoCaptions) return;
+      if (!byCode.has(track.languageCode)) {
+        byCode.set(
+          track.languageCode,
+          track.isAutoGenerated ? `${track.name} (auto)` : track.name,
+        );
+      }
+    });
+    return Array.from(byCode, ([code, label]) => ({ code, label }));
+  }, [captionTracks, allowAutoCaptions]);
+
+  const selectedLanguage =
+    languageOptions.find(o => o.code === subtitleLanguage) ||
+    languageOptions[0];
+  const isCaptionsOnly = subtitleMode === 'Captions only';
+  // Chapter times are for the whole video, so a clip can't be split by them
+  const canSplitByChapters =
+    selectedFormat === 'mp3' && !clip && !isCaptionsOnly && !!chapters?.length;
+  const willSplit = canSplitByChapters && splitByChapters;
+  const scheduleOptions = quietHours?.enabled
+    ? [...Object.keys(SCHEDULE_DELAYS), QUIET_HOURS_OPTION]
+    : Object.keys(SCHEDULE_DELAYS);
+  const isScheduled = scheduleOption !== 'Now';
+
   const panResponder = useMemo(
     () =>
       PanResponder.create({
@@ -328,7 +535,23 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
     [translateY, expansionY, backdropOpacity, dragHandleScale, onClose, COLLAPSED_OFFSET, INITIAL_DRAWER_HEIGHT, MAX_DRAWER_HEIGHT],
   );
 
-  const handleDownload = useCallback(async (skipLocationCheck = false) => {
+  // Exact size of the file a choice would produce, when YouTube reports it
+  const sizeOf = useCallback(
+    (format: VideoFormat, quality: VideoQuality) =>
+      streamFormats?.length
+        ? downloadSizeFor(streamFormats, format, quality, {
+          bitRate: selectedBitrate,
+          clip,
+          duration: video?.duration,
+        })
+        : undefined,
+    [streamFormats, selectedBitrate, clip, video?.duration],
+  );
+
+  const handleDownload = useCallback(async (
+    skipLocationCheck = false,
+    allowDuplicate = false,
+  ) => {
     if (!video) return;
 
     if (!skipLocationCheck && !isLocationSet) {
@@ -336,6 +559,14 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
       return;
     }
 
+    if (subtitleMode !== 'Off' && !selectedLanguage) {
+      showError(
+        'No Captions',
+        'This video has no captions to save. Turn subtitles off to download without them.',
+      );
+      return;
+    }
+
     setIsDownloading(true);
 
     try {
@@ -349,17 +580,68 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
 
       await startDownload(video, selectedFormat, sanitizedQuality, {
         bitRate: selectedFormat === 'mp3' ? selectedBitrate : undefined,
+        clip,
+        subtitles: selectedLanguage && subtitleMode !== 'Off'
+          ? {
+            language: selectedLanguage.code,
+            format: subtitleFormat,
+            allowAutoGenerated: allowAutoCaptions,
+          }
+          : undefined,
+        captionsOnly: isCaptionsOnly,
+        chapters: willSplit && chapters ? chapters : undefined,
+        schedule: scheduleFor(scheduleOption),
+        bandwidthLimitKBps: bandwidthLimitFor(speedLimitOption),
+        qualityMode,
+        allowDuplicate,
+        outputFolder: jobFolder || undefined,
+        expectedBytes: isCaptionsOnly
+          ? undefined
+          : sizeOf(selectedFormat, sanitizedQuality),
       });
 
       onClose();
 
       setTimeout(() => {
         showSuccess(
-          'Download Queued',
-          `${video.title} has been added to the download queue.`,
+          isScheduled ? 'Download Scheduled' : 'Download Queued',
+          isScheduled
+            ? `${video.title} will start ${scheduleOption === QUIET_HOURS_OPTION ? 'in quiet hours' : scheduleOption.toLowerCase()}.`
+            : `${video.title} has been added to the download queue.`,
         );
       }, 300);
     } catch (error) {
+      if (error instanceof DuplicateDownloadError) {
+        const { filePath } = error.existing;
+        showDialog({
+          type: 'warning',
+          title: error.message,
+          message: filePath
+            ? 'Open the saved copy, or download it again?'
+            : 'Download it again anyway?',
+          buttons: [
+            { text: 'Cancel', style: 'cancel', onPress: () => { } },
+            ...(filePath
+              ? [{
+                text: 'Open Existing',
+                style: 'default' as const,
+                onPress: () => {
+                  storageService.markDownloadWatched(error.existing.id);
+                  openFile(filePath).catch(openError =>
+                    console.error('❌ Failed to open existing file:', openError),
+                  );
+                },
+              }]
+              : []),
+            {
+              text: 'Download Again',
+              style: 'default',
+              onPress: () => handleDownload(true, true),
+            },
+          ],
+        });
+        return;
+      }
       console.error('Download error:', error);
       showError(
         'Download Error',
@@ -370,15 +652,30 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
     }
   }, [
     video,
+    clip,
     selectedFormat,
     selectedQuality,
     selectedBitrate,
+    subtitleMode,
+    selectedLanguage,
+    subtitleFormat,
+    allowAutoCaptions,
+    isCaptionsOnly,
+    willSplit,
+    chapters,
+    scheduleOption,
+    isScheduled,
+    speedLimitOption,
+    qualityMode,
+    jobFolder,
+    sizeOf,
     startDownload,
     isLocationSet,
     downloadLocation,
     onClose,
     showSuccess,
     showError,
+    showDialog,
   ]);
 
   const handleClose = useCallback(() => {
@@ -418,6 +715,19 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
     [setDownloadLocation, handleDownload, showError],
   );
 
+  const handleJobFolderSelect = useCallback(
+    async (folder: string) => {
+      setShowJobFolderPicker(false);
+      try {
+        await validateFolder(folder);
+        setJobFolder(folder);
+      } catch (error: any) {
+        showError('Folder Unavailable', error?.message || 'Choose another folder.');
+      }
+    },
+    [showError],
+  );
+
   const formatOptions = useMemo(
     () =>
       showAllFormats
@@ -437,12 +747,54 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
   const isAudioFormat = selectedFormat === 'mp3';
   const shouldShowQualitySelector = !isAudioFormat;
 
+  const unavailableQualities = useMemo(
+    () =>
+      streamFormats?.length
+        ? [...PRIMARY_QUALITIES, ...SECONDARY_QUALITIES].filter(
+          quality => !isQualityAvailable(streamFormats, quality),
+        )
+        : [],
+    [streamFormats],
+  );
+
+  // Step down to the nearest quality the video has, or up if it has none lower
+  useEffect(() => {
+    if (isAudioFormat || !unavailableQualities.includes(selectedQuality)) return;
+    const available = QUALITY_ORDER.filter(
+      quality => !unavailableQualities.includes(quality),
+    );
+    const index = QUALITY_ORDER.indexOf(selectedQuality);
+    const fallback =
+      [...available].reverse().find(q => QUALITY_ORDER.indexOf(q) < index) ||
+      available[0];
+    if (fallback) {
+      lastVideoQualityRef.current = fallback;
+      setSelectedQuality(fallback);
+    }
+  }, [isAudioFormat, unavailableQualities, selectedQuality]);
+
+  const sizeLabels = (sizes: [string, number | undefined][]) =>
+    Object.fromEntries(
+      sizes
+        .filter(([, size]) => size !== undefined)
+        .map(([option, size]) => [option, formatFileSize(size!)]),
+    );
+
+  const formatSizes = sizeLabels(
+    formatOptions.map(format => [format, sizeOf(format, selectedQuality)]),
+  );
+  const qualitySizes = sizeLabels(
+    qualityOptions.map(quality => [quality, sizeOf(selectedFormat, quality)]),
+  );
+
   // <CHANGE> Tab-style button component with better space utilization and tablet support
   const OptionButton: React.FC<{
     label: string;
     isSelected: boolean;
     onPress: () => void;
-  }> = ({ label, isSelected, onPress }) => {
+    detail?: string; // Second line, e.g. the download size
+    disabled?: boolean;
+  }> = ({ label, isSelected, onPress, detail, disabled = false }) => {
     // Calculate dynamic width based on screen size, orientation, and label length
     const baseWidth = isSmallScreen ? 60 : isTablet ? 90 : 70;
     const labelLength = label.length;
@@ -478,8 +830,10 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
             shadowRadius: 4,
             elevation: isSelected ? 2 : 0,
           },
+          disabled && optionButtonStyles.buttonDisabled,
         ]}
         onPress={onPress}
+        disabled={disabled}
         activeOpacity={0.7}
       >
         <Text
@@ -496,6 +850,17 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
         >
           {label}
         </Text>
+        {detail && (
+          <Text
+            style={[
+              optionButtonStyles.detail,
+              isSelected && optionButtonStyles.detailSelected,
+            ]}
+            numberOfLines={1}
+          >
+            {detail}
+          </Text>
+        )}
       </TouchableOpacity>
     );
   };
@@ -510,6 +875,8 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
     expanded: boolean;
     onToggleExpand: () => void;
     allOptions?: string[]; // All available options for count calculation
+    optionDetails?: Record<string, string>;
+    disabledOptions?: string[]; // Shown but can't be picked
   }> = ({
     title,
     options,
@@ -519,6 +886,8 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
     expanded,
     onToggleExpand,
     allOptions,
+    optionDetails,
+    disabledOptions,
   }) => {
     const totalOptions = allOptions || options;
     const hiddenCount = totalOptions.length - options.length;
@@ -572,6 +941,8 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
               label={option === 'audio_only' ? 'Audio Only' : option}
               isSelected={selected === option}
               onPress={() => onSelect(option)}
+              detail={optionDetails?.[option]}
+              disabled={disabledOptions?.includes(option)}
             />
           ))}
         </View>
@@ -589,6 +960,12 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
         onCancel={() => setShowLocationPicker(false)}
       />
 
+      <DownloadLocationPicker
+        visible={showJobFolderPicker}
+        onSelect={handleJobFolderSelect}
+        onCancel={() => setShowJobFolderPicker(false)}
+      />
+
       <Modal
         visible={visible}
         transparent
@@ -697,21 +1074,29 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
                   }]} numberOfLines={1}>
                     {video.channelName}
                   </Text>
+                  {clip && (
+                    <Text style={drawerStyles.clipText} numberOfLines={1}>
+                      Clip {formatClipRange(clip)}
+                    </Text>
+                  )}
                 </View>
               </View>
 
-              <SelectorSection
-                title="Format"
-                options={formatOptions}
-                selected={selectedFormat}
-                onSelect={setSelectedFormat as any}
-                showExpand={SECONDARY_FORMATS.length > 0}
-                expanded={showAllFormats}
-                onToggleExpand={() => setShowAllFormats(!showAllFormats)}
-                allOptions={[...PRIMARY_FORMATS, ...SECONDARY_FORMATS]}
-              />
+              {!isCaptionsOnly && (
+                <SelectorSection
+                  title="Format"
+                  options={formatOptions}
+                  selected={selectedFormat}
+                  onSelect={setSelectedFormat as any}
+                  showExpand={SECONDARY_FORMATS.length > 0}
+                  expanded={showAllFormats}
+                  onToggleExpand={() => setShowAllFormats(!showAllFormats)}
+                  allOptions={[...PRIMARY_FORMATS, ...SECONDARY_FORMATS]}
+                  optionDetails={formatSizes}
+                />
+              )}
 
-              {shouldShowQualitySelector && (
+              {shouldShowQualitySelector && !isCaptionsOnly && (
                 <SelectorSection
                   title="Quality"
                   options={qualityOptions}
@@ -725,6 +1110,26 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
                   expanded={showAllQualities}
                   onToggleExpand={() => setShowAllQualities(!showAllQualities)}
                   allOptions={[...PRIMARY_QUALITIES, ...SECONDARY_QUALITIES]}
+                  optionDetails={qualitySizes}
+                  disabledOptions={unavailableQualities}
+                />
+              )}
+
+              {shouldShowQualitySelector && !isCaptionsOnly && (
+                <SelectorSection
+                  title="Quality Match"
+                  options={Object.values(qualityModeLabels(selectedQuality))}
+                  selected={qualityModeLabels(selectedQuality)[qualityMode]}
+                  onSelect={option =>
+                    setQualityMode(
+                      option === qualityModeLabels(selectedQuality).exact
+                        ? 'exact'
+                        : 'best_up_to',
+                    )
+                  }
+                  showExpand={false}
+                  expanded={false}
+                  onToggleExpand={() => { }}
                 />
               )}
 
@@ -741,6 +1146,125 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
                 />
               )}
 
+              {canSplitByChapters && chapters && (
+                <SelectorSection
+                  title={`Chapters (${chapters.length})`}
+                  options={CHAPTER_MODES}
+                  selected={CHAPTER_MODES[splitByChapters ? 1 : 0]}
+                  onSelect={option =>
+                    setSplitByChapters(option === CHAPTER_MODES[1])
+                  }
+                  showExpand={false}
+                  expanded={false}
+                  onToggleExpand={() => { }}
+                />
+              )}
+
+              <SelectorSection
+                title={
+                  quietHours?.enabled
+                    ? `Start (quiet hours ${formatMinuteOfDay(quietHours.start)}–${formatMinuteOfDay(quietHours.end)})`
+                    : 'Start'
+                }
+                options={scheduleOptions}
+                selected={scheduleOption}
+                onSelect={setScheduleOption}
+                showExpand={false}
+                expanded={false}
+                onToggleExpand={() => { }}
+              />
+
+              <SelectorSection
+                title="Save to"
+                options={[
+                  SAVE_TO_AUTOMATIC,
+                  jobFolder ? formatFolder(jobFolder) : SAVE_TO_OTHER,
+                ]}
+                selected={jobFolder ? formatFolder(jobFolder) : SAVE_TO_AUTOMATIC}
+                onSelect={option => {
+                  if (option === SAVE_TO_AUTOMATIC) {
+                    setJobFolder(null);
+                  } else {
+                    setShowJobFolderPicker(true);
+                  }
+                }}
+                showExpand={false}
+                expanded={false}
+                onToggleExpand={() => { }}
+              />
+
+              <SelectorSection
+                title="Speed limit"
+                options={SPEED_LIMIT_OPTIONS}
+                selected={speedLimitOption}
+                onSelect={setSpeedLimitOption}
+                showExpand={false}
+                expanded={false}
+                onToggleExpand={() => { }}
+              />
+
+              <SelectorSection
+                title="Subtitles"
+                options={SUBTITLE_MODES}
+                selected={subtitleMode}
+                onSelect={mode => setSubtitleMode(mode as SubtitleMode)}
+                showExpand={false}
+                expanded={false}
+                onToggleExpand={() => { }}
+              />
+
+              {subtitleMode !== 'Off' && (
+                <>
+                  {captionTracks === null ? (
+                    <Text style={drawerStyles.subtitleStatusText}>
+                      Loading captions...
+                    </Text>
+                  ) : languageOptions.length === 0 ? (
+                    <Text style={drawerStyles.subtitleStatusText}>
+                      {captionsError ||
+                        (allowAutoCaptions
+                          ? 'No captions available for this video.'
+                          : 'No manual captions. Allow auto-generated ones to see more.')}
+                    </Text>
+                  ) : (
+                    <SelectorSection
+                      title="Subtitle Language"
+                      options={languageOptions.map(o => o.label)}
+                      selected={selectedLanguage?.label || ''}
+                      onSelect={label =>
+                        setSubtitleLanguage(
+                          languageOptions.find(o => o.label === label)?.code ??
+                          null,
+                        )
+                      }
+                      showExpand={false}
+                      expanded={false}
+                      onToggleExpand={() => { }}
+                    />
+                  )}
+                  <SelectorSection
+                    title="Subtitle Format"
+                    options={SUBTITLE_FORMATS}
+                    selected={subtitleFormat.toUpperCase()}
+                    onSelect={option =>
+                      setSubtitleFormat(option.toLowerCase() as SubtitleFormat)
+                    }
+                    showExpand={false}
+                    expanded={false}
+                    onToggleExpand={() => { }}
+                  />
+                  <SelectorSection
+                    title="Auto-generated Captions"
+                    options={AUTO_CAPTION_OPTIONS}
+                    selected={allowAutoCaptions ? 'Allowed' : 'Manual only'}
+                    onSelect={option => setAllowAutoCaptions(option === 'Allowed')}
+                    showExpand={false}
+                    expanded={false}
+                    onToggleExpand={() => { }}
+                  />
+                </>
+              )}
+
               <View style={[drawerStyles.bottomSection, { 
                 marginTop: isSmallScreen ? 16 : isTablet ? 24 : 20,
                 paddingTop: isSmallScreen ? 12 : isTablet ? 20 : 16,
@@ -788,7 +1312,9 @@ const DownloadDrawer: React.FC<DownloadDrawerProps> = ({
                       color: '#FFFFFF',
                       letterSpacing: 0.5,
                     }]}>
-                      {`Download ${selectedFormat.toUpperCase()}${!isAudioFormat && selectedQuality !== 'audio_only' ? ` • ${selectedQuality.toUpperCase()}` : ''}`}
+                      {isCaptionsOnly
+                        ? `${isScheduled ? 'Schedule' : 'Download'} Captions • ${subtitleFormat.toUpperCase()}`
+                        : `${isScheduled ? 'Schedule' : 'Download'} ${selectedFormat.toUpperCase()}${!isAudioFormat && selectedQuality !== 'audio_only' ? ` • ${selectedQuality.toUpperCase()}` : ''}${willSplit && chapters ? ` • ${chapters.length} tracks` : ''}${subtitleMode !== 'Off' ? ' + CC' : ''}`}
                     </Text>
                   </TouchableOpacity>
                 )}
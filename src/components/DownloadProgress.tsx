@@ -1,21 +1,40 @@
-import React, { useEffect, useMemo } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import Animated, { useSharedValue, useAnimatedStyle, withSpring } from 'react-native-reanimated';
 import { useTheme } from '../hooks/useTheme';
+import { formatCountdown, formatProgressDetails } from '../utils/formatters';
+import type { DownloadProgressInfo } from '../types/progress';
 
 interface DownloadProgressProps {
   progress: number; // 0-100
   visible?: boolean;
   showPercentage?: boolean;
+  showEta?: boolean; // Time left, next to the percentage
+  details?: DownloadProgressInfo; // Phase, bytes, speed and ETA when known
 }
 
+// Wait for some history before guessing, or the first jump skews it
+const MIN_ETA_SAMPLE_MS = 3000;
+
 const DownloadProgress: React.FC<DownloadProgressProps> = ({
   progress,
   visible = true,
   showPercentage = false,
+  showEta = false,
+  details,
 }) => {
   const { theme } = useTheme();
   const animatedProgress = useSharedValue(0);
+  // ETA comes from the rate actually observed, so a capped transfer's
+  // estimate follows its capped speed
+  const firstSample = useRef({ at: Date.now(), progress, showEta });
+  if (
+    progress < firstSample.current.progress ||
+    showEta !== firstSample.current.showEta
+  ) {
+    // Restarted (retry, ignored resume) or resumed after a pause
+    firstSample.current = { at: Date.now(), progress, showEta };
+  }
 
   useEffect(() => {
     // Use simpler animation for better performance
@@ -61,6 +80,16 @@ const DownloadProgress: React.FC<DownloadProgressProps> = ({
 
   if (!visible) return null;
 
+  let eta: string | null = null;
+  const elapsed = Date.now() - firstSample.current.at;
+  const gained = progress - firstSample.current.progress;
+  if (details && (details.phase !== 'transferring' || details.bytesReceived !== undefined)) {
+    // The download reports its own bytes and speed; prefer those to a guess
+    eta = formatProgressDetails(details);
+  } else if (showEta && progress < 100 && gained > 0 && elapsed >= MIN_ETA_SAMPLE_MS) {
+    eta = `${formatCountdown(((100 - progress) / gained) * elapsed)} left`;
+  }
+
   return (
     <View style={styles.container}>
       <View style={styles.progressContainer}>
@@ -71,7 +100,11 @@ const DownloadProgress: React.FC<DownloadProgressProps> = ({
           ]}
         />
       </View>
-      {showPercentage && <Text style={styles.progressText}>{Math.round(progress)}%</Text>}
+      {showPercentage && (
+        <Text style={styles.progressText}>
+          {Math.round(progress)}%{eta ? ` • ${eta}` : ''}
+        </Text>
+      )}
     </View>
   );
 };
@@ -82,6 +115,8 @@ export default React.memo(DownloadProgress, (prev, next) => {
   return (
     prevRounded === nextRounded &&
     prev.visible === next.visible &&
-    prev.showPercentage === next.showPercentage
+    prev.showPercentage === next.showPercentage &&
+    prev.showEta === next.showEta &&
+    prev.details === next.details
   );
 });
\ No newline at end of file
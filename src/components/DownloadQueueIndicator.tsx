@@ -2,7 +2,9 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { useTheme } from '../hooks/useTheme';
 import { useDownloads } from '../hooks/useDownloads';
+import { useDownloadQueue } from '../hooks/useDownloadQueue';
 import LoadingAnimation from './LoadingAnimation';
+import { formatEta, formatFileSize } from '../utils/formatters';
 
 interface DownloadQueueIndicatorProps {
   onPress?: () => void;
@@ -11,10 +13,7 @@ interface DownloadQueueIndicatorProps {
 const DownloadQueueIndicator: React.FC<DownloadQueueIndicatorProps> = ({ onPress }) => {
   const { theme } = useTheme();
   const { downloads } = useDownloads();
-
-  const activeDownloads = downloads.filter(
-    download => download.status === 'downloading' || download.status === 'pending'
-  );
+  const { activeDownloads, queuedDownloads, maxConcurrent } = useDownloadQueue();
 
   const completedDownloads = downloads.filter(
     download => download.status === 'completed'
@@ -28,6 +27,22 @@ const DownloadQueueIndicator: React.FC<DownloadQueueIndicatorProps> = ({ onPress
     return null;
   }
 
+  // Combined speed of the running transfers, and when the last one finishes
+  const transferring = activeDownloads
+    .map(job => job.progressInfo)
+    .filter(info => info?.phase === 'transferring');
+  const totalSpeed = transferring.reduce(
+    (sum, info) => sum + (info?.smoothedSpeed ?? 0),
+    0,
+  );
+  const longestEta = Math.max(0, ...transferring.map(info => info?.eta ?? 0));
+  const transferSummary = [
+    totalSpeed >= 1 ? `${formatFileSize(totalSpeed)}/s` : '',
+    longestEta > 0 ? `${formatEta(longestEta)} left` : '',
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
   const styles = StyleSheet.create({
     container: {
       backgroundColor: theme.colors.surface,
@@ -87,19 +102,25 @@ const DownloadQueueIndicator: React.FC<DownloadQueueIndicatorProps> = ({ onPress
       <View style={styles.textContainer}>
         <Text style={styles.mainText}>
           {activeDownloads.length > 0 
-            ? `${activeDownloads.length} downloading...`
+            ? `${activeDownloads.length} of ${maxConcurrent} slots downloading...`
             : 'Downloads'
           }
         </Text>
         <Text style={styles.subText}>
+          {queuedDownloads.length > 0 && `${queuedDownloads.length} queued • `}
           {completedDownloads.length} completed
           {failedDownloads.length > 0 && ` • ${failedDownloads.length} failed`}
         </Text>
+        {transferSummary !== '' && (
+          <Text style={styles.subText}>{transferSummary}</Text>
+        )}
       </View>
 
-      {activeDownloads.length > 0 && (
+      {activeDownloads.length + queuedDownloads.length > 0 && (
         <View style={styles.badge}>
-          <Text style={styles.badgeText}>{activeDownloads.length}</Text>
+          <Text style={styles.badgeText}>
+            {activeDownloads.length + queuedDownloads.length}
+          </Text>
         </View>
       )}
     </TouchableOpacity>
@@ -9,9 +9,13 @@ import {
   Alert,
   RefreshControl,
 } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
 import { useDownloadManager } from '../hooks/useDownloadManager';
 import { useTheme } from '../hooks/useTheme';
 import { DownloadedVideo } from '../services/storageService';
+import { ScreenNames } from '../constants/ScreenNames';
+import { PLAYABLE_FORMATS, type PlayerParams } from '../types/player';
+import { openFile } from '../utils/openFile';
 
 interface DownloadedVideosListProps {
   onVideoPress?: (video: DownloadedVideo) => void;
@@ -21,6 +25,7 @@ export const DownloadedVideosList: React.FC<DownloadedVideosListProps> = ({
   onVideoPress,
 }) => {
   const { theme } = useTheme();
+  const navigation = useNavigation<any>();
   const { downloadedVideos, loadingVideos, refreshDownloadList, removeDownloadedVideo } =
     useDownloadManager();
 
@@ -46,6 +51,33 @@ export const DownloadedVideosList: React.FC<DownloadedVideosListProps> = ({
     );
   };
 
+  // Play in the app; other files (captions) open in another app
+  const handleVideoPress = (video: DownloadedVideo) => {
+    if (onVideoPress) {
+      onVideoPress(video);
+    } else if (PLAYABLE_FORMATS.includes(video.format)) {
+      const params: PlayerParams = {
+        id: video.id,
+        title: video.title,
+        filePath: video.filePath,
+        format: video.format,
+        thumbnailUrl: video.thumbnailUrl,
+      };
+      navigation.navigate(ScreenNames.Player, params);
+    } else {
+      handleOpenExternal(video);
+    }
+  };
+
+  const handleOpenExternal = async (video: DownloadedVideo) => {
+    try {
+      await openFile(video.filePath, { displayName: video.title });
+    } catch (error) {
+      console.error('❌ Failed to open file externally:', error);
+      Alert.alert('Error', 'No other app on this device could open this file');
+    }
+  };
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString('en-US', {
@@ -62,7 +94,7 @@ export const DownloadedVideosList: React.FC<DownloadedVideosListProps> = ({
   const renderVideoItem = ({ item }: { item: DownloadedVideo }) => (
     <TouchableOpacity
       style={styles.videoCard}
-      onPress={() => onVideoPress?.(item)}
+      onPress={() => handleVideoPress(item)}
       activeOpacity={0.7}
     >
       <View style={styles.videoContent}>
@@ -77,6 +109,13 @@ export const DownloadedVideosList: React.FC<DownloadedVideosListProps> = ({
             📁 {item.filePath}
           </Text>
         </View>
+        <TouchableOpacity
+          style={styles.openButton}
+          onPress={() => handleOpenExternal(item)}
+          accessibilityLabel="Open in another app"
+        >
+          <Text style={styles.openButtonText}>↗</Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.removeButton}
           onPress={() => handleRemoveVideo(item)}
@@ -167,6 +206,20 @@ const getStyles = (theme: any) => StyleSheet.create({
     color: theme.colors.textSecondary,
     fontFamily: 'monospace',
   },
+  openButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: theme.colors.secondary + '20',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  openButtonText: {
+    fontSize: 16,
+    color: theme.colors.secondary,
+    fontWeight: 'bold',
+  },
   removeButton: {
     width: 32,
     height: 32,
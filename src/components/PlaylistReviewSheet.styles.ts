@@ -0,0 +1,188 @@
+import { StyleSheet, Dimensions } from 'react-native';
+import { Theme } from '../types/theme';
+import { moderateScale as ms, scale, verticalScale as vs } from '../utils/responsive';
+
+const SHEET_HEIGHT = Dimensions.get('window').height * 0.85;
+
+export const getPlaylistReviewStyles = (theme: Theme) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    sheet: {
+      height: SHEET_HEIGHT,
+      backgroundColor: theme.colors.surface,
+      borderTopLeftRadius: ms(20),
+      borderTopRightRadius: ms(20),
+      overflow: 'hidden',
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: scale(16),
+      paddingVertical: vs(14),
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    headerText: {
+      flex: 1,
+    },
+    title: {
+      fontSize: ms(17),
+      fontWeight: '700',
+      color: theme.colors.text,
+    },
+    subtitle: {
+      fontSize: ms(13),
+      color: theme.colors.textSecondary,
+      marginTop: vs(2),
+    },
+    closeButton: {
+      padding: scale(8),
+    },
+    closeButtonText: {
+      fontSize: ms(18),
+      color: theme.colors.textSecondary,
+    },
+    centerState: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingHorizontal: scale(32),
+      gap: vs(12),
+    },
+    stateText: {
+      fontSize: ms(14),
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+    },
+    errorText: {
+      fontSize: ms(14),
+      color: theme.colors.error,
+      textAlign: 'center',
+    },
+    retryButton: {
+      paddingHorizontal: scale(20),
+      paddingVertical: vs(8),
+      borderRadius: ms(8),
+      borderWidth: 1,
+      borderColor: theme.colors.primary,
+    },
+    retryButtonText: {
+      fontSize: ms(14),
+      fontWeight: '600',
+      color: theme.colors.primary,
+    },
+    selectionBar: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingHorizontal: scale(16),
+      paddingVertical: vs(10),
+    },
+    selectionText: {
+      fontSize: ms(13),
+      color: theme.colors.textSecondary,
+    },
+    selectionToggle: {
+      fontSize: ms(13),
+      fontWeight: '600',
+      color: theme.colors.accent,
+    },
+    item: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: scale(16),
+      paddingVertical: vs(8),
+      gap: scale(12),
+    },
+    checkbox: {
+      width: ms(20),
+      height: ms(20),
+      borderRadius: ms(4),
+      borderWidth: 2,
+      borderColor: theme.colors.textSecondary,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    checkboxChecked: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+    },
+    checkmark: {
+      color: '#FFFFFF',
+      fontSize: ms(12),
+      fontWeight: '700',
+    },
+    thumbnail: {
+      width: scale(80),
+      height: scale(45),
+      borderRadius: ms(6),
+      backgroundColor: theme.colors.border,
+    },
+    itemInfo: {
+      flex: 1,
+    },
+    itemTitle: {
+      fontSize: ms(14),
+      color: theme.colors.text,
+    },
+    itemMeta: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+      marginTop: vs(2),
+    },
+    footer: {
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.border,
+      paddingHorizontal: scale(16),
+      paddingTop: vs(12),
+      gap: vs(10),
+    },
+    optionLabel: {
+      fontSize: ms(13),
+      fontWeight: '600',
+      color: theme.colors.textSecondary,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: scale(8),
+    },
+    optionChip: {
+      paddingHorizontal: scale(14),
+      paddingVertical: vs(6),
+      borderRadius: ms(16),
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    optionChipSelected: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+    },
+    optionChipText: {
+      fontSize: ms(13),
+      color: theme.colors.text,
+    },
+    optionChipTextSelected: {
+      color: '#FFFFFF',
+      fontWeight: '600',
+    },
+    downloadButton: {
+      backgroundColor: theme.colors.primary,
+      borderRadius: ms(10),
+      paddingVertical: vs(14),
+      alignItems: 'center',
+      marginTop: vs(4),
+    },
+    downloadButtonDisabled: {
+      opacity: 0.5,
+    },
+    downloadButtonText: {
+      color: '#FFFFFF',
+      fontSize: ms(15),
+      fontWeight: '700',
+    },
+  });
@@ -0,0 +1,372 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  Image,
+  FlatList,
+  ActivityIndicator,
+  ListRenderItem,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Video, VideoFormat, VideoQuality } from '../types/video';
+import { useTheme } from '../hooks/useTheme';
+import { useDownloads } from '../hooks/useDownloads';
+import { useDialog } from '../hooks/useDialog';
+import { useSettings } from '../contexts/SettingsContext';
+import { apiClient } from '../services/apiClient';
+import DownloadLocationPicker from './DownloadLocationPicker';
+import { getPlaylistReviewStyles } from './PlaylistReviewSheet.styles';
+
+interface PlaylistReviewSheetProps {
+  visible: boolean;
+  playlistId: string | null;
+  onClose: () => void;
+}
+
+const FORMATS: VideoFormat[] = ['mp4', 'mp3', 'webm'];
+const QUALITIES: VideoQuality[] = ['360p', '480p', '720p', '1080p'];
+const BITRATE_OPTIONS = ['128k', '192k', '256k', '320k'];
+
+const PlaylistReviewSheet: React.FC<PlaylistReviewSheetProps> = ({
+  visible,
+  playlistId,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { startBatchDownload } = useDownloads();
+  const { showSuccess, showError } = useDialog();
+  const { downloadLocation, setDownloadLocation, isLocationSet } =
+    useSettings();
+  const insets = useSafeAreaInsets();
+
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [playlistTitle, setPlaylistTitle] = useState<string | undefined>();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [loadedCount, setLoadedCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedFormat, setSelectedFormat] = useState<VideoFormat>('mp4');
+  const [selectedQuality, setSelectedQuality] = useState<VideoQuality>('720p');
+  const [selectedBitrate, setSelectedBitrate] = useState('320k');
+  const [showLocationPicker, setShowLocationPicker] = useState(false);
+
+  const styles = useMemo(() => getPlaylistReviewStyles(theme), [theme]);
+
+  const loadPlaylist = useCallback(async (id: string) => {
+    setLoading(true);
+    setError(null);
+    setLoadedCount(0);
+    setVideos([]);
+    setPlaylistTitle(undefined);
+    try {
+      const playlist = await apiClient.getPlaylistVideos(id, setLoadedCount);
+      setVideos(playlist.videos);
+      setPlaylistTitle(playlist.title);
+      // Everything is selected by default; the user unticks what to skip
+      setSelectedIds(new Set(playlist.videos.map(v => v.id)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load playlist');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible && playlistId) {
+      loadPlaylist(playlistId);
+    }
+  }, [visible, playlistId, loadPlaylist]);
+
+  const toggleVideo = useCallback((id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const allSelected = videos.length > 0 && selectedIds.size === videos.length;
+
+  const toggleAll = useCallback(() => {
+    setSelectedIds(
+      allSelected ? new Set() : new Set(videos.map(v => v.id)),
+    );
+  }, [allSelected, videos]);
+
+  const handleDownload = useCallback(
+    async (skipLocationCheck = false) => {
+      const selected = videos.filter(v => selectedIds.has(v.id));
+      if (selected.length === 0) return;
+
+      if (!skipLocationCheck && !isLocationSet) {
+        setShowLocationPicker(true);
+        return;
+      }
+
+      try {
+        const { downloadService } = await import('../services/downloadService');
+        downloadService.setDownloadPath(downloadLocation);
+
+        const sanitizedQuality =
+          selectedFormat === 'mp3'
+            ? ('audio_only' as VideoQuality)
+            : selectedQuality;
+
+        const queuedIds = await startBatchDownload(
+          selected,
+          selectedFormat,
+          sanitizedQuality,
+          { bitRate: selectedFormat === 'mp3' ? selectedBitrate : undefined },
+        );
+        const skipped = selected.length - queuedIds.length;
+
+        onClose();
+
+        setTimeout(() => {
+          showSuccess(
+            'Playlist Queued',
+            `${queuedIds.length} videos have been added to the download queue.` +
+              (skipped > 0
+                ? ` ${skipped} already downloaded or queued were skipped.`
+                : ''),
+          );
+        }, 300);
+      } catch (err) {
+        console.error('Playlist download error:', err);
+        showError('Download Failed', 'Could not queue the playlist.');
+      }
+    },
+    [
+      videos,
+      selectedIds,
+      isLocationSet,
+      downloadLocation,
+      selectedFormat,
+      selectedQuality,
+      selectedBitrate,
+      startBatchDownload,
+      onClose,
+      showSuccess,
+      showError,
+    ],
+  );
+
+  const handleLocationSelect = useCallback(
+    async (path: string) => {
+      try {
+        await setDownloadLocation(path);
+        setShowLocationPicker(false);
+        setTimeout(() => {
+          handleDownload(true);
+        }, 300);
+      } catch (err) {
+        console.error('Error setting location:', err);
+        showError('Error', 'Failed to set download location');
+        setShowLocationPicker(false);
+      }
+    },
+    [setDownloadLocation, handleDownload, showError],
+  );
+
+  const renderItem: ListRenderItem<Video> = useCallback(
+    ({ item, index }) => {
+      const checked = selectedIds.has(item.id);
+      return (
+        <TouchableOpacity
+          style={styles.item}
+          onPress={() => toggleVideo(item.id)}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.checkbox, checked && styles.checkboxChecked]}>
+            {checked && <Text style={styles.checkmark}>✓</Text>}
+          </View>
+          {item.thumbnailUrl ? (
+            <Image
+              source={{ uri: item.thumbnailUrl }}
+              style={styles.thumbnail}
+              resizeMode="cover"
+            />
+          ) : (
+            <View style={styles.thumbnail} />
+          )}
+          <View style={styles.itemInfo}>
+            <Text style={styles.itemTitle} numberOfLines={2}>
+              {item.title}
+            </Text>
+            <Text style={styles.itemMeta} numberOfLines={1}>
+              {index + 1}. {item.channelName}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      );
+    },
+    [selectedIds, styles, toggleVideo],
+  );
+
+  const renderChips = <T extends string>(
+    options: T[],
+    selected: T,
+    onSelect: (value: T) => void,
+    label: (value: T) => string = value => value,
+  ) => (
+    <View style={styles.optionRow}>
+      {options.map(option => {
+        const isSelected = option === selected;
+        return (
+          <TouchableOpacity
+            key={option}
+            style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+            onPress={() => onSelect(option)}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[
+                styles.optionChipText,
+                isSelected && styles.optionChipTextSelected,
+              ]}
+            >
+              {label(option)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <View style={styles.centerState}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+          <Text style={styles.stateText}>
+            {loadedCount > 0
+              ? `Loaded ${loadedCount} videos...`
+              : 'Loading playlist...'}
+          </Text>
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.centerState}>
+          <Text style={styles.errorText}>{error}</Text>
+          {playlistId && (
+            <TouchableOpacity
+              style={styles.retryButton}
+              onPress={() => loadPlaylist(playlistId)}
+            >
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    if (videos.length === 0) {
+      return (
+        <View style={styles.centerState}>
+          <Text style={styles.stateText}>
+            This playlist has no downloadable videos.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.selectionBar}>
+          <Text style={styles.selectionText}>
+            {selectedIds.size} of {videos.length} selected
+          </Text>
+          <TouchableOpacity onPress={toggleAll}>
+            <Text style={styles.selectionToggle}>
+              {allSelected ? 'Select None' : 'Select All'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <FlatList
+          data={videos}
+          renderItem={renderItem}
+          keyExtractor={item => item.id}
+          extraData={selectedIds}
+          initialNumToRender={15}
+          windowSize={7}
+        />
+        <View
+          style={[styles.footer, { paddingBottom: Math.max(insets.bottom, 12) }]}
+        >
+          <Text style={styles.optionLabel}>Format</Text>
+          {renderChips(FORMATS, selectedFormat, setSelectedFormat, f =>
+            f.toUpperCase(),
+          )}
+          <Text style={styles.optionLabel}>
+            {selectedFormat === 'mp3' ? 'Bitrate' : 'Quality'}
+          </Text>
+          {selectedFormat === 'mp3'
+            ? renderChips(BITRATE_OPTIONS, selectedBitrate, setSelectedBitrate)
+            : renderChips(QUALITIES, selectedQuality, setSelectedQuality)}
+          <TouchableOpacity
+            style={[
+              styles.downloadButton,
+              selectedIds.size === 0 && styles.downloadButtonDisabled,
+            ]}
+            onPress={() => handleDownload()}
+            disabled={selectedIds.size === 0}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.downloadButtonText}>
+              Download {selectedIds.size}{' '}
+              {selectedIds.size === 1 ? 'Video' : 'Videos'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <>
+      <DownloadLocationPicker
+        visible={showLocationPicker}
+        onSelect={handleLocationSelect}
+        onCancel={() => setShowLocationPicker(false)}
+      />
+
+      <Modal
+        visible={visible}
+        transparent
+        animationType="slide"
+        onRequestClose={onClose}
+        statusBarTranslucent
+      >
+        <View style={styles.overlay}>
+          <View style={styles.sheet}>
+            <View style={styles.header}>
+              <View style={styles.headerText}>
+                <Text style={styles.title} numberOfLines={1}>
+                  {playlistTitle || 'Playlist'}
+                </Text>
+                {!loading && videos.length > 0 && (
+                  <Text style={styles.subtitle}>{videos.length} videos</Text>
+                )}
+              </View>
+              <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                <Text style={styles.closeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            {renderBody()}
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+};
+
+export default PlaylistReviewSheet;
@@ -10,6 +10,7 @@ import {
 } from 'react-native';
 import { Swipeable } from 'react-native-gesture-handler';
 import { Download, DownloadStatus } from '../types/video';
+import { formatClipRange } from '../utils/formatters';
 import DownloadProgress from './DownloadProgress';
 import RNFS from 'react-native-fs';
 
@@ -19,6 +20,9 @@ const DELETE_THRESHOLD = SCREEN_WIDTH * 0.3;
 interface SwipeableDownloadItemProps {
   item: Download;
   onCancel: (id: string) => void;
+  onPause?: (id: string) => void;
+  onResume?: (id: string) => void;
+  onStartNow?: (id: string) => void; // Scheduled items
   onDelete: (id: string) => void;
   onMenuPress?: (item: Download, position: { x: number; y: number }) => void;
   onPress?: (item: Download) => void;
@@ -32,6 +36,9 @@ interface SwipeableDownloadItemProps {
 const SwipeableDownloadItem: React.FC<SwipeableDownloadItemProps> = ({
   item,
   onCancel,
+  onPause,
+  onResume,
+  onStartNow,
   onDelete,
   onMenuPress,
   onPress,
@@ -58,7 +65,10 @@ const SwipeableDownloadItem: React.FC<SwipeableDownloadItemProps> = ({
 
         const mb = bytes / 1024 / 1024;
         let speed: number | null = null;
-        if (item.startedAt && item.completedAt) {
+        if (item.progressInfo?.averageSpeed) {
+          // Measured over the transfer alone, without server processing time
+          speed = item.progressInfo.averageSpeed / 1024 / 1024;
+        } else if (item.startedAt && item.completedAt) {
           const durSec =
             (item.completedAt.getTime() - item.startedAt.getTime()) / 1000;
           if (durSec > 0.5) {
@@ -81,7 +91,13 @@ const SwipeableDownloadItem: React.FC<SwipeableDownloadItemProps> = ({
     return () => {
       cancelled = true;
     };
-  }, [item.status, item.filePath, item.startedAt, item.completedAt]);
+  }, [
+    item.status,
+    item.filePath,
+    item.startedAt,
+    item.completedAt,
+    item.progressInfo?.averageSpeed,
+  ]);
 
   const handlePressIn = () => {
     Animated.spring(scaleValue, {
@@ -204,7 +220,16 @@ const SwipeableDownloadItem: React.FC<SwipeableDownloadItemProps> = ({
                   style={[s.metaText, { color: theme.colors.textSecondary }]}
                 >
                   {item.format.toUpperCase()} •{' '}
-                  {item.quality === 'audio_only' ? 'Audio' : item.quality}
+                  {item.quality === 'audio_only'
+                    ? 'Audio'
+                    : item.deliveredQuality &&
+                      item.deliveredQuality !== item.quality
+                      ? `${item.deliveredQuality} (asked ${item.quality})`
+                      : item.quality}
+                  {item.clip ? ` • Clip ${formatClipRange(item.clip)}` : ''}
+                  {item.chapter
+                    ? ` • Track ${item.chapter.index}/${item.chapter.count}`
+                    : ''}
                 </Text>
               </View>
 
@@ -265,18 +290,72 @@ const SwipeableDownloadItem: React.FC<SwipeableDownloadItemProps> = ({
             </TouchableOpacity>
           </View>
 
-          {item.status === 'downloading' && (
+          {(item.status === 'downloading' ||
+            item.status === 'paused' ||
+            item.status === 'waiting_for_network') && (
             <View style={s.progressSection}>
               <DownloadProgress
                 progress={item.progress}
                 visible={true}
                 showPercentage={true}
+                showEta={item.status === 'downloading'}
+                details={
+                  item.status === 'downloading' ? item.progressInfo : undefined
+                }
               />
             </View>
           )}
 
-          {(item.status === 'downloading' || item.status === 'pending') && (
+          {(item.status === 'downloading' ||
+            item.status === 'pending' ||
+            item.status === 'scheduled' ||
+            item.status === 'paused' ||
+            item.status === 'waiting_for_network') && (
             <View style={s.actionRow}>
+              {item.status === 'paused'
+                ? onResume && (
+                  <TouchableOpacity
+                    style={[s.cancelButton, { borderColor: theme.colors.accent }]}
+                    onPress={() => onResume(item.id)}
+                  >
+                    <Text
+                      style={[s.cancelButtonText, { color: theme.colors.accent }]}
+                    >
+                      Resume
+                    </Text>
+                  </TouchableOpacity>
+                )
+                : item.status === 'scheduled'
+                ? onStartNow && (
+                  <TouchableOpacity
+                    style={[s.cancelButton, { borderColor: theme.colors.accent }]}
+                    onPress={() => onStartNow(item.id)}
+                  >
+                    <Text
+                      style={[s.cancelButtonText, { color: theme.colors.accent }]}
+                    >
+                      Start now
+                    </Text>
+                  </TouchableOpacity>
+                )
+                : onPause && (
+                  <TouchableOpacity
+                    style={[
+                      s.cancelButton,
+                      { borderColor: theme.colors.textSecondary },
+                    ]}
+                    onPress={() => onPause(item.id)}
+                  >
+                    <Text
+                      style={[
+                        s.cancelButtonText,
+                        { color: theme.colors.textSecondary },
+                      ]}
+                    >
+                      Pause
+                    </Text>
+                  </TouchableOpacity>
+                )}
               <TouchableOpacity
                 style={[s.cancelButton, { borderColor: theme.colors.error }]}
                 onPress={() => onCancel(item.id)}
@@ -303,7 +382,20 @@ const SwipeableDownloadItem: React.FC<SwipeableDownloadItemProps> = ({
             </View>
           )}
 
-          {item.status === 'completed' && item.filePath && (
+          {item.status === 'completed' && item.fileMissing && (
+            <View
+              style={[
+                s.messageContainer,
+                { backgroundColor: theme.colors.error + '15' },
+              ]}
+            >
+              <Text style={[s.messageText, { color: theme.colors.error }]}>
+                ⚠ File moved or deleted
+              </Text>
+            </View>
+          )}
+
+          {item.status === 'completed' && item.filePath && !item.fileMissing && (
             <View
               style={[
                 s.messageContainer,
@@ -364,6 +456,7 @@ export default React.memo(SwipeableDownloadItem, (prev, next) => {
     prev.item.status === next.item.status &&
     prevP === nextP &&
     prev.item.filePath === next.item.filePath &&
+    prev.item.fileMissing === next.item.fileMissing &&
     prev.item.error === next.item.error &&
     prev.statusColor === next.statusColor &&
     prev.statusText === next.statusText
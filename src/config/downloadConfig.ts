@@ -16,6 +16,11 @@ export interface DownloadConfig {
   enableMethodSwitchLogs: boolean;
 }
 
+// Concurrent download slots in ClientDownloadQueue (user setting)
+export const MIN_CONCURRENT_DOWNLOADS = 1;
+export const MAX_CONCURRENT_DOWNLOADS = 5;
+export const DEFAULT_CONCURRENT_DOWNLOADS = 2;
+
 // Default configuration - change this to switch methods globally
 export const downloadConfig: DownloadConfig = {
   // 🔧 TOGGLE THIS TO SWITCH METHODS:
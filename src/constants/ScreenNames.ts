@@ -6,6 +6,9 @@ export enum ScreenNames {
   Browse = 'Browse',
   Downloads = 'Downloads',
   Settings = 'Settings',
+  Subscriptions = 'Subscriptions',
+  Storage = 'Storage',
+  Player = 'Player',
   VideoViewer = 'VideoViewer',
   Splash = 'Splash',
 }
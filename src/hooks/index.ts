@@ -5,3 +5,5 @@
 
 export { useDownloadManager } from './useDownloadManager';
 export { useDownloadQueue } from './useDownloadQueue';
+export { useDownloadHistory } from './useDownloadHistory';
+export { useSubscriptions } from './useSubscriptions';
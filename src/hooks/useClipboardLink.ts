@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import Clipboard from '@react-native-clipboard/clipboard';
+import { apiClient } from '../services/apiClient';
+import { storageService } from '../services/storageService';
+import { parseYouTubeUrl } from '../utils/youtubeUrl';
+import type { Video } from '../types/video';
+
+// Enough to show and download the video when its details can't be fetched
+const placeholderVideo = (videoId: string, link: string): Video => ({
+  id: videoId,
+  title: link,
+  thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/mqdefault.jpg`,
+  duration: 0,
+  channelName: '',
+  channelId: '',
+  publishedAt: new Date().toISOString(),
+});
+
+/**
+ * Offers the YouTube video whose link is on the clipboard, checked whenever
+ * the app comes to the foreground. Links are parsed the same way as the
+ * Browse URL field. Each video is offered once: `dismiss` remembers it, and
+ * should also be called once the offer has been acted on.
+ */
+export const useClipboardLink = () => {
+  const [video, setVideo] = useState<Video | null>(null);
+  const offeredId = useRef<string | null>(null);
+  const checking = useRef(false);
+
+  const checkClipboard = useCallback(async () => {
+    if (checking.current) return;
+    checking.current = true;
+    try {
+      const text = (await Clipboard.getString()).trim();
+      const videoId = text ? parseYouTubeUrl(text)?.videoId : null;
+      if (!videoId || videoId === offeredId.current) return;
+
+      const dismissed = await storageService.getDismissedClipboardLinks();
+      if (dismissed.includes(videoId)) return;
+
+      offeredId.current = videoId;
+      const details = await apiClient
+        .getVideoDetails(videoId)
+        .catch(() => null);
+      setVideo(details || placeholderVideo(videoId, text));
+    } catch (error) {
+      console.warn('⚠️ [CLIPBOARD] Could not read the clipboard', error);
+    } finally {
+      checking.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    checkClipboard();
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') checkClipboard();
+    });
+    return () => subscription.remove();
+  }, [checkClipboard]);
+
+  const dismiss = useCallback(() => {
+    if (offeredId.current) {
+      storageService.addDismissedClipboardLink(offeredId.current);
+    }
+    offeredId.current = null;
+    setVideo(null);
+  }, []);
+
+  return { video, dismiss };
+};
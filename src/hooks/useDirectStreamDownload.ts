@@ -3,6 +3,11 @@ import ReactNativeBlobUtil from 'react-native-blob-util';
 import { Platform, Alert } from 'react-native';
 import { storageService, DownloadedVideo } from '../services/storageService';
 import { SSE_BASE_URL } from '../config/env';
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  renderFilenameTemplate,
+  resolveSaveTarget,
+} from '../services/download/filename';
 
 interface DirectDownloadOptions {
   videoId: string;
@@ -16,14 +21,6 @@ interface DirectDownloadOptions {
 }
 
 export const useDirectStreamDownload = () => {
-  const sanitizeFileName = useCallback((name: string): string => {
-    const cleaned = (name || '')
-      .replace(/[\\/:*?"<>|]/g, '')
-      .replace(/\s+/g, ' ')
-      .trim();
-    return cleaned.substring(0, 150) || 'download';
-  }, []);
-
   const downloadVideo = useCallback(async (options: DirectDownloadOptions): Promise<string> => {
     const {
       videoId,
@@ -61,13 +58,6 @@ export const useDirectStreamDownload = () => {
         ? fs.dirs.DocumentDir 
         : fs.dirs.DownloadDir;
 
-      // Create sanitized filename
-      const sanitizedTitle = sanitizeFileName(videoTitle || videoId);
-      const filename = `${sanitizedTitle}.${format}`;
-      const filePath = `${DownloadDir}/YTDownloader/${filename}`;
-
-      console.log('📂 Download path:', filePath);
-
       // Ensure download directory exists
       const downloadDir = `${DownloadDir}/YTDownloader`;
       try {
@@ -76,6 +66,29 @@ export const useDirectStreamDownload = () => {
         // Directory might already exist
       }
 
+      // Filename from the user's template and collision policy
+      const { template, collisionPolicy } =
+        (await storageService.getFilenameTemplate()) ||
+        DEFAULT_FILENAME_TEMPLATE;
+      const sanitizedTitle = renderFilenameTemplate(template, {
+        title: videoTitle,
+        videoId,
+        quality: format === 'mp3' ? bitRate : quality,
+      });
+      const target = await resolveSaveTarget(
+        downloadDir,
+        `${sanitizedTitle}.${format}`,
+        collisionPolicy,
+      );
+      const filename = target.filename;
+      if (target.existingPath) {
+        onComplete?.(target.existingPath, filename);
+        return target.existingPath;
+      }
+      const filePath = `${downloadDir}/${filename}`;
+
+      console.log('📂 Download path:', filePath);
+
       // Configure download
       const downloadConfig: any = {
         fileCache: true,
@@ -113,7 +126,7 @@ export const useDirectStreamDownload = () => {
       });
 
       // Wait for completion
-      const res = await task;
+      const res = await task.finally(target.release);
       const savedPath = res.path();
 
       console.log('✅ Download completed!');
@@ -158,7 +171,7 @@ export const useDirectStreamDownload = () => {
       onError?.(errorMessage);
       throw error;
     }
-  }, [sanitizeFileName]);
+  }, []);
 
   return { downloadVideo };
 };
\ No newline at end of file
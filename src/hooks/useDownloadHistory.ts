@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  storageService,
+  type DownloadedVideo,
+} from '../services/storageService';
+import type { HistoryQuery } from '../services/historyStore';
+import type { Download, DownloadStatus, VideoQuality } from '../types/video';
+
+const PAGE_SIZE = 50;
+
+export type HistoryFilters = Omit<HistoryQuery, 'offset' | 'limit'>;
+
+// Persisted history entries only keep what's needed to list them
+export const mapHistoryToDownload = (entry: DownloadedVideo): Download => ({
+  id: entry.id,
+  video: {
+    id: entry.videoId,
+    title: entry.title,
+    thumbnailUrl: entry.thumbnailUrl || '',
+    channelName: entry.channelName || '',
+    channelId: '',
+    duration: 0,
+    publishedAt: '',
+  },
+  format: entry.format,
+  // Default quality for downloads saved before qualities were recorded
+  quality: (entry.quality || '720p') as VideoQuality,
+  deliveredQuality: entry.deliveredQuality as VideoQuality | undefined,
+  status: 'completed' as DownloadStatus,
+  progress: 100,
+  filePath: entry.filePath,
+  fileSize: entry.fileSize,
+  fileMissing: entry.missing,
+  chapter: entry.chapter,
+  createdAt: new Date(entry.downloadedAt),
+});
+
+/**
+ * Paged view over the download history. Re-runs the query from the first
+ * page whenever the filters change or the history is modified.
+ */
+export const useDownloadHistory = (filters: HistoryFilters) => {
+  const [items, setItems] = useState<Download[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const loadedCount = useRef(0);
+  // Drops results from queries superseded by a newer one
+  const requestId = useRef(0);
+
+  const { search, formats, from, to, sortBy, sortDirection } = filters;
+  const formatsKey = formats?.join(',') || '';
+
+  const runQuery = useCallback(
+    async (offset: number) => {
+      const id = ++requestId.current;
+      setLoading(true);
+      const result = await storageService.queryDownloadHistory({
+        search,
+        formats: formatsKey
+          ? (formatsKey.split(',') as HistoryQuery['formats'])
+          : undefined,
+        from,
+        to,
+        sortBy,
+        sortDirection,
+        offset,
+        // Refreshes reload everything already on screen
+        limit: Math.max(PAGE_SIZE, offset === 0 ? loadedCount.current : 0),
+      });
+      if (id !== requestId.current) return;
+
+      const page = result.items.map(mapHistoryToDownload);
+      setItems(prev => (offset === 0 ? page : [...prev, ...page]));
+      loadedCount.current = offset + page.length;
+      setTotal(result.total);
+      setLoading(false);
+    },
+    [search, formatsKey, from, to, sortBy, sortDirection],
+  );
+
+  useEffect(() => {
+    // New filters start from the first page
+    loadedCount.current = 0;
+    runQuery(0);
+    return storageService.subscribeToDownloadHistory(() => {
+      runQuery(0);
+    });
+  }, [runQuery]);
+
+  const loadMore = useCallback(() => {
+    if (loading || loadedCount.current >= total) return;
+    runQuery(loadedCount.current);
+  }, [loading, total, runQuery]);
+
+  return { items, total, loading, loadMore };
+};
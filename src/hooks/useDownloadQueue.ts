@@ -1,6 +1,9 @@
 import { useEffect, useState } from 'react';
 import { clientDownloadQueue } from '../services/download/queueManager';
 import type { DownloadQueueState, DownloadJob } from '../services/download/queue';
+import type { NetworkPolicy } from '../types/network';
+import type { QuietHours } from '../types/schedule';
+import type { FolderRule } from '../types/folders';
 
 export const useDownloadQueue = () => {
   const [queueState, setQueueState] = useState<DownloadQueueState>(
@@ -13,14 +16,29 @@ export const useDownloadQueue = () => {
   }, []);
 
   return {
-    activeDownload: queueState.activeDownload,
+    activeDownloads: queueState.activeDownloads,
+    maxConcurrent: queueState.maxConcurrent,
     queuedDownloads: queueState.queuedDownloads,
+    pausedDownloads: queueState.pausedDownloads,
     completedDownloads: queueState.completedDownloads,
+    storageHold: queueState.storageHold,
     enqueue: (job: DownloadJob) => clientDownloadQueue.enqueue(job),
     cancel: (id: string) => clientDownloadQueue.cancelDownload(id),
     retry: (id: string) => clientDownloadQueue.retryDownload(id),
     clearCompleted: () => clientDownloadQueue.clearCompleted(),
     moveUp: (id: string) => clientDownloadQueue.moveUp(id),
     moveDown: (id: string) => clientDownloadQueue.moveDown(id),
+    setMaxConcurrent: (count: number) =>
+      clientDownloadQueue.setMaxConcurrent(count),
+    setNetworkPolicy: (policy: NetworkPolicy) =>
+      clientDownloadQueue.setNetworkPolicy(policy),
+    setQuietHours: (quietHours: QuietHours) =>
+      clientDownloadQueue.setQuietHours(quietHours),
+    setBandwidthLimit: (limitKBps: number) =>
+      clientDownloadQueue.setBandwidthLimit(limitKBps),
+    addFolderRule: (rule: Omit<FolderRule, 'id'>) =>
+      clientDownloadQueue.addFolderRule(rule),
+    removeFolderRule: (id: string) => clientDownloadQueue.removeFolderRule(id),
+    recheckStorage: () => clientDownloadQueue.recheckStorage(),
   };
 };
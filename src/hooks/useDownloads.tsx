@@ -5,22 +5,34 @@ import React, {
   ReactNode,
   useRef,
   useEffect,
-  useState,
 } from 'react';
 import { useDialog } from './useDialog';
 import {
+  Chapter,
+  ClipRange,
   Download,
   Video,
   VideoFormat,
   VideoQuality,
   DownloadStatus,
+  QualityMode,
 } from '../types/video';
+import type { SubtitleOptions } from '../types/subtitle';
+import type { DownloadSchedule } from '../types/schedule';
+import type { DownloadProgressInfo } from '../types/progress';
 import { apiClient } from '../services/apiClient';
 import { downloadService } from '../services/downloadService';
 import { storageService } from '../services/storageService';
+import { mapHistoryToDownload } from './useDownloadHistory';
 import { safeExecute, batchStateUpdate } from '../utils/crashPrevention';
 import { clientDownloadQueue } from '../services/download/queueManager';
 import type { DownloadJob } from '../services/download/queue';
+import { qualityPreferenceFor } from '../services/download/quality';
+import { findSavedCopy } from '../services/download/duplicates';
+import {
+  DuplicateDownloadError,
+  type DuplicateDownload,
+} from '../services/download/errors';
 
 interface DownloadState {
   downloads: Download[];
@@ -50,6 +62,30 @@ type DownloadAction =
   | { type: 'CANCEL_DOWNLOAD'; payload: { id: string } }
   | { type: 'DELETE_DOWNLOAD'; payload: { id: string } };
 
+export interface StartDownloadOptions {
+  bitRate?: string;
+  clip?: ClipRange;
+  subtitles?: SubtitleOptions;
+  captionsOnly?: boolean;
+  chapters?: Chapter[]; // MP3: split into one file per chapter
+  schedule?: DownloadSchedule; // Hold the job until then
+  bandwidthLimitKBps?: number; // Overrides the global cap; 0 means uncapped
+  expectedBytes?: number; // Known size of the file, from the video's streams
+  qualityMode?: QualityMode; // Defaults to stepping down when unavailable
+  outputFolder?: string; // Save this job here instead of the download folder
+  allowDuplicate?: boolean; // The user chose to download it again
+}
+
+// Byte counts move on long server-side stretches where percent barely does;
+// refresh for a phase change or about a megabyte of new data
+const progressInfoChanged = (
+  next?: DownloadProgressInfo,
+  prev?: DownloadProgressInfo,
+) =>
+  next?.phase !== prev?.phase ||
+  Math.abs((next?.bytesReceived ?? 0) - (prev?.bytesReceived ?? 0)) >=
+  1024 * 1024;
+
 const buildPlaceholderVideo = (job: DownloadJob): Video => ({
   id: job.videoId,
   title: job.videoTitle || 'Video',
@@ -67,6 +103,7 @@ const mapJobToDownload = (
   // Ensure we have minimal video & quality info
   const videoInfo: Video = video ?? buildPlaceholderVideo(job);
   const qualityInfo: VideoQuality = (quality ||
+    (job.qualityPreference?.[0] as VideoQuality) ||
     (job.quality as VideoQuality) ||
     'unknown') as any;
 
@@ -90,6 +127,15 @@ const mapJobToDownload = (
     case 'downloading':
       status = 'downloading';
       break;
+    case 'paused':
+      status = 'paused';
+      break;
+    case 'waiting_for_network':
+      status = 'waiting_for_network';
+      break;
+    case 'scheduled':
+      status = 'scheduled';
+      break;
     case 'completed':
       status = 'completed';
       break;
@@ -103,11 +149,21 @@ const mapJobToDownload = (
   return {
     id: job.id,
     video: videoInfo,
-    format: job.format as VideoFormat,
+    format: (job.captionsOnly && job.subtitles
+      ? job.subtitles.format
+      : job.format) as VideoFormat,
     quality: qualityInfo,
     status,
     progress: job.progress,
+    progressInfo: job.progressInfo,
+    deliveredQuality: job.deliveredQuality as VideoQuality | undefined,
     filePath: job.filePath,
+    clip: job.clip,
+    networkHold: job.networkHold,
+    scheduledFor:
+      job.status === 'scheduled' && job.startsAt
+        ? new Date(job.startsAt)
+        : undefined,
     error: job.error,
     createdAt: new Date(job.createdAt),
     startedAt: job.startedAt ? new Date(job.startedAt) : undefined,
@@ -240,12 +296,21 @@ interface DownloadContextType {
     video: Video,
     format: VideoFormat,
     quality: VideoQuality,
-    options?: { bitRate?: string },
+    options?: StartDownloadOptions,
   ) => Promise<string>;
+  startBatchDownload: (
+    videos: Video[],
+    format: VideoFormat,
+    quality: VideoQuality,
+    options?: { bitRate?: string },
+  ) => Promise<string[]>;
   updateProgress: (id: string, progress: number) => void;
   completeDownload: (id: string, filePath: string) => void;
   failDownload: (id: string, error: string) => void;
   cancelDownload: (id: string) => void;
+  pauseDownload: (id: string) => boolean;
+  resumeDownload: (id: string) => void;
+  startScheduledNow: (id: string) => void;
   deleteDownload: (id: string) => void;
   retryDownload: (id: string) => void;
   retryDownloadByVideoId: (videoId: string) => Promise<void>;
@@ -268,7 +333,6 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
   const [state, dispatch] = useReducer(downloadReducer, { downloads: [] });
   const { showDialog } = useDialog();
   const stateRef = useRef(state);
-  const [isInitialized, setIsInitialized] = useState(false);
 
   // Store Video objects for each download job (jobId -> Video)
   const videoMapRef = useRef(new Map<string, Video>());
@@ -280,59 +344,8 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
     stateRef.current = state;
   }, [state]);
 
-  // Load persisted downloads on mount
-  useEffect(() => {
-    const loadPersistedDownloads = async () => {
-      try {
-        const persistedVideos = await storageService.getDownloadedVideos();
-     
-        if (persistedVideos.length > 0) {
-     
-          // Convert persisted videos to Download format
-          const downloads: Download[] = persistedVideos.map(pv => ({
-            id: pv.id,
-            video: {
-              id: pv.videoId,
-              title: pv.title,
-              thumbnailUrl: pv.thumbnailUrl || '',
-              channelName: '',
-              duration: 0,
-              formats: [],
-            },
-            format: pv.format,
-            quality: '720p' as VideoQuality, // Default quality for persisted downloads
-            status: 'completed' as DownloadStatus,
-            progress: 100,
-            filePath: pv.filePath,
-            createdAt: new Date(pv.downloadedAt),
-          }));
-
-          // Sync to state
-          (dispatch as any)({
-            type: 'SYNC_QUEUE_STATE',
-            payload: { downloads },
-          });
-
-        } else {
-          console.log('📭 [STORAGE] No persisted downloads found in storage');
-        }
-      } catch (error) {
-        console.error(
-          '❌ [STORAGE] Failed to load persisted downloads:',
-          error,
-        );
-      } finally {
-        setIsInitialized(true);
-      }
-    };
-
-    loadPersistedDownloads();
-  }, []);
-
   // Subscribe to queue state changes and sync with local state
   useEffect(() => {
-    if (!isInitialized) return; // Wait for persisted downloads to load first
-
     let lastUpdateTime = 0;
     const UPDATE_THROTTLE = 500; // Update every 500ms max for better performance
 
@@ -341,30 +354,19 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
 
       // Determine if we should bypass throttle to ensure UI updates immediately for critical state changes
       // (e.g. completion, start, error) instead of getting stuck at 100% due to throttle.
-      const uiActive = stateRef.current.downloads.find(
-        d => d.status === 'downloading',
-      );
-      const queueActive = queueState.activeDownload;
-
-      let shouldBypassThrottle = false;
-
-      if (uiActive && !queueActive) {
-        // Download finished (or stopped/failed) -> Bypass to show completion immediately
-        shouldBypassThrottle = true;
-      } else if (!uiActive && queueActive) {
-        // Download started -> Bypass to show start immediately
-        shouldBypassThrottle = true;
-      } else if (uiActive && queueActive && uiActive.id !== queueActive.id) {
-        // Active download changed -> Bypass
-        shouldBypassThrottle = true;
-      } else if (
-        uiActive &&
-        queueActive &&
-        uiActive.status !== queueActive.status
-      ) {
-        // Status changed -> Bypass
-        shouldBypassThrottle = true;
-      }
+      const uiActiveIds = stateRef.current.downloads
+        .filter(d => d.status === 'downloading')
+        .map(d => d.id)
+        .sort();
+      const queueActiveIds = queueState.activeDownloads
+        .filter(j => j.status === 'downloading')
+        .map(j => j.id)
+        .sort();
+
+      // Any download started, finished or swapped slots -> Bypass
+      const shouldBypassThrottle =
+        uiActiveIds.length !== queueActiveIds.length ||
+        uiActiveIds.some((id, i) => id !== queueActiveIds[i]);
 
       // Throttle updates to reduce re-renders, unless it's a critical state change
       if (!shouldBypassThrottle && now - lastUpdateTime < UPDATE_THROTTLE) {
@@ -375,9 +377,8 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
       // Map queue state to Download[] format
       const downloads: Download[] = [];
 
-      // Add active download and start stall monitor
-      if (queueState.activeDownload) {
-        const job = queueState.activeDownload;
+      // Add active downloads and start stall monitors
+      queueState.activeDownloads.forEach(job => {
         const video = videoMapRef.current.get(job.id);
         const quality = qualityMapRef.current.get(job.id);
 
@@ -388,7 +389,7 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
         if (job.status === 'downloading') {
           ensureStallMonitor(job.id);
         }
-      }
+      });
 
       // Add queued downloads
       queueState.queuedDownloads.forEach(job => {
@@ -399,6 +400,14 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
         downloads.push(mapJobToDownload(job, video, quality));
       });
 
+      // Add paused downloads
+      queueState.pausedDownloads.forEach(job => {
+        const video = videoMapRef.current.get(job.id);
+        const quality = qualityMapRef.current.get(job.id);
+
+        downloads.push(mapJobToDownload(job, video, quality));
+      });
+
       // Add completed/failed downloads from queue (recent session)
       const completedArray = Array.from(queueState.completedDownloads.values())
         .sort((a, b) => (b.completedAt || 0) - (a.completedAt || 0))
@@ -419,8 +428,9 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
       );
 
       console.log(
-        `🔄 [QUEUE SYNC] Active: ${queueState.activeDownload ? 1 : 0
+        `🔄 [QUEUE SYNC] Active: ${queueState.activeDownloads.length}/${queueState.maxConcurrent
         }, Queued: ${queueState.queuedDownloads.length
+        }, Paused: ${queueState.pausedDownloads.length
         }, Completed in session: ${completedArray.length}`,
       );
       console.log(
@@ -444,7 +454,10 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
           return (
             d.id !== curr.id ||
             d.status !== curr.status ||
-            Math.abs(d.progress - curr.progress) >= 5
+            d.networkHold !== curr.networkHold ||
+            d.scheduledFor?.getTime() !== curr.scheduledFor?.getTime() ||
+            Math.abs(d.progress - curr.progress) >= 5 ||
+            progressInfoChanged(d.progressInfo, curr.progressInfo)
           );
         });
 
@@ -467,7 +480,7 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
     });
 
     return unsubscribe;
-  }, [ensureStallMonitor, isInitialized]);
+  }, [ensureStallMonitor]);
 
   // Throttle map to limit progress updates per download (id -> { pct, ts })
   const lastProgressRef = useRef(
@@ -564,13 +577,14 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
     stallTimersRef.current.set(id, interval);
   };
 
-  const startDownload = async (
+  // Register UI lookups for a new job and build its queue entry
+  const prepareDownloadJob = (
+    localDownloadId: string,
     video: Video,
     format: VideoFormat,
     quality: VideoQuality,
-    options?: { bitRate?: string },
-  ): Promise<string> => {
-    const localDownloadId = Date.now().toString();
+    options?: StartDownloadOptions & { playlistIndex?: number },
+  ): DownloadJob => {
     console.log(`🚀 Queueing download with ID: ${localDownloadId}`);
     console.log(`📹 Video: ${video.title}`);
     console.log(`🎬 Format: ${format}, Quality: ${quality}`);
@@ -597,81 +611,131 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
     }
 
     // Create download job
-    const job: DownloadJob = {
+    return {
       id: localDownloadId,
       videoId: video.id,
       format: format as 'mp3' | 'mp4' | 'webm',
       bitRate,
       quality: qualityStr,
+      qualityPreference:
+        format === 'mp3' || !qualityStr
+          ? undefined
+          : qualityPreferenceFor(
+            qualityStr,
+            options?.qualityMode ?? 'best_up_to',
+          ),
       videoTitle: video.title,
+      channelName: video.channelName || undefined,
+      playlistIndex: options?.playlistIndex,
       thumbnailUrl: video.thumbnailUrl,
+      publishedAt: video.publishedAt || undefined,
+      clip: options?.clip,
+      subtitles: options?.subtitles,
+      captionsOnly: options?.captionsOnly,
+      chapters: options?.chapters,
+      notBefore: options?.schedule?.notBefore,
+      quietHoursOnly: options?.schedule?.quietHoursOnly,
+      bandwidthLimitKBps: options?.bandwidthLimitKBps,
+      expectedBytes: options?.expectedBytes,
+      outputFolder: options?.outputFolder,
       status: 'queued',
       progress: 0,
       createdAt: Date.now(),
     };
+  };
+
+  // Per-job callbacks that keep local progress/stall tracking in sync
+  const createJobCallbacks = (localDownloadId: string) => {
+    return {
+      onProgress: ({ percent: progress }: DownloadProgressInfo) => {
+        // Throttled progress updates
+        const now = Date.now();
+        const last = lastProgressRef.current.get(localDownloadId);
+        const lastPct = last?.pct ?? -1;
+        const lastTs = last?.ts ?? 0;
+
+        const pctDelta = Math.abs(progress - lastPct);
+        const timeDelta = now - lastTs;
+
+        if (pctDelta >= 1 || timeDelta >= 120) {
+          if (progress > lastPct) {
+            lastProgressRef.current.set(localDownloadId, {
+              pct: progress,
+              ts: now,
+            });
+          }
+
+          if (__DEV__ && (pctDelta >= 5 || timeDelta >= 500)) {
+            console.log(
+              `🔄 Progress ID=${localDownloadId} -> ${progress}%`,
+            );
+          }
+        }
+      },
+      onComplete: (filePath: string, filename: string) => {
+        safeExecute(() => {
+          batchStateUpdate(() => {
+            console.log(`✅ Download completed: ${filename}`);
+            console.log(`📂 Saved to: ${filePath}`);
+
+            // Clean up tracking
+            lastProgressRef.current.delete(localDownloadId);
+            const timer = stallTimersRef.current.get(localDownloadId);
+            if (timer) {
+              clearInterval(timer);
+              stallTimersRef.current.delete(localDownloadId);
+            }
+          });
+        }, 100);
+      },
+      onError: (error: string) => {
+        safeExecute(() => {
+          batchStateUpdate(() => {
+            console.error(`❌ Download failed: ${error}`);
+
+            // Clean up tracking
+            lastProgressRef.current.delete(localDownloadId);
+            const timer = stallTimersRef.current.get(localDownloadId);
+            if (timer) {
+              clearInterval(timer);
+              stallTimersRef.current.delete(localDownloadId);
+            }
+          });
+        });
+      },
+    };
+  };
+
+  const startDownload = async (
+    video: Video,
+    format: VideoFormat,
+    quality: VideoQuality,
+    options?: StartDownloadOptions,
+  ): Promise<string> => {
+    const localDownloadId = Date.now().toString();
+    const job = prepareDownloadJob(
+      localDownloadId,
+      video,
+      format,
+      quality,
+      options,
+    );
 
     try {
+      // Already running, waiting or saved with its file still there
+      if (!options?.allowDuplicate) {
+        const saved = await findSavedCopy(job);
+        const duplicate: DuplicateDownload | undefined =
+          clientDownloadQueue.findDuplicate(job) ||
+          (saved && { id: saved.id, status: 'saved', filePath: saved.filePath });
+        if (duplicate) throw new DuplicateDownloadError(duplicate);
+      }
+
       // Enqueue the download with callbacks
       const serverDownloadId = await clientDownloadQueue.enqueueWithCallbacks(
         job,
-        {
-          onProgress: progress => {
-            // Throttled progress updates
-            const now = Date.now();
-            const last = lastProgressRef.current.get(localDownloadId);
-            const lastPct = last?.pct ?? -1;
-            const lastTs = last?.ts ?? 0;
-
-            const pctDelta = Math.abs(progress - lastPct);
-            const timeDelta = now - lastTs;
-
-            if (pctDelta >= 1 || timeDelta >= 120) {
-              if (progress > lastPct) {
-                lastProgressRef.current.set(localDownloadId, {
-                  pct: progress,
-                  ts: now,
-                });
-              }
-
-              if (__DEV__ && (pctDelta >= 5 || timeDelta >= 500)) {
-                console.log(
-                  `🔄 Progress ID=${localDownloadId} -> ${progress}%`,
-                );
-              }
-            }
-          },
-          onComplete: (filePath, filename) => {
-            safeExecute(() => {
-              batchStateUpdate(() => {
-                console.log(`✅ Download completed: ${filename}`);
-                console.log(`📂 Saved to: ${filePath}`);
-
-                // Clean up tracking
-                lastProgressRef.current.delete(localDownloadId);
-                const timer = stallTimersRef.current.get(localDownloadId);
-                if (timer) {
-                  clearInterval(timer);
-                  stallTimersRef.current.delete(localDownloadId);
-                }
-              });
-            }, 100);
-          },
-          onError: error => {
-            safeExecute(() => {
-              batchStateUpdate(() => {
-                console.error(`❌ Download failed: ${error}`);
-
-                // Clean up tracking
-                lastProgressRef.current.delete(localDownloadId);
-                const timer = stallTimersRef.current.get(localDownloadId);
-                if (timer) {
-                  clearInterval(timer);
-                  stallTimersRef.current.delete(localDownloadId);
-                }
-              });
-            });
-          },
-        },
+        createJobCallbacks(localDownloadId),
+        options?.allowDuplicate,
       );
 
       // Store server download ID mapping
@@ -700,6 +764,51 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
     }
   };
 
+  // Queue several videos with the same format/quality in one go (playlists).
+  // Videos already queued or saved are skipped; returns the queued ids.
+  const startBatchDownload = async (
+    videos: Video[],
+    format: VideoFormat,
+    quality: VideoQuality,
+    options?: { bitRate?: string },
+  ): Promise<string[]> => {
+    const batchId = Date.now();
+    const allEntries = videos.map((video, index) => {
+      // Suffix keeps ids unique when a whole batch is created in the same ms
+      const localDownloadId = `${batchId}-${index}`;
+      return {
+        job: prepareDownloadJob(
+          localDownloadId,
+          video,
+          format,
+          quality,
+          { ...options, playlistIndex: index + 1 },
+        ),
+        cb: createJobCallbacks(localDownloadId),
+      };
+    });
+
+    const saved = await Promise.all(
+      allEntries.map(({ job }) => findSavedCopy(job)),
+    );
+    const entries = allEntries.filter((_, i) => !saved[i]);
+
+    console.log(
+      `📃 Queueing batch of ${entries.length} downloads (${allEntries.length - entries.length} already saved)`,
+    );
+    const queuedIds = clientDownloadQueue.enqueueManyWithCallbacks(entries);
+
+    // Skipped jobs were never queued, so forget what prepareDownloadJob recorded
+    allEntries
+      .filter(({ job }) => !queuedIds.includes(job.id))
+      .forEach(({ job }) => {
+        videoMapRef.current.delete(job.id);
+        qualityMapRef.current.delete(job.id);
+        lastProgressRef.current.delete(job.id);
+      });
+    return queuedIds;
+  };
+
   const updateProgress = (id: string, progress: number) => {
     const now = Date.now();
     const last = lastProgressRef.current.get(id);
@@ -764,6 +873,31 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
     pendingCancelSet.delete(id);
   };
 
+  // Returns false when the job can't be paused (e.g. it is streaming over SSE)
+  const pauseDownload = (id: string): boolean => {
+    console.log(`⏸️ Pausing download: ${id}`);
+    const paused = clientDownloadQueue.pauseDownload(id);
+    if (paused) {
+      const t = stallTimersRef.current.get(id);
+      if (t) {
+        clearInterval(t);
+        stallTimersRef.current.delete(id);
+      }
+      lastProgressRef.current.delete(id);
+    }
+    return paused;
+  };
+
+  const resumeDownload = (id: string) => {
+    console.log(`▶️ Resuming download: ${id}`);
+    clientDownloadQueue.resumeDownload(id);
+  };
+
+  const startScheduledNow = (id: string) => {
+    console.log(`⏩ Starting scheduled download now: ${id}`);
+    clientDownloadQueue.startNow(id);
+  };
+
   const deleteDownload = async (id: string) => {
     console.log(`🗑️ Deleting download: ${id}`);
 
@@ -793,16 +927,18 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
     // Get current queue state
     const queueState = clientDownloadQueue.getState();
 
-    // Cancel active download
-    if (queueState.activeDownload) {
-      clientDownloadQueue.cancelDownload(queueState.activeDownload.id);
-    }
-
-    // Cancel all queued downloads
-    queueState.queuedDownloads.forEach(job => {
+    // Cancel active downloads
+    queueState.activeDownloads.forEach(job => {
       clientDownloadQueue.cancelDownload(job.id);
     });
 
+    // Cancel all queued and paused downloads
+    [...queueState.queuedDownloads, ...queueState.pausedDownloads].forEach(
+      job => {
+        clientDownloadQueue.cancelDownload(job.id);
+      },
+    );
+
     // Clear completed downloads
     clientDownloadQueue.clearCompleted();
 
@@ -843,6 +979,11 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
     const matchingDownloads = state.downloads.filter(
       d => d.video.id === videoId,
     );
+    // Saved downloads live in the history store, not in state
+    if (matchingDownloads.length === 0) {
+      const saved = await storageService.findDownloadedVideos(videoId);
+      matchingDownloads.push(...saved.map(mapHistoryToDownload));
+    }
 
     if (matchingDownloads.length === 0) {
       console.warn(`⚠️ No downloads found for video ID: ${videoId}`);
@@ -850,7 +991,7 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
     }
 
     // Get the video info from the first match
-    const { video, format, quality } = matchingDownloads[0];
+    const { video, format, quality, clip } = matchingDownloads[0];
 
     console.log(
       `📹 Found ${matchingDownloads.length} download(s) for: ${video.title}`,
@@ -868,7 +1009,7 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
     console.log(`🚀 Starting fresh download...`);
 
     // Start a new download
-    await startDownload(video, format, quality);
+    await startDownload(video, format, quality, { clip, allowDuplicate: true });
 
     console.log(`✅ Retry initiated successfully`);
   };
@@ -876,10 +1017,14 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({
   const contextValue: DownloadContextType = {
     downloads: state.downloads,
     startDownload,
+    startBatchDownload,
     updateProgress,
     completeDownload,
     failDownload,
     cancelDownload,
+    pauseDownload,
+    resumeDownload,
+    startScheduledNow,
     deleteDownload,
     retryDownload,
     retryDownloadByVideoId,
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { subscriptionService } from '../services/subscriptionService';
+import type {
+  ChannelSubscription,
+  SubscriptionRule,
+} from '../types/subscription';
+
+export const useSubscriptions = () => {
+  const [subscriptions, setSubscriptions] = useState<ChannelSubscription[]>(
+    [],
+  );
+
+  useEffect(() => {
+    const unsubscribe = subscriptionService.subscribe(setSubscriptions);
+    return unsubscribe;
+  }, []);
+
+  return {
+    subscriptions,
+    follow: (channelId: string, channelName: string) =>
+      subscriptionService.follow(channelId, channelName),
+    unfollow: (channelId: string) => subscriptionService.unfollow(channelId),
+    updateRule: (channelId: string, rule: Partial<SubscriptionRule>) =>
+      subscriptionService.updateRule(channelId, rule),
+    checkNow: () => subscriptionService.checkForNewUploads(),
+  };
+};
@@ -1,11 +1,43 @@
 import React, { useState, useEffect } from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import {
+  NavigationContainer,
+  type LinkingOptions,
+} from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { MainTabNavigator } from './MainTabNavigator';
-import { SettingsScreen, SplashScreen } from '../screens';
+import {
+  PlayerScreen,
+  SettingsScreen,
+  SplashScreen,
+  StorageScreen,
+  SubscriptionsScreen,
+} from '../screens';
+import { ScreenNames } from '../constants/ScreenNames';
 
 const Stack = createNativeStackNavigator();
 
+/**
+ * ytdownloader://download?v=<id or URL>&format=mp3 opens the download drawer
+ * on the Browse tab. Android rewrites shared YouTube links into the same
+ * form (see MainActivity), so both arrive here on a cold or warm start.
+ */
+const linking: LinkingOptions<ReactNavigation.RootParamList> = {
+  prefixes: ['ytdownloader://'],
+  config: {
+    screens: {
+      MainTabs: {
+        screens: {
+          Browse: {
+            screens: {
+              BrowseHome: 'download',
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
 /**
  * App Navigator
  * DRY principle: Centralized navigation structure
@@ -23,7 +55,7 @@ export const AppNavigator: React.FC = () => {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={linking}>
       <Stack.Navigator
         screenOptions={{
           headerShown: false,
@@ -41,6 +73,27 @@ export const AppNavigator: React.FC = () => {
             headerShown: false,
           }}
         />
+        <Stack.Screen
+          name={ScreenNames.Subscriptions}
+          component={SubscriptionsScreen}
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name={ScreenNames.Storage}
+          component={StorageScreen}
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name={ScreenNames.Player}
+          component={PlayerScreen}
+          options={{
+            headerShown: false,
+          }}
+        />
 
       </Stack.Navigator>
     </NavigationContainer>
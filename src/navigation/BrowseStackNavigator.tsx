@@ -3,9 +3,10 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import BrowseScreen from '../screens/BrowseScreen';
 import VideoViewerScreen from '../screens/VideoViewerScreen';
 import { Video } from '../types/video';
+import type { DownloadLinkParams } from './types';
 
 export type BrowseStackParamList = {
-  BrowseHome: { testSearch?: boolean } | undefined;
+  BrowseHome: ({ testSearch?: boolean } & DownloadLinkParams) | undefined;
   VideoViewer: { video: Video; youtubeUrl?: string };
 };
 
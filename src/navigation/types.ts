@@ -5,8 +5,15 @@ export type RootStackParamList = {
   Main: undefined;
 };
 
+// From a ytdownloader://download link, or a YouTube link shared to the app
+export type DownloadLinkParams = {
+  v?: string; // Video id or URL
+  url?: string; // Shared text containing a YouTube URL
+  format?: string;
+};
+
 export type MainTabParamList = {
-  Browse: { testSearch?: boolean } | undefined;
+  Browse: ({ testSearch?: boolean } & DownloadLinkParams) | undefined;
   Downloads: undefined;
 };
 
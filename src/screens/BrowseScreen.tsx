@@ -12,16 +12,22 @@ import {
 } from 'react-native';
 import { useRoute, RouteProp, useNavigation } from '@react-navigation/native';
 import { Search, Link as LinkIcon, Download, ArrowRight, Youtube } from 'lucide-react-native';
-import { Video } from '../types/video';
+import { Video, VideoFormat } from '../types/video';
 import { useTheme } from '../hooks/useTheme';
 import { useSearch } from '../hooks/useSearch';
 import { useScreenTracking } from '../hooks/useScreenTracking';
 import { ScreenNames } from '../constants/ScreenNames';
 import VideoResultCard from '../components/VideoResultCard';
 import LoadingAnimation from '../components/LoadingAnimation';
+import AppHeader from '../components/AppHeader';
 import DownloadDrawer from '../components/DownloadDrawer';
+import PlaylistReviewSheet from '../components/PlaylistReviewSheet';
 import { AppBannerAd } from '../components/AppBannerAd';
 import { MainTabParamList } from '../navigation/types';
+import { parseYouTubeUrl } from '../utils/youtubeUrl';
+
+// Formats a download link may preselect
+const LINK_FORMATS: VideoFormat[] = ['mp4', 'mp3', 'webm', 'mkv'];
 
 type BrowseScreenRouteProp = RouteProp<MainTabParamList, 'Browse'>;
 
@@ -41,6 +47,8 @@ const BrowseScreen: React.FC = () => {
   const [youtubeUrl, setYoutubeUrl] = useState('');
   const [selectedVideo, setSelectedVideo] = useState<Video | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
+  const [playlistId, setPlaylistId] = useState<string | null>(null);
+  const [drawerFormat, setDrawerFormat] = useState<VideoFormat | undefined>();
 
   const handleSearch = useCallback(async (query: string) => {
     const trimmedQuery = query.trim();
@@ -67,42 +75,56 @@ const BrowseScreen: React.FC = () => {
     });
   }, [navigation, results]);
 
-  const extractVideoIdFromInput = useCallback((input: string): string | null => {
-    const trimmed = input.trim();
-    const vMatch = trimmed.match(/[?&]v=([^&]+)/);
-    if (vMatch && vMatch[1]) return vMatch[1];
-    const shortMatch = trimmed.match(/youtu\.be\/([^?&]+)/);
-    if (shortMatch && shortMatch[1]) return shortMatch[1];
-    const shortsMatch = trimmed.match(/shorts\/([^?&]+)/);
-    if (shortsMatch && shortsMatch[1]) return shortsMatch[1];
-    if (trimmed.length === 11 && !trimmed.includes('http')) return trimmed;
-    return null;
-  }, []);
+  // Playlist links open the review sheet; video links open the download drawer
+  const openLink = useCallback(
+    (value: string, format?: VideoFormat): boolean => {
+      const link = parseYouTubeUrl(value);
+      if (link?.playlistId) {
+        setPlaylistId(link.playlistId);
+        return true;
+      }
+      if (!link?.videoId) return false;
+
+      const video: Video = {
+        id: link.videoId,
+        title: value,
+        thumbnailUrl: '',
+        duration: 0,
+        channelName: '',
+        channelId: '',
+        publishedAt: new Date().toISOString(),
+        viewCount: 0,
+      };
+
+      setDrawerFormat(format);
+      setSelectedVideo(video);
+      setModalVisible(true);
+      return true;
+    },
+    [],
+  );
 
   const handleUrlDownload = useCallback(() => {
     const value = youtubeUrl.trim();
     if (!value) return;
 
-    const videoId = extractVideoIdFromInput(value);
-    if (!videoId) {
+    if (!openLink(value)) {
       Alert.alert('Invalid URL', 'Please enter a valid YouTube URL or video ID.');
-      return;
     }
+  }, [youtubeUrl, openLink]);
 
-    const video: Video = {
-      id: videoId,
-      title: value,
-      thumbnailUrl: '',
-      duration: 0,
-      channelName: '',
-      channelId: '',
-      publishedAt: new Date().toISOString(),
-      viewCount: 0,
-    };
+  // ytdownloader://download?v=...&format=mp3, or a link shared from another app
+  useEffect(() => {
+    const incoming = route.params?.v || route.params?.url;
+    if (!incoming) return;
+    // Consume the link so returning to this screen doesn't reopen it
+    navigation.setParams({ v: undefined, url: undefined, format: undefined });
 
-    setSelectedVideo(video);
-    setModalVisible(true);
-  }, [youtubeUrl, extractVideoIdFromInput]);
+    const format = LINK_FORMATS.find(f => f === route.params?.format);
+    if (!openLink(incoming, format)) {
+      Alert.alert('Invalid Link', 'That link does not point to a YouTube video or playlist.');
+    }
+  }, [route.params, navigation, openLink]);
 
   const renderVideoItem: ListRenderItem<Video> = useCallback(
     ({ item }) => <VideoResultCard video={item} onPress={handleVideoPress} />,
@@ -128,7 +150,7 @@ const BrowseScreen: React.FC = () => {
           <Text style={[styles.emptySubtext, { color: theme.colors.textSecondary }]}>
             {mode === 'search'
               ? 'Search for your favorite videos and download them in your preferred quality'
-              : 'Paste any YouTube URL to download instantly'}
+              : 'Paste any YouTube video or playlist URL to download instantly'}
           </Text>
         </View>
       )}
@@ -139,7 +161,7 @@ const BrowseScreen: React.FC = () => {
 
   return (
     <View style={styles.container}>
-      {/* <AppHeader /> */}
+      <AppHeader showTitleBar={false} />
 
       <View style={styles.content}>
         <View style={styles.tabContainer}>
@@ -250,9 +272,16 @@ const BrowseScreen: React.FC = () => {
       <DownloadDrawer
         visible={modalVisible}
         video={selectedVideo}
+        initialFormat={drawerFormat}
         onClose={() => setModalVisible(false)}
       />
 
+      <PlaylistReviewSheet
+        visible={playlistId !== null}
+        playlistId={playlistId}
+        onClose={() => setPlaylistId(null)}
+      />
+
       {/* Banner Ad at bottom */}
       <AppBannerAd style={styles.bannerAd} />
     </View>
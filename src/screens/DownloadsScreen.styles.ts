@@ -42,6 +42,75 @@ export const getDownloadsScreenStyles = (theme: Theme) =>
       fontSize: ms(12),
       fontWeight: '600',
     },
+    storageBanner: {
+      marginHorizontal: theme.spacing.md,
+      marginTop: theme.spacing.sm,
+      padding: theme.spacing.sm,
+      borderRadius: ms(8),
+      borderWidth: 1,
+      borderColor: theme.colors.error,
+      backgroundColor: theme.colors.surface,
+      gap: theme.spacing.xs,
+    },
+    storageBannerTitle: {
+      fontSize: ms(13),
+      fontWeight: '700',
+      color: theme.colors.error,
+    },
+    storageBannerText: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+    },
+    storageBannerActions: {
+      flexDirection: 'row',
+      gap: theme.spacing.xs,
+    },
+    historyControls: {
+      paddingHorizontal: theme.spacing.md,
+      paddingTop: theme.spacing.sm,
+      gap: theme.spacing.xs,
+    },
+    searchInput: {
+      backgroundColor: theme.colors.surface,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      borderRadius: ms(8),
+      paddingHorizontal: theme.spacing.sm,
+      paddingVertical: ms(8),
+      fontSize: ms(13),
+      color: theme.colors.text,
+    },
+    filterRow: {
+      flexDirection: 'row',
+      gap: ms(6),
+      paddingVertical: 2,
+    },
+    filterChip: {
+      paddingVertical: ms(4),
+      paddingHorizontal: ms(10),
+      borderRadius: ms(14),
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.surface,
+    },
+    filterChipSelected: {
+      backgroundColor: theme.colors.secondary,
+      borderColor: theme.colors.secondary,
+    },
+    filterChipText: {
+      fontSize: ms(11),
+      fontWeight: '600',
+      color: theme.colors.text,
+    },
+    filterChipTextSelected: {
+      color: '#FFFFFF',
+    },
+    noResultsText: {
+      fontSize: ms(13),
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+      marginTop: theme.spacing.lg,
+    },
     listContainer: {
       flex: 1,
     },
@@ -165,4 +234,13 @@ export const getDownloadsScreenStyles = (theme: Theme) =>
       textTransform: 'uppercase',
       letterSpacing: 0.5,
     },
+    chapterGroupHeader: {
+      paddingHorizontal: theme.spacing.md,
+      paddingTop: theme.spacing.sm,
+      paddingBottom: theme.spacing.xs,
+    },
+    chapterGroupTitle: {
+      fontSize: ms(14),
+      fontWeight: '600',
+    },
   });
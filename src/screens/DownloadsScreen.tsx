@@ -5,6 +5,8 @@ import {
   StatusBar,
   TouchableOpacity,
   SectionList,
+  TextInput,
+  ScrollView,
 } from 'react-native';
 import { useWindowDimensions } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -13,6 +15,11 @@ import { useNavigation } from '@react-navigation/native';
 import { useTheme } from '../hooks/useTheme';
 import { useDownloads } from '../hooks/useDownloads';
 import { useDownloadManager } from '../hooks/useDownloadManager';
+import { useDownloadQueue } from '../hooks/useDownloadQueue';
+import {
+  useDownloadHistory,
+  type HistoryFilters,
+} from '../hooks/useDownloadHistory';
 import { useScreenTracking } from '../hooks/useScreenTracking';
 import { ScreenNames } from '../constants/ScreenNames';
 import { Download, DownloadStatus } from '../types/video';
@@ -23,26 +30,88 @@ import { useDialog } from '../hooks/useDialog';
 import { SettingsIcon } from '../components/icons/ModernIcons';
 import { useEffect, useState } from 'react';
 import { getDownloadsScreenStyles } from './DownloadsScreen.styles';
-import { openDirectory } from '../utils/openFile';
+import { openDirectory, openFile } from '../utils/openFile';
+import { PLAYABLE_FORMATS, type PlayerParams } from '../types/player';
+import { describeNetworkHold } from '../services/download/networkPolicy';
+import { downloadService } from '../services/downloadService';
+import { formatCountdown, formatFileSize } from '../utils/formatters';
 import RNFS from 'react-native-fs';
 import { AppBannerAd } from '../components/AppBannerAd';
 
 // Removed DownloadItem component - now using SwipeableDownloadItem
 
+type FormatFilter = 'all' | 'mp3' | 'mp4' | 'webm' | 'captions';
+type DateFilter = 'any' | 'today' | 'week' | 'month';
+type SortOption = 'newest' | 'oldest' | 'title' | 'largest';
+
+const FORMAT_FILTERS: { value: FormatFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'mp3', label: 'MP3' },
+  { value: 'mp4', label: 'MP4' },
+  { value: 'webm', label: 'WEBM' },
+  { value: 'captions', label: 'Captions' },
+];
+
+const DATE_FILTERS: { value: DateFilter; label: string }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: '7 days' },
+  { value: 'month', label: '30 days' },
+];
+
+const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'title', label: 'Title' },
+  { value: 'largest', label: 'Largest' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getDateFrom = (filter: DateFilter): number | undefined => {
+  switch (filter) {
+    case 'today': {
+      const startOfDay = new Date();
+      startOfDay.setHours(0, 0, 0, 0);
+      return startOfDay.getTime();
+    }
+    case 'week':
+      return Date.now() - 7 * DAY_MS;
+    case 'month':
+      return Date.now() - 30 * DAY_MS;
+    default:
+      return undefined;
+  }
+};
+
+const SORT_QUERIES: Record<
+  SortOption,
+  Pick<HistoryFilters, 'sortBy' | 'sortDirection'>
+> = {
+  newest: { sortBy: 'date', sortDirection: 'desc' },
+  oldest: { sortBy: 'date', sortDirection: 'asc' },
+  title: { sortBy: 'title', sortDirection: 'asc' },
+  largest: { sortBy: 'size', sortDirection: 'desc' },
+};
+
 const DownloadsScreen: React.FC = () => {
   const { theme, isDark } = useTheme();
-  const navigation = useNavigation();
+  const navigation = useNavigation<any>();
   const { width, height } = useWindowDimensions();
   const isTablet = width >= 600;
   const isLandscape = width > height;
   const {
     downloads,
     cancelDownload,
+    pauseDownload,
+    resumeDownload,
+    startScheduledNow,
     deleteDownload,
     retryDownloadByVideoId,
     forceCleanupAllDownloads,
   } = useDownloads();
   const { downloadPath, loadingPath } = useDownloadManager();
+  const { storageHold, recheckStorage } = useDownloadQueue();
   const { showDialog } = useDialog();
 
   // Track screen view in Firebase Analytics
@@ -59,6 +128,34 @@ const DownloadsScreen: React.FC = () => {
   const [menuPosition, setMenuPosition] = useState({ x: 0, y: 0 });
   const [selectedItem, setSelectedItem] = useState<Download | null>(null);
 
+  // History search/filter/sort state
+  const [search, setSearch] = useState('');
+  const [formatFilter, setFormatFilter] = useState<FormatFilter>('all');
+  const [dateFilter, setDateFilter] = useState<DateFilter>('any');
+  const [sortOption, setSortOption] = useState<SortOption>('newest');
+
+  const historyFilters = useMemo<HistoryFilters>(
+    () => ({
+      search,
+      formats:
+        formatFilter === 'all'
+          ? undefined
+          : formatFilter === 'captions'
+            ? ['srt', 'vtt']
+            : [formatFilter],
+      from: getDateFrom(dateFilter),
+      ...SORT_QUERIES[sortOption],
+    }),
+    [search, formatFilter, dateFilter, sortOption],
+  );
+  const {
+    items: historyItems,
+    total: historyTotal,
+    loadMore: loadMoreHistory,
+  } = useDownloadHistory(historyFilters);
+  const hasHistoryFilters =
+    search.trim() !== '' || formatFilter !== 'all' || dateFilter !== 'any';
+
   // Filter downloads by status
   const activeDownloadsList = useMemo(
     () => downloads.filter(d => d.status === 'downloading'),
@@ -70,14 +167,49 @@ const DownloadsScreen: React.FC = () => {
     [downloads],
   );
 
-  const completedDownloadsList = useMemo(
+  const pausedDownloadsList = useMemo(
+    () => downloads.filter(d => d.status === 'paused'),
+    [downloads],
+  );
+
+  const waitingDownloadsList = useMemo(
+    () => downloads.filter(d => d.status === 'waiting_for_network'),
+    [downloads],
+  );
+
+  const scheduledDownloadsList = useMemo(
     () =>
-      downloads.filter(d =>
-        ['completed', 'failed', 'cancelled'].includes(d.status),
-      ),
+      downloads
+        .filter(d => d.status === 'scheduled')
+        .sort(
+          (a, b) =>
+            (a.scheduledFor?.getTime() ?? 0) - (b.scheduledFor?.getTime() ?? 0),
+        ),
     [downloads],
   );
 
+  // Ticks the scheduled countdowns while there are any
+  const [now, setNow] = useState(Date.now());
+  const hasScheduled = scheduledDownloadsList.length > 0;
+  useEffect(() => {
+    if (!hasScheduled) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [hasScheduled]);
+
+  // Finished downloads come from history; state only adds this session's failures
+  const completedDownloadsList = useMemo(
+    () => [
+      ...downloads.filter(d => ['failed', 'cancelled'].includes(d.status)),
+      ...historyItems,
+    ],
+    [downloads, historyItems],
+  );
+
+  const totalItems =
+    downloads.filter(d => d.status !== 'completed').length + historyTotal;
+
   // Log when screen mounts and when downloads data changes
   useEffect(() => {
     console.log('📱 [DOWNLOADS SCREEN] Screen mounted/updated');
@@ -85,6 +217,9 @@ const DownloadsScreen: React.FC = () => {
     console.log(`📋 [DOWNLOADS SCREEN] Download breakdown:`, {
       active: activeDownloadsList.length,
       queued: queuedDownloadsList.length,
+      paused: pausedDownloadsList.length,
+      waiting: waitingDownloadsList.length,
+      scheduled: scheduledDownloadsList.length,
       completed: completedDownloadsList.length,
     });
     if (downloads.length > 0) {
@@ -99,6 +234,9 @@ const DownloadsScreen: React.FC = () => {
     downloads,
     activeDownloadsList,
     queuedDownloadsList,
+    pausedDownloadsList,
+    waitingDownloadsList,
+    scheduledDownloadsList,
     completedDownloadsList,
   ]);
 
@@ -140,6 +278,13 @@ const DownloadsScreen: React.FC = () => {
       });
     }
 
+    if (waitingDownloadsList.length > 0) {
+      result.push({
+        title: `Waiting for Network (${waitingDownloadsList.length})`,
+        data: waitingDownloadsList,
+      });
+    }
+
     if (queuedDownloadsList.length > 0) {
       result.push({
         title: `Queue (${queuedDownloadsList.length})`,
@@ -147,24 +292,52 @@ const DownloadsScreen: React.FC = () => {
       });
     }
 
+    if (scheduledDownloadsList.length > 0) {
+      result.push({
+        title: `Scheduled (${scheduledDownloadsList.length})`,
+        data: scheduledDownloadsList,
+      });
+    }
+
+    if (pausedDownloadsList.length > 0) {
+      result.push({
+        title: `Paused (${pausedDownloadsList.length})`,
+        data: pausedDownloadsList,
+      });
+    }
+
     if (completedDownloadsList.length > 0) {
       result.push({
-        title: 'Completed',
+        title: hasHistoryFilters ? `Completed (${historyTotal})` : 'Completed',
         data: completedDownloadsList,
       });
     }
 
     return result;
-  }, [activeDownloadsList, queuedDownloadsList, completedDownloadsList]);
+  }, [
+    activeDownloadsList,
+    queuedDownloadsList,
+    pausedDownloadsList,
+    waitingDownloadsList,
+    scheduledDownloadsList,
+    completedDownloadsList,
+    hasHistoryFilters,
+    historyTotal,
+  ]);
 
   const totalActiveDownloads =
-    activeDownloadsList.length + queuedDownloadsList.length;
+    activeDownloadsList.length +
+    queuedDownloadsList.length +
+    waitingDownloadsList.length;
 
   const getStatusColor = useCallback(
     (status: DownloadStatus): string => {
       switch (status) {
         case 'downloading':
           return theme.colors.primary;
+        case 'paused':
+        case 'waiting_for_network':
+          return theme.colors.accent;
         case 'completed':
           return theme.colors.success;
         case 'failed':
@@ -172,6 +345,7 @@ const DownloadsScreen: React.FC = () => {
         case 'cancelled':
           return theme.colors.textSecondary;
         case 'pending':
+        case 'scheduled':
           return theme.colors.textSecondary;
         default:
           return theme.colors.textSecondary;
@@ -179,6 +353,7 @@ const DownloadsScreen: React.FC = () => {
     },
     [
       theme.colors.primary,
+      theme.colors.accent,
       theme.colors.success,
       theme.colors.error,
       theme.colors.textSecondary,
@@ -189,6 +364,10 @@ const DownloadsScreen: React.FC = () => {
     switch (status) {
       case 'downloading':
         return 'Downloading';
+      case 'paused':
+        return 'Paused';
+      case 'waiting_for_network':
+        return 'Waiting for network';
       case 'completed':
         return 'Done';
       case 'failed':
@@ -197,6 +376,8 @@ const DownloadsScreen: React.FC = () => {
         return 'Cancelled';
       case 'pending':
         return 'Pending';
+      case 'scheduled':
+        return 'Scheduled';
       default:
         return 'Unknown';
     }
@@ -266,11 +447,58 @@ const DownloadsScreen: React.FC = () => {
   // Now define handlePress after handleOpenDirectory
   const handlePress = useCallback(
     (item: Download) => {
-      if (item.status === 'completed') {
-        handleOpenDirectory();
+      if (item.status !== 'completed') return;
+      if (item.fileMissing) {
+        showDialog({
+          type: 'warning',
+          title: 'File Not Found',
+          message:
+            'This file was moved or deleted outside the app. Use Scan Library in Settings to find it again, or remove it from your downloads.',
+          buttons: [
+            { text: 'Keep', style: 'cancel', onPress: () => { } },
+            {
+              text: 'Remove',
+              style: 'destructive',
+              onPress: () => deleteDownload(item.id),
+            },
+          ],
+          dismissible: true,
+        });
+        return;
       }
+      if (item.filePath && PLAYABLE_FORMATS.includes(item.format)) {
+        const params: PlayerParams = {
+          id: item.id,
+          title: item.video.title,
+          filePath: item.filePath,
+          format: item.format,
+          thumbnailUrl: item.video.thumbnailUrl || undefined,
+        };
+        navigation.navigate(ScreenNames.Player, params);
+        return;
+      }
+      handleOpenDirectory();
     },
-    [handleOpenDirectory],
+    [handleOpenDirectory, showDialog, deleteDownload, navigation],
+  );
+
+  const handleOpenExternal = useCallback(
+    async (item: Download) => {
+      if (!item.filePath) return;
+      try {
+        await openFile(item.filePath, { displayName: item.video.title });
+      } catch (error) {
+        console.error('❌ Failed to open file externally:', error);
+        showDialog({
+          type: 'error',
+          title: 'Cannot Open File',
+          message: 'No other app on this device could open this file.',
+          buttons: [{ text: 'OK', style: 'default', onPress: () => {} }],
+          dismissible: true,
+        });
+      }
+    },
+    [showDialog],
   );
 
   const handleMenuPress = useCallback(
@@ -322,6 +550,12 @@ const DownloadsScreen: React.FC = () => {
 
     // Add Open Directory option for completed downloads
     if (selectedItem.status === 'completed') {
+      if (selectedItem.filePath && !selectedItem.fileMissing) {
+        items.push({
+          label: 'Open in Another App',
+          onPress: () => handleOpenExternal(selectedItem),
+        });
+      }
       items.push({
         label: 'Open Directory',
         onPress: () => handleOpenDirectory(),
@@ -336,16 +570,62 @@ const DownloadsScreen: React.FC = () => {
     });
 
     return items;
-  }, [selectedItem, handleRetry, handleOpenDirectory, deleteDownload]);
+  }, [
+    selectedItem,
+    handleRetry,
+    handleOpenExternal,
+    handleOpenDirectory,
+    deleteDownload,
+  ]);
+
+  const handlePause = useCallback(
+    (id: string) => {
+      if (!pauseDownload(id)) {
+        showDialog({
+          type: 'info',
+          title: 'Cannot Pause',
+          // The transfer may have finished or fallen back since the button showed
+          message:
+            'This download can no longer be paused. You can cancel it instead.',
+          buttons: [{ text: 'OK', style: 'default', onPress: () => {} }],
+          dismissible: true,
+        });
+      }
+    },
+    [pauseDownload, showDialog],
+  );
 
   const renderDownloadItem = useCallback(
-    ({ item }: { item: Download }) => {
+    ({
+      item,
+      index,
+      section,
+    }: {
+      item: Download;
+      index: number;
+      section: { data: readonly Download[] };
+    }) => {
       const statusColor = getStatusColor(item.status);
-      const statusText = getStatusText(item.status);
-      return (
+      const statusText = item.networkHold
+        ? describeNetworkHold(item.networkHold)
+        : item.scheduledFor
+          ? `Starts in ${formatCountdown(item.scheduledFor.getTime() - now)}`
+          : getStatusText(item.status);
+      // Chapter files sit under a header naming the download they came from
+      const startsChapterGroup =
+        !!item.chapter &&
+        section.data[index - 1]?.chapter?.parentId !== item.chapter.parentId;
+      // Only direct-stream transfers can stop mid-way; waiting jobs always can
+      const canPause =
+        item.status !== 'downloading' ||
+        downloadService.isDirectStreamActive(item.id);
+      const downloadItem = (
         <SwipeableDownloadItem
           item={item}
           onCancel={cancelDownload}
+          onPause={canPause ? handlePause : undefined}
+          onResume={resumeDownload}
+          onStartNow={startScheduledNow}
           onDelete={deleteDownload}
           onMenuPress={handleMenuPress}
           onPress={handlePress}
@@ -355,9 +635,31 @@ const DownloadsScreen: React.FC = () => {
           styles={styles}
         />
       );
+      if (!startsChapterGroup || !item.chapter) return downloadItem;
+
+      return (
+        <View>
+          <View style={styles.chapterGroupHeader}>
+            <Text
+              style={[styles.chapterGroupTitle, { color: theme.colors.text }]}
+              numberOfLines={1}
+            >
+              {item.chapter.parentTitle}
+            </Text>
+            <Text
+              style={[styles.metaText, { color: theme.colors.textSecondary }]}
+            >
+              Split into {item.chapter.count} chapters
+            </Text>
+          </View>
+          {downloadItem}
+        </View>
+      );
     },
     [
       cancelDownload,
+      handlePause,
+      resumeDownload,
       deleteDownload,
       handleMenuPress,
       handlePress,
@@ -365,6 +667,8 @@ const DownloadsScreen: React.FC = () => {
       styles,
       getStatusColor,
       getStatusText,
+      startScheduledNow,
+      now,
     ],
   );
 
@@ -391,6 +695,57 @@ const DownloadsScreen: React.FC = () => {
     [theme, styles],
   );
 
+  const renderFilterChips = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void,
+  ) => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.filterRow}
+    >
+      {options.map(option => {
+        const isSelected = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.filterChip, isSelected && styles.filterChipSelected]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text
+              style={[
+                styles.filterChipText,
+                isSelected && styles.filterChipTextSelected,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const renderHistoryControls = () => (
+    <View style={styles.historyControls}>
+      <TextInput
+        style={styles.searchInput}
+        value={search}
+        onChangeText={setSearch}
+        placeholder="Search downloads"
+        placeholderTextColor={theme.colors.textSecondary}
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+        returnKeyType="search"
+      />
+      {renderFilterChips(FORMAT_FILTERS, formatFilter, setFormatFilter)}
+      {renderFilterChips(DATE_FILTERS, dateFilter, setDateFilter)}
+      {renderFilterChips(SORT_OPTIONS, sortOption, setSortOption)}
+    </View>
+  );
+
   const renderEmptyState = () => (
     <View style={styles.emptyContainer}>
       <LottieAnimation 
@@ -424,7 +779,7 @@ const DownloadsScreen: React.FC = () => {
             <View style={styles.headerInfo}>
               <Text style={styles.headerTitle}>Downloads</Text>
               <Text style={styles.headerSubtitle}>
-                {downloads.length} {downloads.length === 1 ? 'item' : 'items'}
+                {totalItems} {totalItems === 1 ? 'item' : 'items'}
                 {totalActiveDownloads > 0 &&
                   ` • ${totalActiveDownloads} active`}
               </Text>
@@ -469,6 +824,47 @@ const DownloadsScreen: React.FC = () => {
           </View>
         </View>
 
+        {storageHold && (
+          <View style={styles.storageBanner}>
+            <Text style={styles.storageBannerTitle}>Not enough storage</Text>
+            <Text style={styles.storageBannerText}>
+              Downloads are paused. The next one needs about{' '}
+              {formatFileSize(storageHold.requiredBytes)} but only{' '}
+              {formatFileSize(storageHold.freeBytes)} is free.
+            </Text>
+            <View style={styles.storageBannerActions}>
+              <TouchableOpacity
+                style={[
+                  styles.cancelButton,
+                  { borderColor: theme.colors.secondary },
+                ]}
+                onPress={() => navigation.navigate(ScreenNames.Storage as never)}
+              >
+                <Text
+                  style={[
+                    styles.cancelButtonText,
+                    { color: theme.colors.secondary },
+                  ]}
+                >
+                  Free Up Space
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.cancelButton, { borderColor: theme.colors.border }]}
+                onPress={recheckStorage}
+              >
+                <Text
+                  style={[styles.cancelButtonText, { color: theme.colors.text }]}
+                >
+                  Try Again
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {(historyTotal > 0 || hasHistoryFilters) && renderHistoryControls()}
+
         <View style={styles.listContainer}>
           {sections.length > 0 ? (
             <SectionList
@@ -485,7 +881,13 @@ const DownloadsScreen: React.FC = () => {
               updateCellsBatchingPeriod={200}
               removeClippedSubviews
               stickySectionHeadersEnabled={false}
+              onEndReached={loadMoreHistory}
+              onEndReachedThreshold={0.5}
             />
+          ) : hasHistoryFilters ? (
+            <Text style={styles.noResultsText}>
+              No downloads match your filters
+            </Text>
           ) : (
             renderEmptyState()
           )}
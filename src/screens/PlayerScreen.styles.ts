@@ -0,0 +1,147 @@
+import { StyleSheet } from 'react-native';
+import { Theme } from '../types/theme';
+import { moderateScale as ms } from '../utils/responsive';
+
+export const getPlayerScreenStyles = (theme: Theme) => {
+  const isDark = theme.mode === 'dark';
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    safeArea: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    headerTop: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    backButton: {
+      padding: 4,
+      marginLeft: -4,
+    },
+    headerInfo: {
+      flex: 1,
+    },
+    headerTitle: {
+      fontSize: ms(17),
+      fontWeight: '700',
+      color: theme.colors.text,
+    },
+    headerSubtitle: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    videoPlayer: {
+      width: '100%',
+      aspectRatio: 16 / 9,
+      backgroundColor: '#000000',
+    },
+    artwork: {
+      width: '100%',
+      aspectRatio: 16 / 9,
+      backgroundColor: theme.colors.surface,
+    },
+    audioPlayer: {
+      width: '100%',
+      height: 96,
+      backgroundColor: theme.colors.surface,
+    },
+    playerPlaceholder: {
+      width: '100%',
+      aspectRatio: 16 / 9,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingHorizontal: 24,
+      backgroundColor: theme.colors.surface,
+    },
+    errorText: {
+      fontSize: ms(13),
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+      lineHeight: ms(19),
+    },
+    content: {
+      flex: 1,
+      paddingHorizontal: 16,
+    },
+    resumeText: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+      marginTop: 12,
+    },
+    section: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: 12,
+      padding: 14,
+      marginTop: 12,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    sectionTitle: {
+      fontSize: ms(15),
+      fontWeight: '600',
+      color: theme.colors.text,
+      marginBottom: 10,
+    },
+    sectionDescription: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+      lineHeight: ms(17),
+      marginTop: 10,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    optionChip: {
+      minWidth: 44,
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: isDark ? theme.colors.background : '#FFFFFF',
+      alignItems: 'center',
+    },
+    optionChipSelected: {
+      backgroundColor: theme.colors.secondary,
+      borderColor: theme.colors.secondary,
+    },
+    optionChipText: {
+      fontSize: ms(13),
+      fontWeight: '600',
+      color: theme.colors.text,
+    },
+    optionChipTextSelected: {
+      color: '#fff',
+    },
+    secondaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      marginTop: 16,
+      marginBottom: 24,
+      paddingVertical: 10,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    secondaryButtonText: {
+      fontSize: ms(13),
+      fontWeight: '600',
+      color: theme.colors.text,
+    },
+  });
+};
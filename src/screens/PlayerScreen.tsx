@@ -0,0 +1,367 @@
+import React, {
+  useMemo,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  StatusBar,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import Video, {
+  type OnLoadData,
+  type OnProgressData,
+  type VideoRef,
+} from 'react-native-video';
+import { useTheme } from '../hooks/useTheme';
+import { useDialog } from '../hooks/useDialog';
+import { useScreenTracking } from '../hooks/useScreenTracking';
+import { ScreenNames } from '../constants/ScreenNames';
+import {
+  ChevronLeftIcon,
+  ExternalLinkIcon,
+} from '../components/icons/ModernIcons';
+import { storageService } from '../services/storageService';
+import {
+  PLAYBACK_RATES,
+  SLEEP_TIMER_MINUTES,
+  type PlaybackPosition,
+  type PlayerParams,
+} from '../types/player';
+import { formatCountdown, formatTimestamp } from '../utils/formatters';
+import { openFile } from '../utils/openFile';
+import { getPlayerScreenStyles } from './PlayerScreen.styles';
+
+type PlayerRouteProp = RouteProp<Record<string, PlayerParams>, string>;
+
+// Positions this close to either end start from the beginning next time
+const RESUME_MIN_SECONDS = 5;
+const RESUME_END_MARGIN_SECONDS = 10;
+// How often the position is saved while playing
+const SAVE_POSITION_INTERVAL_MS = 5000;
+
+// Plain paths need a scheme; SAF document uris play as they are
+const sourceUri = (filePath: string) =>
+  /^(content|file):\/\//.test(filePath) ? filePath : `file://${filePath}`;
+
+export const PlayerScreen: React.FC = () => {
+  const { theme, isDark } = useTheme();
+  const navigation = useNavigation<any>();
+  const route = useRoute<PlayerRouteProp>();
+  const { id, title, filePath, format, thumbnailUrl } = route.params;
+  const { showDialog } = useDialog();
+  const isAudio = format === 'mp3';
+
+  const videoRef = useRef<VideoRef>(null);
+  // Latest position, and when it was last saved
+  const position = useRef<PlaybackPosition | undefined>(undefined);
+  const savedAt = useRef(0);
+  const ended = useRef(false);
+
+  // Saved position and speed are loaded before the player is shown
+  const [resumeFrom, setResumeFrom] = useState<number | undefined>(undefined);
+  const [ready, setReady] = useState(false);
+  const [rate, setRate] = useState(1);
+  const [failed, setFailed] = useState(false);
+  const [sleepAt, setSleepAt] = useState<number | undefined>(undefined);
+  const [now, setNow] = useState(Date.now());
+
+  // Track screen view in Firebase Analytics
+  useScreenTracking(ScreenNames.Player);
+
+  const styles = useMemo(() => getPlayerScreenStyles(theme), [theme]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      storageService.getPlaybackPosition(id),
+      storageService.getPlaybackRate(),
+    ]).then(([saved, savedRate]) => {
+      if (cancelled) return;
+      setResumeFrom(saved?.position);
+      setRate(savedRate);
+      setReady(true);
+    });
+    storageService.markDownloadWatched(id);
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  // Keep the position when leaving mid-way
+  useEffect(
+    () => () => {
+      if (!ended.current && position.current) {
+        storageService.setPlaybackPosition(id, position.current);
+      }
+    },
+    [id],
+  );
+
+  // Sleep timer: pause when it runs out, ticking the countdown meanwhile
+  useEffect(() => {
+    if (sleepAt === undefined) return;
+    const tick = setInterval(() => setNow(Date.now()), 15000);
+    const stop = setTimeout(() => {
+      console.log('😴 [PLAYER] Sleep timer ran out, pausing');
+      videoRef.current?.pause();
+      setSleepAt(undefined);
+    }, Math.max(0, sleepAt - Date.now()));
+    return () => {
+      clearInterval(tick);
+      clearTimeout(stop);
+    };
+  }, [sleepAt]);
+
+  const handleLoad = useCallback(
+    ({ duration }: OnLoadData) => {
+      const resume =
+        resumeFrom !== undefined &&
+        resumeFrom > RESUME_MIN_SECONDS &&
+        resumeFrom < duration - RESUME_END_MARGIN_SECONDS;
+      if (resume) {
+        console.log(`▶️ [PLAYER] Resuming ${id} at ${resumeFrom}s`);
+        videoRef.current?.seek(resumeFrom);
+      } else {
+        setResumeFrom(undefined);
+      }
+      position.current = {
+        position: resume ? resumeFrom! : 0,
+        duration,
+        updatedAt: Date.now(),
+      };
+    },
+    [id, resumeFrom],
+  );
+
+  const handleProgress = useCallback(
+    ({ currentTime }: OnProgressData) => {
+      if (!position.current) return;
+      position.current = {
+        ...position.current,
+        position: currentTime,
+        updatedAt: Date.now(),
+      };
+      if (Date.now() - savedAt.current >= SAVE_POSITION_INTERVAL_MS) {
+        savedAt.current = Date.now();
+        storageService.setPlaybackPosition(id, position.current);
+      }
+    },
+    [id],
+  );
+
+  const handleEnd = useCallback(() => {
+    // Finished: start from the beginning next time
+    ended.current = true;
+    storageService.setPlaybackPosition(id, undefined);
+  }, [id]);
+
+  const handleError = useCallback((error: unknown) => {
+    console.error('❌ [PLAYER] Playback failed:', error);
+    setFailed(true);
+  }, []);
+
+  const handleRate = useCallback((value: number) => {
+    setRate(value);
+    storageService.setPlaybackRate(value);
+  }, []);
+
+  const handleSleepTimer = useCallback((minutes?: number) => {
+    setNow(Date.now());
+    setSleepAt(minutes ? Date.now() + minutes * 60000 : undefined);
+  }, []);
+
+  const handleOpenExternal = useCallback(async () => {
+    try {
+      videoRef.current?.pause();
+      await openFile(filePath, { displayName: title });
+    } catch (error) {
+      console.error('❌ [PLAYER] Failed to open file externally:', error);
+      showDialog({
+        type: 'error',
+        title: 'Cannot Open File',
+        message: 'No other app on this device could open this file.',
+        buttons: [{ text: 'OK', style: 'default', onPress: () => { } }],
+        dismissible: true,
+      });
+    }
+  }, [filePath, title, showDialog]);
+
+  const renderPlayer = () => {
+    if (failed) {
+      return (
+        <View style={styles.playerPlaceholder}>
+          <Text style={styles.errorText}>
+            This file can't be played here. It may have been moved, or use a
+            format this device doesn't support. Try opening it in another app.
+          </Text>
+        </View>
+      );
+    }
+    if (!ready) return <View style={styles.playerPlaceholder} />;
+
+    const player = (
+      <Video
+        ref={videoRef}
+        source={{
+          uri: sourceUri(filePath),
+          metadata: { title, imageUri: thumbnailUrl },
+        }}
+        style={isAudio ? styles.audioPlayer : styles.videoPlayer}
+        controls
+        rate={rate}
+        resizeMode="contain"
+        // MP3s keep playing with the screen off or the app in the background
+        playInBackground={isAudio}
+        playWhenInactive={isAudio}
+        showNotificationControls={isAudio}
+        ignoreSilentSwitch="ignore"
+        onLoad={handleLoad}
+        onProgress={handleProgress}
+        onEnd={handleEnd}
+        onError={handleError}
+      />
+    );
+    if (!isAudio) return player;
+
+    return (
+      <>
+        {thumbnailUrl ? (
+          <Image
+            source={{ uri: thumbnailUrl }}
+            style={styles.artwork}
+            resizeMode="cover"
+          />
+        ) : null}
+        {player}
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={theme.colors.background}
+      />
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <View style={styles.headerTop}>
+            <TouchableOpacity
+              onPress={() => navigation.goBack()}
+              style={styles.backButton}
+              accessibilityLabel="Go back"
+            >
+              <ChevronLeftIcon
+                size={20}
+                color={theme.colors.text}
+                strokeWidth={2}
+              />
+            </TouchableOpacity>
+            <View style={styles.headerInfo}>
+              <Text style={styles.headerTitle} numberOfLines={1}>
+                {title}
+              </Text>
+              <Text style={styles.headerSubtitle}>
+                {format.toUpperCase()}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        {renderPlayer()}
+
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+        >
+          {resumeFrom !== undefined && (
+            <Text style={styles.resumeText}>
+              Resumed at {formatTimestamp(resumeFrom)}
+            </Text>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Playback Speed</Text>
+            <View style={styles.optionRow}>
+              {PLAYBACK_RATES.map(value => (
+                <TouchableOpacity
+                  key={value}
+                  style={[
+                    styles.optionChip,
+                    rate === value && styles.optionChipSelected,
+                  ]}
+                  onPress={() => handleRate(value)}
+                >
+                  <Text
+                    style={[
+                      styles.optionChipText,
+                      rate === value && styles.optionChipTextSelected,
+                    ]}
+                  >
+                    {value}×
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Sleep Timer</Text>
+            <View style={styles.optionRow}>
+              <TouchableOpacity
+                style={[
+                  styles.optionChip,
+                  sleepAt === undefined && styles.optionChipSelected,
+                ]}
+                onPress={() => handleSleepTimer()}
+              >
+                <Text
+                  style={[
+                    styles.optionChipText,
+                    sleepAt === undefined && styles.optionChipTextSelected,
+                  ]}
+                >
+                  Off
+                </Text>
+              </TouchableOpacity>
+              {SLEEP_TIMER_MINUTES.map(minutes => (
+                <TouchableOpacity
+                  key={minutes}
+                  style={styles.optionChip}
+                  onPress={() => handleSleepTimer(minutes)}
+                >
+                  <Text style={styles.optionChipText}>{minutes}m</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {sleepAt !== undefined && (
+              <Text style={styles.sectionDescription}>
+                Pausing in {formatCountdown(sleepAt - now)}
+              </Text>
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={handleOpenExternal}
+          >
+            <ExternalLinkIcon
+              size={16}
+              color={theme.colors.text}
+              strokeWidth={2}
+            />
+            <Text style={styles.secondaryButtonText}>Open in Another App</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+};
@@ -139,6 +139,74 @@ export const getSettingsScreenStyles = (theme: Theme) => {
       fontWeight: '600',
       color: isDark ? theme.colors.textSecondary : theme.colors.text,
     },
+    sectionDescription: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+      lineHeight: ms(17),
+      marginBottom: 10,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    optionChip: {
+      minWidth: 44,
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: isDark ? theme.colors.background : '#FFFFFF',
+      alignItems: 'center',
+    },
+    optionChipSelected: {
+      backgroundColor: theme.colors.secondary,
+      borderColor: theme.colors.secondary,
+    },
+    optionChipText: {
+      fontSize: ms(13),
+      fontWeight: '600',
+      color: theme.colors.text,
+    },
+    optionChipTextSelected: {
+      color: '#fff',
+    },
+    templateInput: {
+      backgroundColor: isDark ? theme.colors.background : '#F9F9F9',
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      borderRadius: 8,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontSize: ms(13),
+      color: theme.colors.text,
+      marginBottom: 8,
+    },
+    fieldLabel: {
+      fontSize: ms(12),
+      fontWeight: '500',
+      color: theme.colors.textSecondary,
+      marginTop: 12,
+      marginBottom: 6,
+    },
+    ruleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingVertical: 6,
+      gap: 8,
+    },
+    ruleText: {
+      flex: 1,
+      fontSize: ms(13),
+      color: theme.colors.text,
+    },
+    previewText: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+      marginTop: 8,
+    },
     infoBox: {
       backgroundColor: isDark ? theme.colors.background : '#F9F9F9',
       borderLeftWidth: 3,
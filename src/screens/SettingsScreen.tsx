@@ -1,4 +1,4 @@
-import React, { useMemo, useCallback } from 'react';
+import React, { useMemo, useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,20 +7,90 @@ import {
   ActivityIndicator,
   Platform,
   StatusBar,
+  TextInput,
 } from 'react-native';
 import { useWindowDimensions } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { useDownloadManager } from '../hooks/useDownloadManager';
+import { useDownloadQueue } from '../hooks/useDownloadQueue';
 import { useTheme } from '../hooks/useTheme';
 import { useDialog } from '../hooks/useDialog';
 import { useScreenTracking } from '../hooks/useScreenTracking';
 import { ScreenNames } from '../constants/ScreenNames';
-import { FolderIcon, ExternalLinkIcon, ChevronLeftIcon, SearchIcon } from '../components/icons/ModernIcons';
+import { FolderIcon, ExternalLinkIcon, ChevronLeftIcon, SearchIcon, DownloadIcon } from '../components/icons/ModernIcons';
+import {
+  MIN_CONCURRENT_DOWNLOADS,
+  MAX_CONCURRENT_DOWNLOADS,
+} from '../config/downloadConfig';
 import { openDirectory, DirectoryOpenResult } from '../utils/openFile';
+import { storageService } from '../services/storageService';
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  FILENAME_TOKENS,
+  renderFilenameTemplate,
+} from '../services/download/filename';
+import type { CollisionPolicy, FilenameTemplate } from '../types/filename';
+import {
+  DEFAULT_TAGGING_PREFERENCES,
+  type TaggableFormat,
+  type TaggingPreferences,
+} from '../types/tagging';
+import {
+  BANDWIDTH_LIMIT_OPTIONS_KBPS,
+  CELLULAR_LIMIT_OPTIONS_MB,
+  DEFAULT_NETWORK_POLICY,
+  type CellularPolicy,
+  type NetworkPolicy,
+} from '../types/network';
+import { DEFAULT_QUIET_HOURS, type QuietHours } from '../types/schedule';
+import { formatMinuteOfDay } from '../services/download/schedule';
+import { formatBandwidth, formatFolder } from '../utils/formatters';
+import type { FolderRule } from '../types/folders';
+import { describeFolderRule } from '../services/download/folderRules';
+import {
+  importLibraryFiles,
+  pruneLibraryEntries,
+  relinkLibraryEntries,
+  scanLibrary,
+  type LibraryScan,
+} from '../services/download/library';
+import DownloadLocationPicker from '../components/DownloadLocationPicker';
 import { getSettingsScreenStyles } from './SettingsScreen.styles';
 import RNFS from 'react-native-fs';
 
+const COLLISION_OPTIONS: { value: CollisionPolicy; label: string }[] = [
+  { value: 'number', label: 'Auto-number' },
+  { value: 'skip', label: 'Skip' },
+  { value: 'overwrite', label: 'Overwrite' },
+];
+
+const TAGGING_OPTIONS: { format: TaggableFormat; label: string }[] = [
+  { format: 'mp3', label: 'MP3 (ID3)' },
+  { format: 'mp4', label: 'MP4' },
+];
+
+const CELLULAR_OPTIONS: { value: CellularPolicy; label: string }[] = [
+  { value: 'allow', label: 'Always' },
+  { value: 'size_limit', label: 'Small files only' },
+  { value: 'wifi_only', label: 'Never (Wi-Fi only)' },
+];
+
+const RULE_FORMATS: FolderRule['format'][] = ['mp3', 'mp4', 'webm'];
+
+// Window edges offered for quiet hours, in minutes after midnight
+const QUIET_START_OPTIONS = [21, 22, 23, 0, 1].map(hour => hour * 60);
+const QUIET_END_OPTIONS = [5, 6, 7, 8, 9].map(hour => hour * 60);
+
+// Sample values for the filename preview
+const PREVIEW_VALUES = {
+  title: 'Never Gonna Give You Up',
+  channel: 'Rick Astley',
+  videoId: 'dQw4w9WgXcQ',
+  quality: '1080p',
+  index: 3,
+};
+
 export const SettingsScreen: React.FC = () => {
   const { theme, isDark } = useTheme();
   const navigation = useNavigation<any>();
@@ -33,10 +103,214 @@ export const SettingsScreen: React.FC = () => {
     resetDownloadPath,
     getDefaultDownloadPath,
   } = useDownloadManager();
+  const {
+    maxConcurrent,
+    setMaxConcurrent,
+    setNetworkPolicy,
+    setQuietHours,
+    setBandwidthLimit,
+    addFolderRule,
+    removeFolderRule,
+  } = useDownloadQueue();
+
+  const concurrentOptions = useMemo(
+    () =>
+      Array.from(
+        { length: MAX_CONCURRENT_DOWNLOADS - MIN_CONCURRENT_DOWNLOADS + 1 },
+        (_, i) => MIN_CONCURRENT_DOWNLOADS + i,
+      ),
+    [],
+  );
 
   // Track screen view in Firebase Analytics
   useScreenTracking(ScreenNames.Settings);
 
+  const [filenameTemplate, setFilenameTemplate] = useState<FilenameTemplate>(
+    DEFAULT_FILENAME_TEMPLATE,
+  );
+  const [templateDraft, setTemplateDraft] = useState(
+    DEFAULT_FILENAME_TEMPLATE.template,
+  );
+
+  const [taggingPreferences, setTaggingPreferences] =
+    useState<TaggingPreferences>(DEFAULT_TAGGING_PREFERENCES);
+  const [networkPolicy, setNetworkPolicyState] = useState<NetworkPolicy>(
+    DEFAULT_NETWORK_POLICY,
+  );
+  const [quietHours, setQuietHoursState] =
+    useState<QuietHours>(DEFAULT_QUIET_HOURS);
+  const [bandwidthLimit, setBandwidthLimitState] = useState(0);
+  const [folderRules, setFolderRules] = useState<FolderRule[]>([]);
+  // The rule being set up; its folder is picked last
+  const [ruleFormat, setRuleFormat] = useState<FolderRule['format']>();
+  const [ruleChannel, setRuleChannel] = useState('');
+  const [showRuleFolderPicker, setShowRuleFolderPicker] = useState(false);
+  const [libraryScan, setLibraryScan] = useState<LibraryScan | null>(null);
+  const [scanningLibrary, setScanningLibrary] = useState(false);
+
+  useEffect(() => {
+    storageService.getTaggingPreferences().then(setTaggingPreferences);
+    storageService.getNetworkPolicy().then(setNetworkPolicyState);
+    storageService.getQuietHours().then(setQuietHoursState);
+    storageService.getBandwidthLimit().then(setBandwidthLimitState);
+    storageService.getFolderRules().then(setFolderRules);
+    storageService.getFilenameTemplate().then(saved => {
+      if (saved) {
+        setFilenameTemplate(saved);
+        setTemplateDraft(saved.template);
+      }
+    });
+  }, []);
+
+  const saveFilenameTemplate = useCallback(
+    (update: Partial<FilenameTemplate>) => {
+      const next = { ...filenameTemplate, ...update };
+      next.template = next.template.trim() || DEFAULT_FILENAME_TEMPLATE.template;
+      setFilenameTemplate(next);
+      setTemplateDraft(next.template);
+      storageService.setFilenameTemplate(next).catch(() => {
+        showDialog({
+          type: 'error',
+          title: 'Error',
+          message: 'Failed to save the filename template.',
+          buttons: [{ text: 'OK', style: 'default', onPress: () => { } }],
+          dismissible: true,
+        });
+      });
+    },
+    [filenameTemplate, showDialog],
+  );
+
+  const toggleTagging = useCallback(
+    (format: TaggableFormat) => {
+      const next = { ...taggingPreferences, [format]: !taggingPreferences[format] };
+      setTaggingPreferences(next);
+      storageService.setTaggingPreferences(next).catch(() => {
+        setTaggingPreferences(taggingPreferences);
+        showDialog({
+          type: 'error',
+          title: 'Error',
+          message: 'Failed to save the tagging setting.',
+          buttons: [{ text: 'OK', style: 'default', onPress: () => { } }],
+          dismissible: true,
+        });
+      });
+    },
+    [taggingPreferences, showDialog],
+  );
+
+  // The queue applies the policy right away and persists it
+  const updateNetworkPolicy = useCallback(
+    (update: Partial<NetworkPolicy>) => {
+      const next = { ...networkPolicy, ...update };
+      setNetworkPolicyState(next);
+      setNetworkPolicy(next);
+    },
+    [networkPolicy, setNetworkPolicy],
+  );
+
+  const updateQuietHours = useCallback(
+    (update: Partial<QuietHours>) => {
+      const next = { ...quietHours, ...update };
+      setQuietHoursState(next);
+      setQuietHours(next);
+    },
+    [quietHours, setQuietHours],
+  );
+
+  const updateBandwidthLimit = useCallback(
+    (limitKBps: number) => {
+      setBandwidthLimitState(limitKBps);
+      setBandwidthLimit(limitKBps);
+    },
+    [setBandwidthLimit],
+  );
+
+  const showRuleError = useCallback(
+    (message: string) =>
+      showDialog({
+        type: 'error',
+        title: 'Folder Rule',
+        message,
+        buttons: [{ text: 'OK', style: 'default', onPress: () => { } }],
+        dismissible: true,
+      }),
+    [showDialog],
+  );
+
+  const startFolderRule = useCallback(() => {
+    if (!ruleFormat && !ruleChannel.trim()) {
+      showRuleError('Choose a format or enter a channel name first.');
+      return;
+    }
+    setShowRuleFolderPicker(true);
+  }, [ruleFormat, ruleChannel, showRuleError]);
+
+  // The queue checks the folder can be written to before keeping the rule
+  const saveFolderRule = useCallback(
+    async (folder: string) => {
+      setShowRuleFolderPicker(false);
+      try {
+        const rule = await addFolderRule({
+          format: ruleFormat,
+          channelName: ruleChannel,
+          folder,
+        });
+        setFolderRules(prev => [...prev, rule]);
+        setRuleFormat(undefined);
+        setRuleChannel('');
+      } catch (error: any) {
+        showRuleError(error?.message || 'Failed to save the folder rule.');
+      }
+    },
+    [addFolderRule, ruleFormat, ruleChannel, showRuleError],
+  );
+
+  const deleteFolderRule = useCallback(
+    (id: string) => {
+      setFolderRules(prev => prev.filter(rule => rule.id !== id));
+      removeFolderRule(id);
+    },
+    [removeFolderRule],
+  );
+
+  // Run a fix (or nothing), then scan again so the list shows what's left
+  const reconcileLibrary = useCallback(
+    async (fix?: (scan: LibraryScan) => Promise<void>) => {
+      setScanningLibrary(true);
+      try {
+        if (fix && libraryScan) await fix(libraryScan);
+        setLibraryScan(await scanLibrary());
+      } catch (error) {
+        console.error('❌ Library scan failed:', error);
+        showDialog({
+          type: 'error',
+          title: 'Library',
+          message: 'Failed to check the library. Please try again.',
+          buttons: [{ text: 'OK', style: 'default', onPress: () => { } }],
+          dismissible: true,
+        });
+      } finally {
+        setScanningLibrary(false);
+      }
+    },
+    [libraryScan, showDialog],
+  );
+
+  // Missing entries that weren't found elsewhere
+  const lostEntries = useMemo(
+    () =>
+      libraryScan?.missing.filter(
+        entry => !libraryScan.moved.some(pair => pair.entry === entry),
+      ) || [],
+    [libraryScan],
+  );
+
+  const filenamePreview = useMemo(
+    () => `${renderFilenameTemplate(templateDraft, PREVIEW_VALUES)}.mp4`,
+    [templateDraft],
+  );
+
   const handleChangeDownloadPath = useCallback(async () => {
     try {
       if (Platform.OS === 'android') {
@@ -386,10 +660,602 @@ export const SettingsScreen: React.FC = () => {
             </View>
           </View>
 
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <FolderIcon
+                size={20}
+                color={theme.colors.secondary}
+                strokeWidth={2}
+              />
+              <Text style={styles.sectionTitle}>Folder Rules</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Save some downloads somewhere else, like MP3s in a Podcasts
+              folder. The first matching rule wins; a folder picked for a
+              single download overrides them all.
+            </Text>
+            {folderRules.map(rule => (
+              <View key={rule.id} style={styles.ruleRow}>
+                <Text style={styles.ruleText} numberOfLines={2}>
+                  {describeFolderRule(rule)} → {formatFolder(rule.folder)}
+                </Text>
+                <TouchableOpacity
+                  style={styles.optionChip}
+                  onPress={() => deleteFolderRule(rule.id)}
+                  accessibilityLabel={`Remove the rule for ${describeFolderRule(rule)}`}
+                >
+                  <Text style={styles.optionChipText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
 
+            <Text style={styles.fieldLabel}>New rule: format</Text>
+            <View style={styles.optionRow}>
+              {RULE_FORMATS.map(format => {
+                const selected = format === ruleFormat;
+                return (
+                  <TouchableOpacity
+                    key={format}
+                    style={[
+                      styles.optionChip,
+                      selected && styles.optionChipSelected,
+                    ]}
+                    onPress={() => setRuleFormat(selected ? undefined : format)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        selected && styles.optionChipTextSelected,
+                      ]}
+                    >
+                      {format?.toUpperCase()}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.fieldLabel}>and/or channel</Text>
+            <TextInput
+              style={styles.templateInput}
+              value={ruleChannel}
+              onChangeText={setRuleChannel}
+              placeholder="Channel name"
+              placeholderTextColor={theme.colors.textSecondary}
+              autoCorrect={false}
+            />
+            <View style={styles.buttonGroup}>
+              <TouchableOpacity
+                style={[styles.button, styles.primaryButton]}
+                onPress={startFolderRule}
+              >
+                <FolderIcon size={16} color="#fff" strokeWidth={2} />
+                <Text style={styles.buttonText}>Choose Folder</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <FolderIcon
+                size={20}
+                color={theme.colors.secondary}
+                strokeWidth={2}
+              />
+              <Text style={styles.sectionTitle}>Library</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Find downloads whose files were moved or deleted in another app,
+              and files in your download folders that aren't listed. The
+              library is also checked each time the app starts. Storage Usage
+              shows what your downloads take up and helps free space.
+            </Text>
+            {libraryScan && (
+              <>
+                {libraryScan.moved.length > 0 && (
+                  <View style={styles.ruleRow}>
+                    <Text style={styles.ruleText}>
+                      {libraryScan.moved.length} moved files found
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.optionChip}
+                      onPress={() =>
+                        reconcileLibrary(scan => relinkLibraryEntries(scan.moved))
+                      }
+                      disabled={scanningLibrary}
+                    >
+                      <Text style={styles.optionChipText}>Relink</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {libraryScan.orphans.length > 0 && (
+                  <View style={styles.ruleRow}>
+                    <Text style={styles.ruleText}>
+                      {libraryScan.orphans.length} files not in your downloads
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.optionChip}
+                      onPress={() =>
+                        reconcileLibrary(scan => importLibraryFiles(scan.orphans))
+                      }
+                      disabled={scanningLibrary}
+                    >
+                      <Text style={styles.optionChipText}>Import</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {lostEntries.length > 0 && (
+                  <View style={styles.ruleRow}>
+                    <Text style={styles.ruleText}>
+                      {lostEntries.length} downloads whose file is gone
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.optionChip}
+                      onPress={() =>
+                        reconcileLibrary(() => pruneLibraryEntries(lostEntries))
+                      }
+                      disabled={scanningLibrary}
+                    >
+                      <Text style={styles.optionChipText}>Remove</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {libraryScan.missing.length === 0 &&
+                  libraryScan.orphans.length === 0 && (
+                    <Text style={styles.ruleText}>
+                      Everything matches your download folders.
+                    </Text>
+                  )}
+              </>
+            )}
+            <View style={styles.buttonGroup}>
+              <TouchableOpacity
+                style={[styles.button, styles.primaryButton]}
+                onPress={() => reconcileLibrary()}
+                disabled={scanningLibrary}
+              >
+                {scanningLibrary ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <>
+                    <SearchIcon size={16} color="#fff" strokeWidth={2} />
+                    <Text style={styles.buttonText}>Scan Library</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.secondaryButton]}
+                onPress={() => navigation.navigate(ScreenNames.Storage)}
+              >
+                <Text style={[styles.secondaryButtonText, { color: theme.colors.secondary }]}>
+                  Storage Usage
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <FolderIcon
+                size={20}
+                color={theme.colors.secondary}
+                strokeWidth={2}
+              />
+              <Text style={styles.sectionTitle}>Metadata Tags</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Write the title, channel, upload date, source link and thumbnail
+              artwork into saved files so music players show them.
+            </Text>
+            <View style={styles.optionRow}>
+              {TAGGING_OPTIONS.map(option => {
+                const enabled = taggingPreferences[option.format];
+                return (
+                  <TouchableOpacity
+                    key={option.format}
+                    style={[styles.optionChip, enabled && styles.optionChipSelected]}
+                    onPress={() => toggleTagging(option.format)}
+                    accessibilityLabel={`${enabled ? 'Disable' : 'Enable'} tagging for ${option.format} files`}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        enabled && styles.optionChipTextSelected,
+                      ]}
+                    >
+                      {option.label}: {enabled ? 'On' : 'Off'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <DownloadIcon
+                size={20}
+                color={theme.colors.secondary}
+                strokeWidth={2}
+              />
+              <Text style={styles.sectionTitle}>Simultaneous Downloads</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              How many queued downloads run at the same time. Higher values
+              finish playlists and albums faster on good connections.
+            </Text>
+            <View style={styles.optionRow}>
+              {concurrentOptions.map(count => {
+                const selected = count === maxConcurrent;
+                return (
+                  <TouchableOpacity
+                    key={count}
+                    style={[styles.optionChip, selected && styles.optionChipSelected]}
+                    onPress={() => setMaxConcurrent(count)}
+                    accessibilityLabel={`Run ${count} downloads at once`}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        selected && styles.optionChipTextSelected,
+                      ]}
+                    >
+                      {count}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <DownloadIcon
+                size={20}
+                color={theme.colors.secondary}
+                strokeWidth={2}
+              />
+              <Text style={styles.sectionTitle}>Mobile Data</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              When downloads may use cellular data. Held downloads wait in the
+              queue and keep what they already fetched.
+            </Text>
+            <View style={styles.optionRow}>
+              {CELLULAR_OPTIONS.map(option => {
+                const selected = option.value === networkPolicy.cellular;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.optionChip, selected && styles.optionChipSelected]}
+                    onPress={() => updateNetworkPolicy({ cellular: option.value })}
+                    accessibilityLabel={`Cellular downloads: ${option.label}`}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        selected && styles.optionChipTextSelected,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {networkPolicy.cellular === 'size_limit' && (
+              <>
+                <Text style={styles.fieldLabel}>Largest file on cellular</Text>
+                <View style={styles.optionRow}>
+                  {CELLULAR_LIMIT_OPTIONS_MB.map(limit => {
+                    const selected = limit === networkPolicy.cellularLimitMB;
+                    return (
+                      <TouchableOpacity
+                        key={limit}
+                        style={[
+                          styles.optionChip,
+                          selected && styles.optionChipSelected,
+                        ]}
+                        onPress={() =>
+                          updateNetworkPolicy({ cellularLimitMB: limit })
+                        }
+                        accessibilityLabel={`Allow files up to ${limit} MB on cellular`}
+                      >
+                        <Text
+                          style={[
+                            styles.optionChipText,
+                            selected && styles.optionChipTextSelected,
+                          ]}
+                        >
+                          {limit} MB
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+            <Text style={styles.fieldLabel}>Metered networks and outages</Text>
+            <View style={styles.optionRow}>
+              <TouchableOpacity
+                style={[
+                  styles.optionChip,
+                  networkPolicy.pauseOnMetered && styles.optionChipSelected,
+                ]}
+                onPress={() =>
+                  updateNetworkPolicy({
+                    pauseOnMetered: !networkPolicy.pauseOnMetered,
+                  })
+                }
+                accessibilityLabel="Pause downloads on metered networks"
+              >
+                <Text
+                  style={[
+                    styles.optionChipText,
+                    networkPolicy.pauseOnMetered &&
+                      styles.optionChipTextSelected,
+                  ]}
+                >
+                  Pause on metered: {networkPolicy.pauseOnMetered ? 'On' : 'Off'}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.optionChip,
+                  networkPolicy.autoResume && styles.optionChipSelected,
+                ]}
+                onPress={() =>
+                  updateNetworkPolicy({ autoResume: !networkPolicy.autoResume })
+                }
+                accessibilityLabel="Resume held downloads automatically"
+              >
+                <Text
+                  style={[
+                    styles.optionChipText,
+                    networkPolicy.autoResume && styles.optionChipTextSelected,
+                  ]}
+                >
+                  Auto-resume: {networkPolicy.autoResume ? 'On' : 'Off'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <DownloadIcon
+                size={20}
+                color={theme.colors.secondary}
+                strokeWidth={2}
+              />
+              <Text style={styles.sectionTitle}>Quiet Hours</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              A nightly window for big downloads. Downloads set to start in
+              quiet hours wait for it, then run until they finish.
+            </Text>
+            <View style={styles.optionRow}>
+              <TouchableOpacity
+                style={[
+                  styles.optionChip,
+                  quietHours.enabled && styles.optionChipSelected,
+                ]}
+                onPress={() => updateQuietHours({ enabled: !quietHours.enabled })}
+                accessibilityLabel={`${quietHours.enabled ? 'Disable' : 'Enable'} quiet hours`}
+              >
+                <Text
+                  style={[
+                    styles.optionChipText,
+                    quietHours.enabled && styles.optionChipTextSelected,
+                  ]}
+                >
+                  Quiet hours: {quietHours.enabled ? 'On' : 'Off'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {quietHours.enabled && (
+              <>
+                <Text style={styles.fieldLabel}>Starts at</Text>
+                <View style={styles.optionRow}>
+                  {QUIET_START_OPTIONS.map(minutes => {
+                    const selected = minutes === quietHours.start;
+                    return (
+                      <TouchableOpacity
+                        key={minutes}
+                        style={[
+                          styles.optionChip,
+                          selected && styles.optionChipSelected,
+                        ]}
+                        onPress={() => updateQuietHours({ start: minutes })}
+                        accessibilityLabel={`Start quiet hours at ${formatMinuteOfDay(minutes)}`}
+                      >
+                        <Text
+                          style={[
+                            styles.optionChipText,
+                            selected && styles.optionChipTextSelected,
+                          ]}
+                        >
+                          {formatMinuteOfDay(minutes)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <Text style={styles.fieldLabel}>Ends at</Text>
+                <View style={styles.optionRow}>
+                  {QUIET_END_OPTIONS.map(minutes => {
+                    const selected = minutes === quietHours.end;
+                    return (
+                      <TouchableOpacity
+                        key={minutes}
+                        style={[
+                          styles.optionChip,
+                          selected && styles.optionChipSelected,
+                        ]}
+                        onPress={() => updateQuietHours({ end: minutes })}
+                        accessibilityLabel={`End quiet hours at ${formatMinuteOfDay(minutes)}`}
+                      >
+                        <Text
+                          style={[
+                            styles.optionChipText,
+                            selected && styles.optionChipTextSelected,
+                          ]}
+                        >
+                          {formatMinuteOfDay(minutes)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <DownloadIcon
+                size={20}
+                color={theme.colors.secondary}
+                strokeWidth={2}
+              />
+              <Text style={styles.sectionTitle}>Speed Limit</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Caps the combined speed of all downloads so video calls and
+              browsing stay usable. A download can set its own limit instead.
+            </Text>
+            <View style={styles.optionRow}>
+              {BANDWIDTH_LIMIT_OPTIONS_KBPS.map(limit => {
+                const selected = limit === bandwidthLimit;
+                return (
+                  <TouchableOpacity
+                    key={limit}
+                    style={[
+                      styles.optionChip,
+                      selected && styles.optionChipSelected,
+                    ]}
+                    onPress={() => updateBandwidthLimit(limit)}
+                    accessibilityLabel={
+                      limit
+                        ? `Limit download speed to ${formatBandwidth(limit)}`
+                        : 'No download speed limit'
+                    }
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        selected && styles.optionChipTextSelected,
+                      ]}
+                    >
+                      {formatBandwidth(limit)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <FolderIcon
+                size={20}
+                color={theme.colors.secondary}
+                strokeWidth={2}
+              />
+              <Text style={styles.sectionTitle}>File Names</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Template for saved files. Tap a token to add it.
+            </Text>
+            <TextInput
+              style={styles.templateInput}
+              value={templateDraft}
+              onChangeText={setTemplateDraft}
+              onEndEditing={() => saveFilenameTemplate({ template: templateDraft })}
+              placeholder={DEFAULT_FILENAME_TEMPLATE.template}
+              placeholderTextColor={theme.colors.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <View style={styles.optionRow}>
+              {FILENAME_TOKENS.map(token => (
+                <TouchableOpacity
+                  key={token}
+                  style={styles.optionChip}
+                  onPress={() =>
+                    saveFilenameTemplate({
+                      template: `${templateDraft}{${token}}`,
+                    })
+                  }
+                  accessibilityLabel={`Add ${token} to the filename template`}
+                >
+                  <Text style={styles.optionChipText}>{`{${token}}`}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.previewText} numberOfLines={2}>
+              Example: {filenamePreview}
+            </Text>
+
+            <Text style={styles.fieldLabel}>If the file already exists</Text>
+            <View style={styles.optionRow}>
+              {COLLISION_OPTIONS.map(option => {
+                const selected =
+                  option.value === filenameTemplate.collisionPolicy;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.optionChip, selected && styles.optionChipSelected]}
+                    onPress={() =>
+                      saveFilenameTemplate({ collisionPolicy: option.value })
+                    }
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        selected && styles.optionChipTextSelected,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <DownloadIcon
+                size={20}
+                color={theme.colors.secondary}
+                strokeWidth={2}
+              />
+              <Text style={styles.sectionTitle}>Channel Subscriptions</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Follow channels and their new uploads are queued automatically
+              with the format you choose.
+            </Text>
+            <View style={styles.buttonGroup}>
+              <TouchableOpacity
+                style={[styles.button, styles.secondaryButton]}
+                onPress={() => navigation.navigate(ScreenNames.Subscriptions)}
+              >
+                <Text style={[styles.secondaryButtonText, { color: theme.colors.secondary }]}>
+                  Manage Subscriptions
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
 
         </ScrollView>
       </SafeAreaView>
+
+      <DownloadLocationPicker
+        visible={showRuleFolderPicker}
+        onSelect={saveFolderRule}
+        onCancel={() => setShowRuleFolderPicker(false)}
+      />
     </View>
   );
 };
@@ -0,0 +1,145 @@
+import { StyleSheet } from 'react-native';
+import { Theme } from '../types/theme';
+import { moderateScale as ms } from '../utils/responsive';
+
+export const getStorageScreenStyles = (theme: Theme) => {
+  const isDark = theme.mode === 'dark';
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    safeArea: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    headerTop: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    backButton: {
+      padding: 4,
+      marginLeft: -4,
+    },
+    headerInfo: {
+      flex: 1,
+    },
+    headerTitle: {
+      fontSize: ms(22),
+      fontWeight: '700',
+      color: theme.colors.text,
+    },
+    headerSubtitle: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    content: {
+      flex: 1,
+      paddingHorizontal: 16,
+    },
+    section: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: 12,
+      padding: 14,
+      marginTop: 12,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    sectionTitle: {
+      fontSize: ms(15),
+      fontWeight: '600',
+      color: theme.colors.text,
+      marginBottom: 10,
+    },
+    sectionDescription: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+      lineHeight: ms(17),
+      marginBottom: 12,
+    },
+    totalText: {
+      fontSize: ms(26),
+      fontWeight: '700',
+      color: theme.colors.text,
+    },
+    totalMeta: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+      marginTop: 4,
+    },
+    usageRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingVertical: 6,
+      gap: 8,
+    },
+    usageLabel: {
+      flex: 1,
+      fontSize: ms(13),
+      color: theme.colors.text,
+    },
+    usageValue: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+    },
+    usageBar: {
+      height: 4,
+      borderRadius: 2,
+      backgroundColor: theme.colors.border,
+      overflow: 'hidden',
+    },
+    usageBarFill: {
+      height: 4,
+      borderRadius: 2,
+      backgroundColor: theme.colors.secondary,
+    },
+    primaryButton: {
+      backgroundColor: theme.colors.secondary,
+      paddingVertical: 10,
+      paddingHorizontal: 14,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    primaryButtonDisabled: {
+      opacity: 0.4,
+    },
+    primaryButtonText: {
+      color: '#FFFFFF',
+      fontSize: ms(13),
+      fontWeight: '600',
+    },
+    deleteChip: {
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.error,
+      backgroundColor: isDark ? theme.colors.background : '#FFFFFF',
+    },
+    deleteChipText: {
+      fontSize: ms(12),
+      fontWeight: '600',
+      color: theme.colors.error,
+    },
+    loading: {
+      marginTop: 24,
+    },
+    emptyText: {
+      fontSize: ms(13),
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+      marginTop: 24,
+      lineHeight: ms(19),
+    },
+  });
+};
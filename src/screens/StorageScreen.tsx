@@ -0,0 +1,281 @@
+import React, { useMemo, useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  StatusBar,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { useTheme } from '../hooks/useTheme';
+import { useDialog } from '../hooks/useDialog';
+import { useDownloadQueue } from '../hooks/useDownloadQueue';
+import { useScreenTracking } from '../hooks/useScreenTracking';
+import { ScreenNames } from '../constants/ScreenNames';
+import { ChevronLeftIcon } from '../components/icons/ModernIcons';
+import {
+  CLEANUP_RULES,
+  cleanTempFiles,
+  deleteDownloadFiles,
+  entriesForCleanupRule,
+  getStorageUsage,
+  type CleanupRule,
+  type StorageUsage,
+  type UsageGroup,
+} from '../services/download/storageUsage';
+import { formatFileSize } from '../utils/formatters';
+import { getStorageScreenStyles } from './StorageScreen.styles';
+
+// Channels past this many are left off the list
+const MAX_CHANNELS = 8;
+
+const describeFiles = (count: number, bytes: number) =>
+  `${count} ${count === 1 ? 'file' : 'files'} · ${formatFileSize(bytes)}`;
+
+export const StorageScreen: React.FC = () => {
+  const { theme, isDark } = useTheme();
+  const navigation = useNavigation<any>();
+  const { showDialog } = useDialog();
+  const { activeDownloads, queuedDownloads, pausedDownloads } =
+    useDownloadQueue();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Track screen view in Firebase Analytics
+  useScreenTracking(ScreenNames.Storage);
+
+  const styles = useMemo(() => getStorageScreenStyles(theme), [theme]);
+
+  const refresh = useCallback(async () => {
+    setUsage(await getStorageUsage());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const showResult = useCallback(
+    (title: string, message: string) =>
+      showDialog({
+        type: 'success',
+        title,
+        message,
+        buttons: [{ text: 'OK', style: 'default', onPress: () => { } }],
+        dismissible: true,
+      }),
+    [showDialog],
+  );
+
+  const handleCleanTemp = useCallback(async () => {
+    setBusy(true);
+    try {
+      // Paused direct-stream jobs resume from their partial files
+      const keep = [...activeDownloads, ...queuedDownloads, ...pausedDownloads]
+        .map(job => job.id);
+      const freed = await cleanTempFiles(keep);
+      await refresh();
+      showResult(
+        'Temp Files Cleaned',
+        freed.files > 0
+          ? `Freed ${formatFileSize(freed.bytes)} from ${freed.files} leftover files.`
+          : 'The remaining temp files belong to downloads in progress.',
+      );
+    } finally {
+      setBusy(false);
+    }
+  }, [activeDownloads, queuedDownloads, pausedDownloads, refresh, showResult]);
+
+  const handleCleanupRule = useCallback(
+    (rule: CleanupRule) => {
+      if (!usage) return;
+      const entries = entriesForCleanupRule(usage.entries, rule);
+      const bytes = entries.reduce((total, e) => total + (e.fileSize ?? 0), 0);
+      showDialog({
+        type: 'warning',
+        title: 'Delete Downloads',
+        message: `Delete ${describeFiles(entries.length, bytes)}? This removes the files from your device.`,
+        buttons: [
+          { text: 'Cancel', style: 'cancel', onPress: () => { } },
+          {
+            text: 'Delete',
+            style: 'destructive',
+            onPress: async () => {
+              setBusy(true);
+              try {
+                const freed = await deleteDownloadFiles(entries);
+                await refresh();
+                showResult('Space Freed', `Freed ${formatFileSize(freed)}.`);
+              } finally {
+                setBusy(false);
+              }
+            },
+          },
+        ],
+        dismissible: true,
+      });
+    },
+    [usage, refresh, showDialog, showResult],
+  );
+
+  const renderGroups = (title: string, groups: UsageGroup[]) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {groups.map(group => (
+        <View key={group.label}>
+          <View style={styles.usageRow}>
+            <Text style={styles.usageLabel} numberOfLines={1}>
+              {group.label}
+            </Text>
+            <Text style={styles.usageValue}>
+              {describeFiles(group.count, group.bytes)}
+            </Text>
+          </View>
+          <View style={styles.usageBar}>
+            <View
+              style={[
+                styles.usageBarFill,
+                {
+                  width: `${usage!.totalBytes > 0
+                    ? (group.bytes / usage!.totalBytes) * 100
+                    : 0}%`,
+                },
+              ]}
+            />
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderContent = () => {
+    if (!usage) {
+      return (
+        <ActivityIndicator
+          color={theme.colors.secondary}
+          style={styles.loading}
+        />
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.section}>
+          <Text style={styles.totalText}>
+            {formatFileSize(usage.totalBytes)}
+          </Text>
+          <Text style={styles.totalMeta}>
+            Used by {usage.entries.length} downloads
+            {usage.freeBytes !== undefined &&
+              ` · ${formatFileSize(usage.freeBytes)} free on this device`}
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Temp Files</Text>
+          <Text style={styles.sectionDescription}>
+            {usage.tempFiles > 0
+              ? `${describeFiles(usage.tempFiles, usage.tempBytes)} left behind by failed or cancelled downloads.`
+              : 'No leftover files from failed or cancelled downloads.'}
+          </Text>
+          <TouchableOpacity
+            style={[
+              styles.primaryButton,
+              (busy || usage.tempFiles === 0) && styles.primaryButtonDisabled,
+            ]}
+            onPress={handleCleanTemp}
+            disabled={busy || usage.tempFiles === 0}
+          >
+            <Text style={styles.primaryButtonText}>Clean Temp Files</Text>
+          </TouchableOpacity>
+        </View>
+
+        {usage.entries.length === 0 ? (
+          <Text style={styles.emptyText}>No downloads saved yet.</Text>
+        ) : (
+          <>
+            {renderGroups('By Format', usage.byFormat)}
+            {renderGroups('By Channel', usage.byChannel.slice(0, MAX_CHANNELS))}
+            {renderGroups('By Age', usage.byAge)}
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Free Up Space</Text>
+              <Text style={styles.sectionDescription}>
+                Downloads count as watched once you open them from the app.
+              </Text>
+              {CLEANUP_RULES.map(rule => {
+                const entries = entriesForCleanupRule(usage.entries, rule);
+                const bytes = entries.reduce(
+                  (total, e) => total + (e.fileSize ?? 0),
+                  0,
+                );
+                return (
+                  <View key={rule.id} style={styles.usageRow}>
+                    <View style={styles.headerInfo}>
+                      <Text style={styles.usageLabel}>{rule.label}</Text>
+                      <Text style={styles.usageValue}>
+                        {describeFiles(entries.length, bytes)}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={[
+                        styles.deleteChip,
+                        (busy || entries.length === 0) &&
+                        styles.primaryButtonDisabled,
+                      ]}
+                      onPress={() => handleCleanupRule(rule)}
+                      disabled={busy || entries.length === 0}
+                      accessibilityLabel={`Delete ${rule.label}`}
+                    >
+                      <Text style={styles.deleteChipText}>Delete</Text>
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </View>
+          </>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={theme.colors.background}
+      />
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <View style={styles.headerTop}>
+            <TouchableOpacity
+              onPress={() => navigation.goBack()}
+              style={styles.backButton}
+              accessibilityLabel="Go back"
+            >
+              <ChevronLeftIcon
+                size={20}
+                color={theme.colors.text}
+                strokeWidth={2}
+              />
+            </TouchableOpacity>
+            <View style={styles.headerInfo}>
+              <Text style={styles.headerTitle}>Storage</Text>
+              <Text style={styles.headerSubtitle}>
+                Space used by your downloads
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+        >
+          {renderContent()}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+};
@@ -0,0 +1,172 @@
+import { StyleSheet } from 'react-native';
+import { Theme } from '../types/theme';
+import { moderateScale as ms } from '../utils/responsive';
+
+export const getSubscriptionsScreenStyles = (theme: Theme) => {
+  const isDark = theme.mode === 'dark';
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    safeArea: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    headerTop: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    backButton: {
+      padding: 4,
+      marginLeft: -4,
+    },
+    headerInfo: {
+      flex: 1,
+    },
+    headerTitle: {
+      fontSize: ms(22),
+      fontWeight: '700',
+      color: theme.colors.text,
+    },
+    headerSubtitle: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    content: {
+      flex: 1,
+      paddingHorizontal: 16,
+    },
+    section: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: 12,
+      padding: 14,
+      marginTop: 12,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    sectionTitle: {
+      fontSize: ms(15),
+      fontWeight: '600',
+      color: theme.colors.text,
+      marginBottom: 10,
+    },
+    sectionDescription: {
+      fontSize: ms(12),
+      color: theme.colors.textSecondary,
+      lineHeight: ms(17),
+      marginBottom: 12,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    input: {
+      flex: 1,
+      backgroundColor: isDark ? theme.colors.background : '#F9F9F9',
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      borderRadius: 8,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontSize: ms(13),
+      color: theme.colors.text,
+    },
+    primaryButton: {
+      backgroundColor: theme.colors.secondary,
+      paddingVertical: 10,
+      paddingHorizontal: 14,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    primaryButtonText: {
+      color: '#FFFFFF',
+      fontSize: ms(13),
+      fontWeight: '600',
+    },
+    checkButton: {
+      marginTop: 12,
+      borderWidth: 1,
+      borderColor: theme.colors.secondary,
+      paddingVertical: 10,
+      borderRadius: 8,
+      alignItems: 'center',
+    },
+    checkButtonText: {
+      color: theme.colors.secondary,
+      fontSize: ms(13),
+      fontWeight: '600',
+    },
+    channelHeader: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      justifyContent: 'space-between',
+      gap: 8,
+      marginBottom: 10,
+    },
+    channelName: {
+      fontSize: ms(15),
+      fontWeight: '600',
+      color: theme.colors.text,
+    },
+    channelMeta: {
+      fontSize: ms(11),
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    removeText: {
+      fontSize: ms(13),
+      fontWeight: '600',
+      color: theme.colors.error,
+    },
+    ruleLabel: {
+      fontSize: ms(12),
+      fontWeight: '500',
+      color: theme.colors.textSecondary,
+      marginTop: 8,
+      marginBottom: 6,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    optionChip: {
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: isDark ? theme.colors.background : '#FFFFFF',
+    },
+    optionChipSelected: {
+      backgroundColor: theme.colors.secondary,
+      borderColor: theme.colors.secondary,
+    },
+    optionChipText: {
+      fontSize: ms(12),
+      fontWeight: '600',
+      color: theme.colors.text,
+    },
+    optionChipTextSelected: {
+      color: '#FFFFFF',
+    },
+    emptyText: {
+      fontSize: ms(13),
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+      marginTop: 24,
+      lineHeight: ms(19),
+    },
+  });
+};
@@ -0,0 +1,284 @@
+import React, { useMemo, useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  StatusBar,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { useTheme } from '../hooks/useTheme';
+import { useDialog } from '../hooks/useDialog';
+import { useSubscriptions } from '../hooks/useSubscriptions';
+import { useScreenTracking } from '../hooks/useScreenTracking';
+import { ScreenNames } from '../constants/ScreenNames';
+import { ChevronLeftIcon } from '../components/icons/ModernIcons';
+import type {
+  ChannelSubscription,
+  SubscriptionFormat,
+} from '../types/subscription';
+import type { VideoQuality } from '../types/video';
+import { getSubscriptionsScreenStyles } from './SubscriptionsScreen.styles';
+
+const FORMATS: SubscriptionFormat[] = ['mp3', 'mp4', 'webm'];
+const QUALITIES: VideoQuality[] = ['360p', '480p', '720p', '1080p'];
+const BITRATE_OPTIONS = ['128k', '192k', '256k', '320k'];
+
+// Accepts a bare channel id or a youtube.com/channel/<id> URL
+const parseChannelId = (input: string): string | null => {
+  const trimmed = input.trim();
+  const urlMatch = trimmed.match(/channel\/(UC[\w-]{22})/);
+  if (urlMatch) return urlMatch[1];
+  return /^UC[\w-]{22}$/.test(trimmed) ? trimmed : null;
+};
+
+const formatLastChecked = (timestamp?: number): string =>
+  timestamp
+    ? `Last checked ${new Date(timestamp).toLocaleString()}`
+    : 'Not checked yet';
+
+export const SubscriptionsScreen: React.FC = () => {
+  const { theme, isDark } = useTheme();
+  const navigation = useNavigation<any>();
+  const { showDialog } = useDialog();
+  const { subscriptions, follow, unfollow, updateRule, checkNow } =
+    useSubscriptions();
+  const [channelInput, setChannelInput] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  // Track screen view in Firebase Analytics
+  useScreenTracking(ScreenNames.Subscriptions);
+
+  const styles = useMemo(() => getSubscriptionsScreenStyles(theme), [theme]);
+
+  const handleAdd = useCallback(async () => {
+    const channelId = parseChannelId(channelInput);
+    if (!channelId) {
+      showDialog({
+        type: 'error',
+        title: 'Invalid Channel',
+        message:
+          'Enter a channel ID (starts with "UC") or a youtube.com/channel/ URL. You can also follow a channel from any of its videos.',
+        buttons: [{ text: 'OK', style: 'default', onPress: () => { } }],
+        dismissible: true,
+      });
+      return;
+    }
+    await follow(channelId, channelId);
+    setChannelInput('');
+  }, [channelInput, follow, showDialog]);
+
+  const handleCheckNow = useCallback(async () => {
+    setChecking(true);
+    try {
+      const queued = await checkNow();
+      showDialog({
+        type: 'success',
+        title: 'Check Complete',
+        message:
+          queued > 0
+            ? `${queued} new ${queued === 1 ? 'upload was' : 'uploads were'} added to the download queue.`
+            : 'No new uploads found.',
+        buttons: [{ text: 'OK', style: 'default', onPress: () => { } }],
+        dismissible: true,
+      });
+    } finally {
+      setChecking(false);
+    }
+  }, [checkNow, showDialog]);
+
+  const handleRemove = useCallback(
+    (sub: ChannelSubscription) => {
+      showDialog({
+        type: 'warning',
+        title: 'Unfollow Channel',
+        message: `Stop downloading new uploads from ${sub.channelName}?`,
+        buttons: [
+          { text: 'Cancel', style: 'cancel', onPress: () => { } },
+          {
+            text: 'Unfollow',
+            style: 'destructive',
+            onPress: () => unfollow(sub.channelId),
+          },
+        ],
+        dismissible: true,
+      });
+    },
+    [showDialog, unfollow],
+  );
+
+  const renderChips = <T extends string>(
+    options: T[],
+    selected: T | undefined,
+    onSelect: (value: T) => void,
+  ) => (
+    <View style={styles.optionRow}>
+      {options.map(option => {
+        const isSelected = option === selected;
+        return (
+          <TouchableOpacity
+            key={option}
+            style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+            onPress={() => onSelect(option)}
+          >
+            <Text
+              style={[
+                styles.optionChipText,
+                isSelected && styles.optionChipTextSelected,
+              ]}
+            >
+              {option.toUpperCase()}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderSubscription = (sub: ChannelSubscription) => (
+    <View key={sub.channelId} style={styles.section}>
+      <View style={styles.channelHeader}>
+        <View style={styles.headerInfo}>
+          <Text style={styles.channelName} numberOfLines={1}>
+            {sub.channelName}
+          </Text>
+          <Text style={styles.channelMeta}>
+            {formatLastChecked(sub.lastCheckedAt)}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => handleRemove(sub)}>
+          <Text style={styles.removeText}>Unfollow</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.ruleLabel}>Format</Text>
+      {renderChips(FORMATS, sub.format, format =>
+        updateRule(sub.channelId, {
+          format,
+          quality:
+            format === 'mp3'
+              ? 'audio_only'
+              : sub.quality === 'audio_only'
+                ? '720p'
+                : sub.quality,
+        }),
+      )}
+
+      {sub.format === 'mp3' ? (
+        <>
+          <Text style={styles.ruleLabel}>Bitrate</Text>
+          {renderChips(BITRATE_OPTIONS, sub.bitRate || '320k', bitRate =>
+            updateRule(sub.channelId, { bitRate }),
+          )}
+        </>
+      ) : (
+        <>
+          <Text style={styles.ruleLabel}>Quality</Text>
+          {renderChips(QUALITIES, sub.quality, quality =>
+            updateRule(sub.channelId, { quality }),
+          )}
+        </>
+      )}
+
+      <Text style={styles.ruleLabel}>Only titles containing (optional)</Text>
+      <TextInput
+        style={styles.input}
+        defaultValue={sub.keyword}
+        placeholder="e.g. podcast"
+        placeholderTextColor={theme.colors.textSecondary}
+        autoCapitalize="none"
+        autoCorrect={false}
+        onEndEditing={e =>
+          updateRule(sub.channelId, { keyword: e.nativeEvent.text.trim() })
+        }
+      />
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={theme.colors.background}
+      />
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <View style={styles.headerTop}>
+            <TouchableOpacity
+              onPress={() => navigation.goBack()}
+              style={styles.backButton}
+              accessibilityLabel="Go back"
+            >
+              <ChevronLeftIcon
+                size={20}
+                color={theme.colors.text}
+                strokeWidth={2}
+              />
+            </TouchableOpacity>
+            <View style={styles.headerInfo}>
+              <Text style={styles.headerTitle}>Subscriptions</Text>
+              <Text style={styles.headerSubtitle}>
+                New uploads from these channels download automatically
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Follow a Channel</Text>
+            <Text style={styles.sectionDescription}>
+              Only videos uploaded after you follow a channel are queued.
+              Videos you already downloaded are skipped.
+            </Text>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.input}
+                value={channelInput}
+                onChangeText={setChannelInput}
+                placeholder="Channel ID or youtube.com/channel/..."
+                placeholderTextColor={theme.colors.textSecondary}
+                autoCapitalize="none"
+                autoCorrect={false}
+                onSubmitEditing={handleAdd}
+                returnKeyType="done"
+              />
+              <TouchableOpacity style={styles.primaryButton} onPress={handleAdd}>
+                <Text style={styles.primaryButtonText}>Follow</Text>
+              </TouchableOpacity>
+            </View>
+            {subscriptions.length > 0 && (
+              <TouchableOpacity
+                style={styles.checkButton}
+                onPress={handleCheckNow}
+                disabled={checking}
+              >
+                {checking ? (
+                  <ActivityIndicator color={theme.colors.secondary} size="small" />
+                ) : (
+                  <Text style={styles.checkButtonText}>Check for New Uploads</Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {subscriptions.length === 0 ? (
+            <Text style={styles.emptyText}>
+              You are not following any channels yet.{'\n'}
+              Tap "Follow Channel" on a video to get started.
+            </Text>
+          ) : (
+            subscriptions.map(renderSubscription)
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+};
@@ -13,10 +13,12 @@ import { useRoute, RouteProp, useNavigation } from '@react-navigation/native';
 import { YoutubeView, useYouTubePlayer, useYouTubeEvent } from 'react-native-youtube-bridge';
 import { Download, ChevronLeft } from 'lucide-react-native';
 import { useTheme } from '../hooks/useTheme';
-import { Video } from '../types/video';
+import { ClipRange, Video } from '../types/video';
+import { formatTimestamp } from '../utils/formatters';
 import DownloadDrawer from '../components/DownloadDrawer';
 import VideoResultCard from '../components/VideoResultCard';
 import { useScreenTracking } from '../hooks/useScreenTracking';
+import { useSubscriptions } from '../hooks/useSubscriptions';
 import { ScreenNames } from '../constants/ScreenNames';
 import { AppBannerAd } from '../components/AppBannerAd';
 
@@ -57,7 +59,10 @@ const VideoViewerScreen: React.FC = () => {
   const insets = useSafeAreaInsets();
   const { video, youtubeUrl, relatedVideos: passedRelatedVideos } = route.params;
   const [downloadVisible, setDownloadVisible] = useState(false);
+  const { subscriptions, follow, unfollow } = useSubscriptions();
+  const isFollowing = subscriptions.some(s => s.channelId === video.channelId);
   const [isReady, setIsReady] = useState(false);
+  const [clip, setClip] = useState<ClipRange | null>(null);
 
   useScreenTracking(ScreenNames.VideoViewer);
   
@@ -98,6 +103,35 @@ const VideoViewerScreen: React.FC = () => {
   useYouTubeEvent(player, 'ready', () => setIsReady(true));
   useYouTubeEvent(player, 'error', (error: any) => console.error('YouTube player error:', error));
 
+  // Set a clip marker from the player position
+  const markClip = useCallback(
+    async (edge: keyof ClipRange) => {
+      const time = await player.getCurrentTime();
+      if (time === undefined) return;
+      const seconds = Math.floor(time);
+      setClip(prev => {
+        const next: ClipRange = { ...prev, [edge]: seconds };
+        // A marker placed past the other one replaces that one
+        if (
+          next.start !== undefined &&
+          next.end !== undefined &&
+          next.end <= next.start
+        ) {
+          delete next[edge === 'start' ? 'end' : 'start'];
+        }
+        return next;
+      });
+    },
+    [player],
+  );
+
+  const seekToMarker = useCallback(
+    (seconds?: number) => {
+      if (seconds !== undefined) player.seekTo(seconds, true);
+    },
+    [player],
+  );
+
 
   const styles = useMemo(
     () =>
@@ -183,6 +217,12 @@ const VideoViewerScreen: React.FC = () => {
           fontSize: 12,
           color: theme.colors.textSecondary,
         },
+        actionRow: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          marginTop: theme.spacing.md,
+          gap: theme.spacing.sm,
+        },
         downloadButton: {
           backgroundColor: theme.colors.primary,
           paddingHorizontal: theme.spacing.lg,
@@ -198,6 +238,49 @@ const VideoViewerScreen: React.FC = () => {
           fontSize: 14,
           fontWeight: '600',
         },
+        followButton: {
+          borderWidth: 1,
+          borderColor: theme.colors.border,
+          paddingHorizontal: theme.spacing.lg,
+          paddingVertical: theme.spacing.sm,
+          borderRadius: 24,
+        },
+        followButtonText: {
+          color: theme.colors.text,
+          fontSize: 14,
+          fontWeight: '600',
+        },
+        // Clip markers
+        clipRow: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          marginTop: theme.spacing.md,
+          gap: theme.spacing.sm,
+        },
+        clipButton: {
+          borderWidth: 1,
+          borderColor: theme.colors.border,
+          paddingHorizontal: theme.spacing.md,
+          paddingVertical: theme.spacing.xs,
+          borderRadius: 16,
+        },
+        clipButtonActive: {
+          borderColor: theme.colors.primary,
+        },
+        clipButtonText: {
+          color: theme.colors.text,
+          fontSize: 13,
+          fontWeight: '600',
+        },
+        clipClearText: {
+          color: theme.colors.textSecondary,
+          fontSize: 13,
+        },
+        clipHint: {
+          fontSize: 11,
+          color: theme.colors.textSecondary,
+          marginTop: theme.spacing.xs,
+        },
         // Related videos
         relatedSection: {
           flex: 1,
@@ -256,6 +339,7 @@ const VideoViewerScreen: React.FC = () => {
 
   useEffect(() => {
     setIsReady(false);
+    setClip(null);
   }, [video.id]);
 
   const handleRelatedVideoPress = useCallback((relatedVideo: Video) => {
@@ -318,6 +402,7 @@ const VideoViewerScreen: React.FC = () => {
         <DownloadDrawer
           visible={downloadVisible}
           video={video}
+          clip={clip ?? undefined}
           onClose={() => setDownloadVisible(false)}
         />
       </View>
@@ -392,15 +477,67 @@ const VideoViewerScreen: React.FC = () => {
             </View>
           </View>
           
-          {/* Download Button */}
-          <TouchableOpacity
-            style={[styles.downloadButton, { marginTop: theme.spacing.md }]}
-            onPress={() => setDownloadVisible(true)}
-            activeOpacity={0.8}
-          >
-            <Download size={18} color="#FFFFFF" />
-            <Text style={styles.downloadButtonText}>Download</Text>
-          </TouchableOpacity>
+          <View style={styles.actionRow}>
+            {/* Download Button */}
+            <TouchableOpacity
+              style={styles.downloadButton}
+              onPress={() => setDownloadVisible(true)}
+              activeOpacity={0.8}
+            >
+              <Download size={18} color="#FFFFFF" />
+              <Text style={styles.downloadButtonText}>Download</Text>
+            </TouchableOpacity>
+
+            {/* Follow channel: its new uploads get queued automatically */}
+            {!!video.channelId && (
+              <TouchableOpacity
+                style={styles.followButton}
+                onPress={() =>
+                  isFollowing
+                    ? unfollow(video.channelId)
+                    : follow(video.channelId, video.channelName)
+                }
+                activeOpacity={0.8}
+              >
+                <Text style={styles.followButtonText}>
+                  {isFollowing ? 'Following' : 'Follow Channel'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {/* Clip markers: download only part of the video */}
+          <View style={styles.clipRow}>
+            {(['start', 'end'] as const).map(edge => (
+              <TouchableOpacity
+                key={edge}
+                style={[
+                  styles.clipButton,
+                  clip?.[edge] !== undefined && styles.clipButtonActive,
+                ]}
+                onPress={() => markClip(edge)}
+                onLongPress={() => seekToMarker(clip?.[edge])}
+                disabled={!isReady}
+                activeOpacity={0.8}
+                accessibilityLabel={`Set clip ${edge} to the current position`}
+              >
+                <Text style={styles.clipButtonText}>
+                  {edge === 'start' ? 'Start' : 'End'}{' '}
+                  {clip?.[edge] !== undefined
+                    ? formatTimestamp(clip[edge]!)
+                    : '--:--'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            {clip && (
+              <TouchableOpacity onPress={() => setClip(null)} activeOpacity={0.7}>
+                <Text style={styles.clipClearText}>Clear</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <Text style={styles.clipHint}>
+            Tap to mark the current position, hold to jump back to it.
+          </Text>
         </View>
 
         {/* Related Videos */}
@@ -428,6 +565,7 @@ const VideoViewerScreen: React.FC = () => {
       <DownloadDrawer
         visible={downloadVisible}
         video={video}
+        clip={clip ?? undefined}
         onClose={() => setDownloadVisible(false)}
       />
     </View>
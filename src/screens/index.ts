@@ -5,6 +5,9 @@
 
 export { default as DownloadsScreen } from './DownloadsScreen';
 export { SettingsScreen } from './SettingsScreen';
+export { SubscriptionsScreen } from './SubscriptionsScreen';
+export { StorageScreen } from './StorageScreen';
+export { PlayerScreen } from './PlayerScreen';
 export { default as BrowseScreen } from './BrowseScreen';
 export { default as SplashScreen } from './SplashScreen';
 export { default as VideoViewerScreen } from './VideoViewerScreen';
@@ -3,9 +3,20 @@ import {
   SearchRequest,
   SearchResponse,
   ApiSearchResponse,
+  ApiPlaylistResponse,
+  ApiPlaylistItem,
+  PlaylistResponse,
+  ApiVideoDetailsResponse,
   Video,
 } from '../types/video';
+import type {
+  ApiCaptionTracksResponse,
+  CaptionTrack,
+} from '../types/subtitle';
+import type { DownloadProgressInfo } from '../types/progress';
+import type { ApiFormatsResponse, StreamFormat } from '../types/formats';
 import { mockSearchVideos } from './mockData';
+import { parseChapters } from '../utils/chapters';
 import { API_BASE_URL } from '../config/env';
 import { clientDownloadQueue } from './download/queueManager';
 import type { DownloadJob } from './download/queue';
@@ -14,9 +25,15 @@ import type { DownloadJob } from './download/queue';
 const BASE_URL = `${API_BASE_URL}/v2/api`;
 const USE_MOCK_DATA = false; // Using real API now
 const USE_TEST_DATA = false; // Use test data for load testing
+const PLAYLIST_PAGE_SIZE = 50; // YouTube's max page size for playlist items
+const MAX_PLAYLIST_ITEMS = 500; // Hard cap so a huge playlist can't flood the queue
+// Placeholder entries YouTube keeps in playlists for removed videos
+const UNAVAILABLE_PLAYLIST_TITLES = ['Deleted video', 'Private video'];
 
 class ApiClient {
   private client: AxiosInstance;
+  // A video's streams don't change while the app runs
+  private formatsCache: Map<string, Promise<StreamFormat[]>> = new Map();
 
   constructor() {
     this.client = axios.create({
@@ -90,6 +107,9 @@ class ApiClient {
       channelId: item.snippet.channelId,
       publishedAt: item.snippet.publishedAt,
       viewCount: this.parseViewCount(item.snippet.description), // Try to parse from description
+      // Search snippets are truncated, so chapters here are best effort
+      description: item.snippet.description,
+      chapters: parseChapters(item.snippet.description),
     }));
 
     return {
@@ -100,6 +120,33 @@ class ApiClient {
     };
   }
 
+  private transformPlaylistItem(item: ApiPlaylistItem): Video | null {
+    const videoId =
+      item.contentDetails?.videoId || item.snippet.resourceId?.videoId;
+    if (!videoId || UNAVAILABLE_PLAYLIST_TITLES.includes(item.snippet.title)) {
+      return null;
+    }
+
+    const { thumbnails } = item.snippet;
+    return {
+      id: videoId,
+      title: item.snippet.title,
+      thumbnailUrl:
+        thumbnails.medium?.url ||
+        thumbnails.high?.url ||
+        thumbnails.default?.url ||
+        '',
+      duration: 0, // Not part of the playlistItems resource
+      channelName:
+        item.snippet.videoOwnerChannelTitle || item.snippet.channelTitle,
+      channelId: item.snippet.videoOwnerChannelId || item.snippet.channelId,
+      publishedAt:
+        item.contentDetails?.videoPublishedAt || item.snippet.publishedAt,
+      description: item.snippet.description,
+      chapters: parseChapters(item.snippet.description),
+    };
+  }
+
   private parseDuration(description: string): number {
     // Try to extract duration from description or use a reasonable default
     // This is a fallback since YouTube search API doesn't provide duration
@@ -329,6 +376,186 @@ class ApiClient {
     }
   }
 
+  /**
+   * Resolve every video in a playlist by paging through its items.
+   * Deleted/private entries and duplicates are skipped; at most
+   * MAX_PLAYLIST_ITEMS videos are returned.
+   */
+  async getPlaylistVideos(
+    playlistId: string,
+    onPage?: (loadedCount: number) => void,
+  ): Promise<PlaylistResponse> {
+    const videos: Video[] = [];
+    const seenIds = new Set<string>();
+    const seenTokens = new Set<string>();
+    let title: string | undefined;
+    let nextPage = '';
+
+    try {
+      do {
+        const response: AxiosResponse<ApiPlaylistResponse> =
+          await this.client.post('/playlist-items', {
+            playlistId,
+            maxResults: PLAYLIST_PAGE_SIZE,
+            nextPage,
+          });
+
+        if (response.data.code !== 1009) {
+          throw new Error(response.data.message || 'API returned error code');
+        }
+
+        const { result } = response.data;
+        title = title || result.title;
+        for (const item of result.items) {
+          const video = this.transformPlaylistItem(item);
+          if (video && !seenIds.has(video.id)) {
+            seenIds.add(video.id);
+            videos.push(video);
+          }
+        }
+        onPage?.(videos.length);
+
+        // Stop on the last page, or if the server repeats a page token
+        seenTokens.add(nextPage);
+        nextPage = result.nextPage || '';
+      } while (
+        nextPage &&
+        !seenTokens.has(nextPage) &&
+        videos.length < MAX_PLAYLIST_ITEMS
+      );
+    } catch (error: any) {
+      console.error('Playlist fetch error:', error);
+      throw new Error(
+        error.response?.data?.message ||
+          error.message ||
+          'Failed to load playlist',
+      );
+    }
+
+    console.log(
+      `📃 Resolved playlist ${playlistId}: ${videos.length} videos`,
+    );
+    return {
+      playlistId,
+      title,
+      videos: videos.slice(0, MAX_PLAYLIST_ITEMS),
+    };
+  }
+
+  // Most recent uploads of a channel, newest first
+  async getChannelVideos(
+    channelId: string,
+    maxResults = 15,
+  ): Promise<Video[]> {
+    try {
+      const response: AxiosResponse<ApiSearchResponse> = await this.client.post(
+        '/channel-videos',
+        { channelId, maxResults },
+      );
+
+      if (response.data.code !== 1009) {
+        throw new Error(response.data.message || 'API returned error code');
+      }
+
+      return this.transformApiResponse(response.data).videos;
+    } catch (error: any) {
+      console.error('Channel videos error:', error);
+      throw new Error(
+        error.response?.data?.message ||
+          error.message ||
+          'Failed to load channel videos',
+      );
+    }
+  }
+
+  // Caption tracks the video offers, manual ones first
+  async getCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+    try {
+      const response: AxiosResponse<ApiCaptionTracksResponse> =
+        await this.client.post('/caption-tracks', { videoId });
+
+      if (response.data.code !== 1009) {
+        throw new Error(response.data.message || 'API returned error code');
+      }
+
+      return [...(response.data.result.tracks || [])].sort(
+        (a, b) => Number(a.isAutoGenerated) - Number(b.isAutoGenerated),
+      );
+    } catch (error: any) {
+      console.error('Caption tracks error:', error);
+      throw new Error(
+        error.response?.data?.message ||
+          error.message ||
+          'Failed to load captions',
+      );
+    }
+  }
+
+  // One video by id, with its full description (search snippets only carry
+  // the first lines) and the chapters parsed from it
+  async getVideoDetails(videoId: string): Promise<Video> {
+    try {
+      const response: AxiosResponse<ApiVideoDetailsResponse> =
+        await this.client.post('/video-details', { videoId });
+
+      if (response.data.code !== 1009) {
+        throw new Error(response.data.message || 'API returned error code');
+      }
+
+      const details = response.data.result;
+      return {
+        id: videoId,
+        title: details.title,
+        thumbnailUrl: details.thumbnailUrl,
+        duration: details.duration || 0,
+        channelName: details.channelTitle,
+        channelId: details.channelId,
+        publishedAt: details.publishedAt,
+        description: details.description,
+        chapters: parseChapters(details.description, details.duration),
+      };
+    } catch (error: any) {
+      console.error('Video details error:', error);
+      throw new Error(
+        error.response?.data?.message ||
+          error.message ||
+          'Failed to load video details',
+      );
+    }
+  }
+
+  // Streams the server can fetch for the video, with their exact sizes
+  getFormats(videoId: string): Promise<StreamFormat[]> {
+    const cached = this.formatsCache.get(videoId);
+    if (cached) return cached;
+
+    const request = this.fetchFormats(videoId);
+    this.formatsCache.set(videoId, request);
+    // Let a failed lookup be tried again
+    request.catch(() => this.formatsCache.delete(videoId));
+    return request;
+  }
+
+  private async fetchFormats(videoId: string): Promise<StreamFormat[]> {
+    try {
+      const response: AxiosResponse<ApiFormatsResponse> =
+        await this.client.post('/formats', { videoId });
+
+      if (response.data.code !== 1009) {
+        throw new Error(response.data.message || 'API returned error code');
+      }
+
+      return response.data.result.formats || [];
+    } catch (error: any) {
+      console.error('Formats error:', error);
+      throw new Error(
+        error.response?.data?.message ||
+          error.message ||
+          'Failed to load formats',
+      );
+    }
+  }
+
   async downloadVideo(
     videoId: string,
     format: 'mp3' | 'mp4' | 'webm',
@@ -336,7 +563,7 @@ class ApiClient {
     options?: {
       bitRate?: string;
       quality?: string;
-      onProgress?: (progress: number) => void;
+      onProgress?: (progress: DownloadProgressInfo) => void;
       onComplete?: (filePath: string, filename: string) => void;
       onError?: (error: string) => void;
       localDownloadId?: string;
@@ -0,0 +1,156 @@
+import RNFS from 'react-native-fs';
+
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const COPY_CHUNK_SIZE = 1024 * 1024; // 1 MB
+
+export function decodeBase64(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let out = 0;
+  for (const char of clean) {
+    buffer = ((buffer << 6) | BASE64_ALPHABET.indexOf(char)) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[out++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, out);
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+    out +=
+      BASE64_ALPHABET[(n >> 18) & 63] +
+      BASE64_ALPHABET[(n >> 12) & 63] +
+      (i + 1 < bytes.length ? BASE64_ALPHABET[(n >> 6) & 63] : '=') +
+      (i + 2 < bytes.length ? BASE64_ALPHABET[n & 63] : '=');
+  }
+  return out;
+}
+
+export function encodeUtf8(text: string): Uint8Array {
+  const out: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      out.push(code);
+    } else if (code < 0x800) {
+      out.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      out.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    } else {
+      out.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 63),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63),
+      );
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+// Latin-1 bytes, e.g. for MP4 box types such as "©nam"
+export const latin1 = (text: string): Uint8Array =>
+  Uint8Array.from(Array.from(text, c => c.charCodeAt(0) & 0xff));
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+}
+
+// Big-endian unsigned 32-bit integer at `at`
+export const readUint32 = (b: Uint8Array, at: number): number =>
+  ((b[at] << 24) >>> 0) + (b[at + 1] << 16) + (b[at + 2] << 8) + b[at + 3];
+
+export const readAscii = (b: Uint8Array, from: number, to: number): string =>
+  String.fromCharCode(...Array.from(b.subarray(from, to)));
+
+/**
+ * Bytes taken by the ID3v2 tag a file starts with, given its first 10 bytes:
+ * the header, the synchsafe-sized body and a footer when flagged. 0 when
+ * there's no tag.
+ */
+export function id3TagSize(head: Uint8Array): number {
+  if (head.length < 10 || readAscii(head, 0, 3) !== 'ID3') return 0;
+  return (
+    10 +
+    ((head[6] & 0x7f) << 21) +
+    ((head[7] & 0x7f) << 14) +
+    ((head[8] & 0x7f) << 7) +
+    (head[9] & 0x7f) +
+    (head[5] & 0x10 ? 10 : 0)
+  );
+}
+
+export function uint32Bytes(value: number): Uint8Array {
+  return Uint8Array.of(
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  );
+}
+
+export async function readBytes(
+  path: string,
+  position: number,
+  length: number,
+): Promise<Uint8Array> {
+  if (length <= 0) return new Uint8Array(0);
+  return decodeBase64(await RNFS.read(path, length, position, 'base64'));
+}
+
+// Append bytes [start, end) of one file to another, a chunk at a time
+export async function appendRange(
+  fromPath: string,
+  toPath: string,
+  start: number,
+  end: number,
+): Promise<void> {
+  for (let offset = start; offset < end; offset += COPY_CHUNK_SIZE) {
+    const len = Math.min(COPY_CHUNK_SIZE, end - offset);
+    const chunk = await RNFS.read(fromPath, len, offset, 'base64');
+    await RNFS.appendFile(toPath, chunk, 'base64');
+  }
+}
+
+export type FilePart = Uint8Array | { start: number; end: number };
+
+/**
+ * Replace `path` with the given parts: in-memory bytes, or byte ranges of the
+ * current file. Written to a sibling temp file first, so a failure part-way
+ * leaves the original untouched.
+ */
+export async function rewriteFile(
+  path: string,
+  parts: FilePart[],
+): Promise<void> {
+  const tempPath = `${path}.rewrite`;
+  try {
+    await RNFS.writeFile(tempPath, '', 'base64');
+    for (const part of parts) {
+      if (part instanceof Uint8Array) {
+        await RNFS.appendFile(tempPath, encodeBase64(part), 'base64');
+        continue;
+      }
+      await appendRange(path, tempPath, part.start, part.end);
+    }
+    await RNFS.unlink(path);
+    await RNFS.moveFile(tempPath, path);
+  } catch (error) {
+    await RNFS.unlink(tempPath).catch(() => { });
+    throw error;
+  }
+}
@@ -0,0 +1,172 @@
+import RNFS from 'react-native-fs';
+import type { Chapter } from '../../types/video';
+import { appendRange, id3TagSize, readAscii, readBytes } from './bytes';
+import { sanitizeFileName } from './filename';
+
+interface Mp3Frame {
+  length: number; // bytes, header included
+  duration: number; // seconds
+}
+
+const SCAN_CHUNK_SIZE = 1024 * 1024; // 1 MB
+const ID3V1_SIZE = 128;
+// Layer III bitrates (kbps) by header index; 0 is "free format", unsupported
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MPEG1_SAMPLE_RATES = [44100, 48000, 32000];
+// Encoders put a silent frame first that describes the whole file
+const INFO_FRAME_MARKERS = ['Xing', 'Info', 'VBRI'];
+
+// MPEG audio Layer III frame header at `at`, or null if there isn't one
+function parseFrameHeader(b: Uint8Array, at: number): Mp3Frame | null {
+  if (at + 4 > b.length || b[at] !== 0xff || (b[at + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+  const version = (b[at + 1] >> 3) & 3; // 3: MPEG-1, 2: MPEG-2, 0: MPEG-2.5
+  const layer = (b[at + 1] >> 1) & 3; // 1: Layer III
+  const bitrateIndex = b[at + 2] >> 4;
+  const rateIndex = (b[at + 2] >> 2) & 3;
+  if (
+    version === 1 ||
+    layer !== 1 ||
+    bitrateIndex === 0 ||
+    bitrateIndex === 15 ||
+    rateIndex === 3
+  ) {
+    return null;
+  }
+
+  const mpeg1 = version === 3;
+  const bitrate = (mpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000;
+  const sampleRate = MPEG1_SAMPLE_RATES[rateIndex] / (mpeg1 ? 1 : version === 2 ? 2 : 4);
+  const samples = mpeg1 ? 1152 : 576;
+  const padding = (b[at + 2] >> 1) & 1;
+  return {
+    length: Math.floor(((samples / 8) * bitrate) / sampleRate) + padding,
+    duration: samples / sampleRate,
+  };
+}
+
+const isInfoFrame = (b: Uint8Array, at: number, frame: Mp3Frame) =>
+  INFO_FRAME_MARKERS.some(marker =>
+    readAscii(b, at + 4, Math.min(at + frame.length, b.length)).includes(marker),
+  );
+
+// Where the audio frames start and end, skipping ID3v2 and ID3v1 tags
+async function audioBounds(
+  path: string,
+  size: number,
+): Promise<{ start: number; end: number }> {
+  const head = await readBytes(path, 0, Math.min(10, size));
+  const start = id3TagSize(head);
+
+  let end = size;
+  if (size - start > ID3V1_SIZE) {
+    const tail = await readBytes(path, size - ID3V1_SIZE, 3);
+    if (readAscii(tail, 0, 3) === 'TAG') end = size - ID3V1_SIZE;
+  }
+  return { start: Math.min(start, size), end };
+}
+
+/**
+ * Walk the MP3 frames once, adding up frame durations, and return the byte
+ * offset of the first frame at or after each chapter start. Cutting on frame
+ * boundaries keeps every part playable without re-encoding.
+ */
+async function chapterOffsets(
+  path: string,
+  chapters: Chapter[],
+): Promise<number[]> {
+  const size = Number((await RNFS.stat(path)).size);
+  const bounds = await audioBounds(path, size);
+
+  const offsets: number[] = [];
+  let buffer: Uint8Array = new Uint8Array(0);
+  let bufferStart = 0;
+  let offset = bounds.start;
+  let elapsed = 0;
+  let sawFrame = false;
+
+  while (offset + 4 <= bounds.end && offsets.length < chapters.length) {
+    if (offset + 4 > bufferStart + buffer.length) {
+      bufferStart = offset;
+      buffer = await readBytes(
+        path,
+        offset,
+        Math.min(SCAN_CHUNK_SIZE, bounds.end - offset),
+      );
+    }
+
+    const at = offset - bufferStart;
+    const frame = parseFrameHeader(buffer, at);
+    if (!frame) {
+      // Lost sync (junk between frames): look for the next header
+      offset++;
+      continue;
+    }
+    if (!sawFrame) {
+      sawFrame = true;
+      if (isInfoFrame(buffer, at, frame)) {
+        // Its frame count would be wrong for every part; leave it out
+        offset += frame.length;
+        continue;
+      }
+    }
+
+    while (
+      offsets.length < chapters.length &&
+      elapsed >= chapters[offsets.length].start
+    ) {
+      offsets.push(offset);
+    }
+    elapsed += frame.duration;
+    offset += frame.length;
+  }
+
+  if (!sawFrame) {
+    throw new Error('No MP3 audio frames found');
+  }
+  if (offsets.length < chapters.length) {
+    throw new Error(
+      `Audio ends at ${Math.floor(elapsed)}s, before chapter ${offsets.length + 1} starts`,
+    );
+  }
+  return [...offsets, bounds.end];
+}
+
+// "03 - Track title.mp3", zero-padded to the number of chapters
+export function chapterFilename(
+  chapter: Chapter,
+  index: number,
+  count: number,
+): string {
+  const number = String(index + 1).padStart(Math.max(2, String(count).length), '0');
+  return `${sanitizeFileName(`${number} - ${chapter.title}`)}.mp3`;
+}
+
+/**
+ * Split a local MP3 into one file per chapter inside `outputDir`, in chapter
+ * order. The parts carry no tags. On failure, parts already written are
+ * removed and the source is left as is.
+ */
+export async function splitMp3ByChapters(
+  sourcePath: string,
+  chapters: Chapter[],
+  outputDir: string,
+): Promise<string[]> {
+  const offsets = await chapterOffsets(sourcePath, chapters);
+  const written: string[] = [];
+  try {
+    for (let i = 0; i < chapters.length; i++) {
+      const path = `${outputDir}/${chapterFilename(chapters[i], i, chapters.length)}`;
+      await RNFS.writeFile(path, '', 'base64');
+      written.push(path);
+      await appendRange(sourcePath, path, offsets[i], offsets[i + 1]);
+    }
+    console.log(`✂️ [CHAPTERS] Split into ${chapters.length} files in ${outputDir}`);
+    return written;
+  } catch (error) {
+    await Promise.all(written.map(path => RNFS.unlink(path).catch(() => { })));
+    throw error;
+  }
+}
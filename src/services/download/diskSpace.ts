@@ -0,0 +1,48 @@
+import RNFS from 'react-native-fs';
+import type { DownloadJob } from './queue';
+
+const MB = 1024 * 1024;
+
+// Left free for the system and other apps; a download never takes the last
+// of it
+export const STORAGE_RESERVE_BYTES = 200 * MB;
+// Running downloads are stopped when free space falls below this
+export const STORAGE_CRITICAL_BYTES = 50 * MB;
+
+// Rough sizes in MB for downloads whose streams weren't looked up
+const SIZE_ESTIMATES_MB = {
+  mp3: 5, // ~5MB for average song
+  mp4: { '360p': 25, '480p': 40, '720p': 80, '1080p': 150, default: 60 },
+  webm: { '360p': 20, '480p': 35, '720p': 70, '1080p': 130, default: 50 },
+};
+
+/**
+ * Size in bytes of the file a download will produce: exact when the
+ * video's streams were looked up, otherwise a guess from format and quality.
+ */
+export function estimatedDownloadBytes(
+  job: Pick<DownloadJob, 'format' | 'quality' | 'expectedBytes'>,
+): number {
+  if (job.expectedBytes) return job.expectedBytes;
+  if (job.format === 'mp3') return SIZE_ESTIMATES_MB.mp3 * MB;
+
+  const estimates: Record<string, number> = SIZE_ESTIMATES_MB[job.format];
+  return (estimates[job.quality || 'default'] || estimates.default) * MB;
+}
+
+// Bytes a job has yet to write; a resumed job already has part of its file
+export function remainingDownloadBytes(job: DownloadJob): number {
+  if (job.captionsOnly) return 0; // A few KB of text
+  const total = job.progressInfo?.totalBytes || estimatedDownloadBytes(job);
+  return Math.max(0, total - (job.progressInfo?.bytesReceived ?? 0));
+}
+
+// Free bytes on the device, or undefined when they can't be read
+export async function getFreeSpace(): Promise<number | undefined> {
+  try {
+    return (await RNFS.getFSInfo()).freeSpace;
+  } catch (error) {
+    console.warn('⚠️ [STORAGE] Could not read free space:', error);
+    return undefined;
+  }
+}
@@ -0,0 +1,51 @@
+import { storageService, type DownloadedVideo } from '../storageService';
+import { getFileSize } from './storage';
+import type { DownloadJob } from './queue';
+
+// The quality asked for, before any fallback; MP3 is told apart by bitrate
+const requestedQuality = (job: DownloadJob) =>
+  job.format === 'mp3'
+    ? job.bitRate
+    : job.qualityPreference?.[0] ?? job.quality;
+
+// Extension the job's file gets; captions-only jobs save the subtitle file
+const savedFormat = (job: DownloadJob) =>
+  job.captionsOnly && job.subtitles ? job.subtitles.format : job.format;
+
+/**
+ * Whether two jobs would produce the same file: same video, format, quality
+ * and clip.
+ */
+export function isSameDownload(a: DownloadJob, b: DownloadJob): boolean {
+  return (
+    a.videoId === b.videoId &&
+    savedFormat(a) === savedFormat(b) &&
+    requestedQuality(a) === requestedQuality(b) &&
+    a.clip?.start === b.clip?.start &&
+    a.clip?.end === b.clip?.end
+  );
+}
+
+/**
+ * A saved download of the same video and format whose file is still there,
+ * on disk or in SAF. History doesn't record clips, so clips never match.
+ */
+export async function findSavedCopy(
+  job: DownloadJob,
+): Promise<DownloadedVideo | undefined> {
+  if (job.clip) return undefined;
+
+  const quality = job.format === 'mp3' ? undefined : requestedQuality(job);
+  const candidates = (await storageService.findDownloadedVideos(job.videoId))
+    .filter(
+      entry =>
+        entry.format === savedFormat(job) &&
+        // Entries saved before qualities were recorded match any quality
+        (!quality || !entry.quality || entry.quality === quality),
+    );
+
+  for (const entry of candidates) {
+    if ((await getFileSize(entry.filePath)) !== undefined) return entry;
+  }
+  return undefined;
+}
@@ -0,0 +1,104 @@
+/**
+ * Thrown by downloadVideoDirectStream when the transfer was paused on purpose.
+ * Callers should keep the job (and its partial file) instead of failing it.
+ */
+export class DownloadPausedError extends Error {
+  constructor(public readonly downloadId: string) {
+    super('Download paused');
+    this.name = 'DownloadPausedError';
+  }
+}
+
+/**
+ * Thrown by downloadVideoDirectStream when the user cancelled the transfer.
+ * The partial file is discarded and nothing is reported or retried.
+ */
+export class DownloadCancelledError extends Error {
+  constructor(public readonly downloadId: string) {
+    super('Download cancelled');
+    this.name = 'DownloadCancelledError';
+  }
+}
+
+/**
+ * Thrown when a finished download fails integrity verification (wrong size,
+ * hash mismatch or a broken container). The partial file is discarded, so a
+ * retry always starts from scratch.
+ */
+export class DownloadCorruptedError extends Error {
+  readonly reason = 'corrupted' as const;
+
+  constructor(public readonly detail: string) {
+    super(`Downloaded file is corrupted: ${detail}`);
+    this.name = 'DownloadCorruptedError';
+  }
+}
+
+/**
+ * Thrown when a download turns out to be larger than the current network
+ * allows (the cellular size limit). Direct-stream transfers keep their
+ * partial file, so the job resumes once it is on an allowed network.
+ */
+export class NetworkLimitError extends Error {
+  readonly reason = 'network_limit' as const;
+
+  constructor(
+    public readonly size: number,
+    public readonly limit: number,
+  ) {
+    super(
+      `Download is ${Math.ceil(size / 1048576)} MB, over the ${Math.round(limit / 1048576)} MB cellular limit`,
+    );
+    this.name = 'NetworkLimitError';
+  }
+}
+
+// Where the copy a new download would duplicate is
+export interface DuplicateDownload {
+  id: string; // Job id, or history entry id for saved files
+  status: 'active' | 'queued' | 'saved';
+  filePath?: string; // Saved files only
+}
+
+/**
+ * Thrown instead of queueing a download that is already running, waiting or
+ * saved. Callers can ask the user and queue it again with the check skipped.
+ */
+export class DuplicateDownloadError extends Error {
+  constructor(public readonly existing: DuplicateDownload) {
+    super(
+      existing.status === 'saved'
+        ? 'This video has already been downloaded'
+        : existing.status === 'active'
+          ? 'This video is already downloading'
+          : 'This video is already in the queue',
+    );
+    this.name = 'DuplicateDownloadError';
+  }
+}
+
+// Why a download failed, when the UI or retry logic needs to tell them apart
+export type DownloadFailureReason =
+  | DownloadCorruptedError['reason']
+  | NetworkLimitError['reason']
+  | 'quality_unavailable' // No stream at the requested resolution
+  | 'insufficient_storage'; // The device ran out of space while writing
+
+// yt-dlp's wording when the video has no stream matching the request
+const QUALITY_UNAVAILABLE_PATTERN =
+  /requested format is not available|(format|quality|resolution).{0,40}not available/i;
+// Android's and the file libraries' wording for a full disk
+const STORAGE_FULL_PATTERN = /ENOSPC|no space left|not enough (free )?(space|storage)|disk (is )?full/i;
+
+/**
+ * The reason behind a server's error message, for failures that only arrive
+ * as text (SSE error events, HTTP error bodies).
+ */
+export const failureReasonFromMessage = (
+  message: string,
+): DownloadFailureReason | undefined =>
+  QUALITY_UNAVAILABLE_PATTERN.test(message)
+    ? 'quality_unavailable'
+    : STORAGE_FULL_PATTERN.test(message)
+      ? 'insufficient_storage'
+      : undefined;
@@ -0,0 +1,174 @@
+import RNFS from 'react-native-fs';
+import { exists as safExists } from 'react-native-saf-x';
+import type { CollisionPolicy, FilenameTemplate } from '../../types/filename';
+
+export const DEFAULT_FILENAME_TEMPLATE: FilenameTemplate = {
+  template: '{title}',
+  collisionPolicy: 'number',
+};
+
+export const FILENAME_TOKENS = [
+  'title',
+  'channel',
+  'videoId',
+  'quality',
+  'date',
+  'index',
+] as const;
+
+export type FilenameToken = (typeof FILENAME_TOKENS)[number];
+
+export interface FilenameValues {
+  title?: string;
+  channel?: string;
+  videoId: string;
+  quality?: string; // Resolution, or bitrate for audio
+  date?: Date; // Defaults to now
+  index?: number; // 1-based position in a playlist batch
+}
+
+const MAX_NUMBERED_COPIES = 999;
+
+export function sanitizeFileName(name: string): string {
+  const cleaned = (name || '')
+    .replace(/[\\/:*?"<>|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return cleaned.substring(0, 150) || 'download';
+}
+
+export function inferExtension(fmt?: string, mime?: string | null): string {
+  if (mime) {
+    if (mime.includes('audio/mpeg')) return '.mp3';
+    if (mime.includes('audio/mp4') || mime.includes('video/mp4')) return '.mp4';
+    if (mime.includes('audio/webm') || mime.includes('video/webm'))
+      return '.webm';
+  }
+  if (fmt === 'mp3') return '.mp3';
+  if (fmt === 'mp4') return '.mp4';
+  if (fmt === 'webm') return '.webm';
+  return '';
+}
+
+// Stand-ins while the template is tidied, so values are never touched by it
+const EMPTY_TOKEN = '\uE000';
+const FILLED_TOKEN = '\uE001';
+
+const formatDate = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+
+/**
+ * Render a template such as "{channel} - {title}" into a safe base name
+ * (without extension). Unknown tokens are left as typed; empty tokens are
+ * dropped along with the separators around them.
+ */
+export function renderFilenameTemplate(
+  template: string,
+  values: FilenameValues,
+): string {
+  const tokens: Record<FilenameToken, string> = {
+    title: values.title || values.videoId,
+    channel: values.channel || '',
+    videoId: values.videoId,
+    quality: values.quality || '',
+    date: formatDate(values.date || new Date()),
+    index: values.index ? String(values.index).padStart(2, '0') : '',
+  };
+
+  const filled: string[] = [];
+  const rendered = (template || DEFAULT_FILENAME_TEMPLATE.template)
+    .replace(/\{(\w+)\}/g, (match, name: string) => {
+      if (!(name in tokens)) return match;
+      const value = tokens[name as FilenameToken];
+      if (!value) return EMPTY_TOKEN;
+      filled.push(value);
+      return FILLED_TOKEN;
+    })
+    // Tidy what empty tokens leave behind: "()", "[]", doubled or edge
+    // separators. Separators typed next to filled tokens stay as they are
+    .replace(/\(\s*\uE000\s*\)|\[\s*\uE000\s*\]/g, EMPTY_TOKEN)
+    .replace(
+      /[\s\-_.\uE000]*\uE000[\s\-_.\uE000]*/g,
+      (run: string, offset: number, whole: string) => {
+        if (offset === 0 || offset + run.length === whole.length) return '';
+        const separator = run.match(/[-_.]/)?.[0] ?? '';
+        if (!/\s/.test(run)) return separator;
+        return separator ? ` ${separator} ` : ' ';
+      },
+    )
+    .replace(/\uE001/g, () => filled.shift() ?? '');
+
+  return sanitizeFileName(rendered || tokens.title);
+}
+
+export interface SaveTarget {
+  filename: string;
+  // Set when the policy is "skip" and a file with this name already exists
+  existingPath?: string;
+  release: () => void;
+}
+
+// Names handed out but not yet written, so concurrent downloads don't pick the same one
+const reservedTargets = new Set<string>();
+
+const targetPath = (dir: string, filename: string) =>
+  dir.startsWith('content://')
+    ? `${dir}/${encodeURIComponent(filename)}`
+    : `${dir}/${filename}`;
+
+async function targetExists(path: string, isSaf: boolean): Promise<boolean> {
+  try {
+    return isSaf ? await safExists(path) : await RNFS.exists(path);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Apply the collision policy for `filename` inside `dir` (SAF uri or
+ * filesystem path). Call `release` once the file has been written or the
+ * download gave up.
+ */
+export async function resolveSaveTarget(
+  dir: string,
+  filename: string,
+  policy: CollisionPolicy,
+): Promise<SaveTarget> {
+  const isSaf = dir.startsWith('content://');
+
+  if (policy === 'overwrite') {
+    return { filename, release: () => { } };
+  }
+
+  const dot = filename.lastIndexOf('.');
+  const base = dot > 0 ? filename.substring(0, dot) : filename;
+  const ext = dot > 0 ? filename.substring(dot) : '';
+
+  for (let n = 1; n <= MAX_NUMBERED_COPIES; n++) {
+    const candidate = n === 1 ? filename : `${base} (${n})${ext}`;
+    const path = targetPath(dir, candidate);
+    const taken =
+      reservedTargets.has(path) || (await targetExists(path, isSaf));
+
+    if (taken && policy === 'skip') {
+      console.log(`⏭️ [FILENAME] ${filename} already exists - skipping`);
+      return { filename, existingPath: path, release: () => { } };
+    }
+    // Re-check after the await: another download may have claimed it meanwhile
+    if (!taken && !reservedTargets.has(path)) {
+      reservedTargets.add(path);
+      if (n > 1) {
+        console.log(`🔢 [FILENAME] ${filename} exists - saving as ${candidate}`);
+      }
+      return {
+        filename: candidate,
+        release: () => reservedTargets.delete(path),
+      };
+    }
+  }
+  throw new Error(`Too many copies of ${filename} in the download folder`);
+}
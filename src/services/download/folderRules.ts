@@ -0,0 +1,52 @@
+import RNFS from 'react-native-fs';
+import { hasPermission, listFiles } from 'react-native-saf-x';
+import type { FolderRule } from '../../types/folders';
+import type { DownloadJob } from './queue';
+
+const matches = (
+  rule: FolderRule,
+  job: Pick<DownloadJob, 'format' | 'channelName'>,
+) =>
+  (!rule.format || rule.format === job.format) &&
+  (!rule.channelName ||
+    rule.channelName.trim().toLowerCase() ===
+    job.channelName?.trim().toLowerCase());
+
+// Folder of the first rule the job matches
+export function folderFromRules(
+  rules: FolderRule[],
+  job: Pick<DownloadJob, 'format' | 'channelName'>,
+): string | undefined {
+  return rules.find(rule => matches(rule, job))?.folder;
+}
+
+// "MP3", "Channel: Veritasium" or "MP4 from Veritasium"
+export function describeFolderRule(rule: FolderRule): string {
+  const format = rule.format?.toUpperCase();
+  if (format && rule.channelName) return `${format} from ${rule.channelName}`;
+  return format || `Channel: ${rule.channelName}`;
+}
+
+/**
+ * Throws with a message for the user unless downloads can be saved in
+ * `folder`: a SAF tree needs a persisted grant that still works, a path
+ * has to exist.
+ */
+export async function validateFolder(folder: string): Promise<void> {
+  if (folder.startsWith('content://')) {
+    if (!(await hasPermission(folder))) {
+      throw new Error(
+        'The app no longer has access to this folder. Please select it again.',
+      );
+    }
+    try {
+      await listFiles(folder);
+    } catch {
+      throw new Error('This folder can\'t be opened. Please choose another one.');
+    }
+    return;
+  }
+  if (!(await RNFS.exists(folder))) {
+    throw new Error(`Folder does not exist: ${folder}`);
+  }
+}
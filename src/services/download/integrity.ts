@@ -0,0 +1,210 @@
+import RNFS from 'react-native-fs';
+import { DownloadCorruptedError } from './errors';
+import { id3TagSize, readAscii, readBytes, readUint32 } from './bytes';
+
+export interface IntegrityExpectations {
+  format?: string; // 'mp3' | 'mp4' | 'webm' (or a filename extension)
+  expectedSize?: number; // Content-Length or server-reported fileSize
+  sha256?: string; // Hex digest from the server, if it sent one
+}
+
+const MAX_TOP_LEVEL_BOXES = 10000;
+const EBML_MAGIC = [0x1a, 0x45, 0xdf, 0xa3];
+const EBML_SEGMENT_ID = 0x18538067;
+
+/**
+ * Walk the top-level MP4 boxes: a truncated file leaves the last box running
+ * past the end, and a file cut before the index has no `moov` box at all.
+ */
+async function checkMp4(path: string, size: number): Promise<void> {
+  const head = await readBytes(path, 0, Math.min(16, size));
+  if (head.length < 8 || readAscii(head, 4, 8) !== 'ftyp') {
+    throw new DownloadCorruptedError('missing MP4 ftyp header');
+  }
+
+  let offset = 0;
+  let sawMoov = false;
+  for (let i = 0; offset < size && i < MAX_TOP_LEVEL_BOXES; i++) {
+    if (size - offset < 8) {
+      throw new DownloadCorruptedError('MP4 ends inside a box header');
+    }
+    const header = await readBytes(path, offset, Math.min(16, size - offset));
+    const type = readAscii(header, 4, 8);
+    let boxSize = readUint32(header, 0);
+    if (boxSize === 1) {
+      if (header.length < 16) {
+        throw new DownloadCorruptedError('MP4 ends inside a box header');
+      }
+      boxSize = readUint32(header, 8) * 2 ** 32 + readUint32(header, 12);
+    } else if (boxSize === 0) {
+      // Box extends to the end of the file
+      boxSize = size - offset;
+    }
+    if (boxSize < 8) {
+      throw new DownloadCorruptedError(`invalid MP4 box size at ${offset}`);
+    }
+    if (offset + boxSize > size) {
+      throw new DownloadCorruptedError(
+        `MP4 '${type}' box runs past the end of the file`,
+      );
+    }
+    if (type === 'moov') sawMoov = true;
+    offset += boxSize;
+  }
+
+  if (!sawMoov) {
+    throw new DownloadCorruptedError('MP4 has no moov box');
+  }
+}
+
+const isFrameSync = (b: Uint8Array, at: number) =>
+  b[at] === 0xff && (b[at + 1] & 0xe0) === 0xe0;
+
+// MP3 has no index to check the end against, so only the start is verified
+async function checkMp3(path: string, size: number): Promise<void> {
+  const head = await readBytes(path, 0, Math.min(10, size));
+  if (head.length < 4) {
+    throw new DownloadCorruptedError('MP3 is too small');
+  }
+  if (readAscii(head, 0, 3) !== 'ID3') {
+    if (!isFrameSync(head, 0)) {
+      throw new DownloadCorruptedError('missing MP3 frame header');
+    }
+    return;
+  }
+
+  const tagSize = id3TagSize(head);
+  if (tagSize + 2 > size) {
+    throw new DownloadCorruptedError('MP3 ends inside its ID3 tag');
+  }
+  const afterTag = await readBytes(path, tagSize, 2);
+  if (!isFrameSync(afterTag, 0)) {
+    throw new DownloadCorruptedError('no MP3 frame after the ID3 tag');
+  }
+}
+
+// EBML variable-length integer; `unknown` marks the all-ones "size unknown" value
+function readVint(
+  b: Uint8Array,
+  at: number,
+  keepMarker: boolean,
+): { value: number; length: number; unknown: boolean } | null {
+  const first = b[at];
+  if (first === undefined || first === 0) return null;
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) length++;
+  if (at + length > b.length) return null;
+
+  const mask = keepMarker ? 0xff : 0xff >> length;
+  let value = first & mask;
+  let allOnes = (first & (0xff >> length)) === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + b[at + i];
+    allOnes = allOnes && b[at + i] === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+/**
+ * WebM is EBML: an EBML header element followed by one Segment. When the
+ * muxer wrote the Segment size, the file must be at least that long.
+ */
+async function checkWebm(path: string, size: number): Promise<void> {
+  const head = await readBytes(path, 0, Math.min(64, size));
+  if (EBML_MAGIC.some((byte, i) => head[i] !== byte)) {
+    throw new DownloadCorruptedError('missing WebM EBML header');
+  }
+
+  const headerSize = readVint(head, 4, false);
+  if (!headerSize || headerSize.unknown) {
+    throw new DownloadCorruptedError('invalid WebM EBML header');
+  }
+  const segmentAt = 4 + headerSize.length + headerSize.value;
+  const segment = await readBytes(
+    path,
+    segmentAt,
+    Math.min(12, Math.max(0, size - segmentAt)),
+  );
+  const id = readVint(segment, 0, true);
+  if (!id || id.value !== EBML_SEGMENT_ID) {
+    throw new DownloadCorruptedError('WebM has no Segment element');
+  }
+  const segmentSize = readVint(segment, id.length, false);
+  if (!segmentSize) {
+    throw new DownloadCorruptedError('WebM ends inside the Segment header');
+  }
+  // Live-muxed files leave the size unknown; nothing to compare against
+  if (segmentSize.unknown) return;
+
+  const segmentEnd =
+    segmentAt + id.length + segmentSize.length + segmentSize.value;
+  if (segmentEnd > size) {
+    throw new DownloadCorruptedError('WebM Segment runs past the end of the file');
+  }
+}
+
+const CONTAINER_CHECKS: Record<
+  string,
+  (path: string, size: number) => Promise<void>
+> = {
+  mp4: checkMp4,
+  mp3: checkMp3,
+  webm: checkWebm,
+};
+
+/**
+ * Verify a finished download on the local filesystem (run before any SAF
+ * export). Throws DownloadCorruptedError describing the first problem found.
+ */
+export async function verifyDownloadedFile(
+  path: string,
+  expected: IntegrityExpectations,
+): Promise<void> {
+  const size = Number((await RNFS.stat(path)).size);
+  if (!size) {
+    throw new DownloadCorruptedError('file is empty');
+  }
+
+  if (expected.expectedSize && size !== expected.expectedSize) {
+    throw new DownloadCorruptedError(
+      `expected ${expected.expectedSize} bytes, got ${size}`,
+    );
+  }
+
+  const format = expected.format?.replace(/^.*\./, '').toLowerCase();
+  const checkContainer = format ? CONTAINER_CHECKS[format] : undefined;
+  if (checkContainer) {
+    await checkContainer(path, size);
+  }
+
+  if (expected.sha256) {
+    const digest = await RNFS.hash(path, 'sha256');
+    if (digest.toLowerCase() !== expected.sha256.trim().toLowerCase()) {
+      throw new DownloadCorruptedError('SHA-256 checksum mismatch');
+    }
+  }
+
+  console.log(
+    `🔍 [INTEGRITY] Verified ${format || 'file'} (${size} bytes${expected.sha256 ? ', sha256 ok' : ''})`,
+  );
+}
+
+/**
+ * Full file size implied by a (possibly ranged) response: the Content-Range
+ * total when present, otherwise Content-Length plus the resumed offset.
+ */
+export function expectedSizeFromHeaders(
+  headers: Record<string, string> | undefined,
+  rangeStart: number,
+): number | undefined {
+  const lookup = (name: string) =>
+    Object.entries(headers || {}).find(
+      ([key]) => key.toLowerCase() === name,
+    )?.[1];
+
+  const rangeTotal = Number(lookup('content-range')?.split('/')[1]);
+  if (Number.isFinite(rangeTotal) && rangeTotal > 0) return rangeTotal;
+
+  const length = Number(lookup('content-length'));
+  return Number.isFinite(length) && length > 0 ? rangeStart + length : undefined;
+}
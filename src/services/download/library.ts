@@ -0,0 +1,162 @@
+import RNFS from 'react-native-fs';
+import { hasPermission, listFiles } from 'react-native-saf-x';
+import { storageService, type DownloadedVideo } from '../storageService';
+import { defaultDownloadPath, getFileSize } from './storage';
+
+/**
+ * Reconciles the download history with what is really on disk: entries
+ * whose file was moved or deleted outside the app, and files in the download
+ * folders that history doesn't know about.
+ */
+
+// Files the app saves; anything else in the folder is left alone
+const LIBRARY_FORMATS: DownloadedVideo['format'][] = [
+  'mp3',
+  'mp4',
+  'webm',
+  'srt',
+  'vtt',
+];
+
+export interface LibraryFile {
+  path: string; // Filesystem path or SAF document uri
+  name: string;
+  size?: number;
+}
+
+export interface LibraryScan {
+  missing: DownloadedVideo[]; // Entries whose file is gone
+  orphans: LibraryFile[]; // Files in the download folders missing from history
+  // Missing entries found again under the same name
+  moved: Array<{ entry: DownloadedVideo; file: LibraryFile }>;
+  scannedAt: number;
+}
+
+const formatOf = (name: string) => {
+  const extension = name.split('.').pop()?.toLowerCase();
+  return LIBRARY_FORMATS.find(format => format === extension);
+};
+
+const normalizePath = (path: string) => path.replace(/^file:\/\//, '');
+
+// The download folder and every folder rule's folder
+async function libraryFolders(): Promise<string[]> {
+  const [downloadPath, rules] = await Promise.all([
+    storageService.getDownloadPath(),
+    storageService.getFolderRules(),
+  ]);
+  return Array.from(
+    new Set([downloadPath || defaultDownloadPath(), ...rules.map(r => r.folder)]),
+  );
+}
+
+// Saved files in one folder; folders that can't be read are skipped
+async function listLibraryFiles(folder: string): Promise<LibraryFile[]> {
+  try {
+    if (folder.startsWith('content://')) {
+      if (!(await hasPermission(folder))) return [];
+      return (await listFiles(folder))
+        .filter(file => file.type === 'file' && formatOf(file.name))
+        .map(file => ({ path: file.uri, name: file.name, size: file.size }));
+    }
+    if (!(await RNFS.exists(folder))) return [];
+    return (await RNFS.readDir(folder))
+      .filter(item => item.isFile() && formatOf(item.name))
+      .map(item => ({ path: item.path, name: item.name, size: Number(item.size) }));
+  } catch (error) {
+    console.warn(`⚠️ [LIBRARY] Could not list ${folder}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Check every history entry's file and list the download folders. Entries
+ * are flagged `missing` (or unflagged when their file is back) as a side
+ * effect; importing, relinking and pruning are left to the caller.
+ */
+export async function scanLibrary(): Promise<LibraryScan> {
+  const entries = await storageService.getDownloadedVideos();
+
+  const missing: DownloadedVideo[] = [];
+  const changed: DownloadedVideo[] = [];
+  for (const entry of entries) {
+    const isMissing = (await getFileSize(entry.filePath)) === undefined;
+    if (isMissing) missing.push(entry);
+    if (isMissing !== !!entry.missing) {
+      changed.push({ ...entry, missing: isMissing || undefined });
+    }
+  }
+  if (changed.length > 0) {
+    await storageService.addDownloadedVideos(changed);
+  }
+
+  const known = new Set(
+    entries.filter(e => !missing.includes(e)).map(e => normalizePath(e.filePath)),
+  );
+  const knownNames = new Set(
+    entries.filter(e => !missing.includes(e)).map(e => e.filename),
+  );
+  const files = (
+    await Promise.all((await libraryFolders()).map(listLibraryFiles))
+  ).flat();
+  const untracked = files.filter(
+    file => !known.has(normalizePath(file.path)) && !knownNames.has(file.name),
+  );
+
+  // A missing entry and an untracked file with the same name are most
+  // likely the same download, moved between the scanned folders
+  const moved: LibraryScan['moved'] = [];
+  const orphans = untracked.filter(file => {
+    const entry = missing.find(
+      m => m.filename === file.name && !moved.some(pair => pair.entry === m),
+    );
+    if (!entry) return true;
+    moved.push({ entry, file });
+    return false;
+  });
+
+  console.log(
+    `📚 [LIBRARY] ${entries.length} entries: ${missing.length} missing, ${moved.length} moved, ${orphans.length} untracked files`,
+  );
+  return { missing, orphans, moved, scannedAt: Date.now() };
+}
+
+// Add untracked files to history; the video they came from isn't known
+export async function importLibraryFiles(files: LibraryFile[]): Promise<void> {
+  const now = Date.now();
+  await storageService.addDownloadedVideos(
+    files.map((file, index) => ({
+      id: `imported-${now}-${index}`,
+      videoId: '',
+      title: file.name.replace(/\.[^.]+$/, ''),
+      format: formatOf(file.name)!,
+      filePath: file.path,
+      filename: file.name,
+      downloadedAt: now,
+      fileSize: file.size,
+    })),
+  );
+}
+
+// Point missing entries at the files they were found as
+export async function relinkLibraryEntries(
+  moved: LibraryScan['moved'],
+): Promise<void> {
+  await storageService.addDownloadedVideos(
+    moved.map(({ entry, file }) => ({
+      ...entry,
+      filePath: file.path,
+      filename: file.name,
+      fileSize: file.size ?? entry.fileSize,
+      missing: undefined,
+    })),
+  );
+}
+
+export async function pruneLibraryEntries(
+  entries: DownloadedVideo[],
+): Promise<void> {
+  for (const entry of entries) {
+    await storageService.removeDownloadedVideo(entry.id);
+  }
+}
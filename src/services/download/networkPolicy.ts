@@ -0,0 +1,44 @@
+import type {
+  NetworkHoldReason,
+  NetworkPolicy,
+  NetworkStatus,
+} from '../../types/network';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Why no download may run on this network, or null when the queue can run.
+ * Size limits are per job, see `downloadSizeLimit`.
+ */
+export function queueHoldReason(
+  status: NetworkStatus,
+  policy: NetworkPolicy,
+): NetworkHoldReason | null {
+  if (!status.isConnected || !status.isInternetReachable) return 'offline';
+  if (status.isCellular && policy.cellular === 'wifi_only') return 'wifi_only';
+  if (status.isMetered && policy.pauseOnMetered) return 'metered';
+  return null;
+}
+
+// Largest download allowed on this network in bytes, or undefined for no limit
+export function downloadSizeLimit(
+  status: NetworkStatus,
+  policy: NetworkPolicy,
+): number | undefined {
+  return status.isCellular && policy.cellular === 'size_limit'
+    ? policy.cellularLimitMB * BYTES_PER_MB
+    : undefined;
+}
+
+export function describeNetworkHold(reason: NetworkHoldReason): string {
+  switch (reason) {
+    case 'offline':
+      return 'Waiting for a connection';
+    case 'wifi_only':
+      return 'Waiting for Wi-Fi';
+    case 'metered':
+      return 'Waiting for an unmetered network';
+    case 'size_limit':
+      return 'Too large for cellular - waiting for Wi-Fi';
+  }
+}
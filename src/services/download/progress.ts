@@ -0,0 +1,101 @@
+import type {
+  DownloadPhase,
+  DownloadProgressInfo,
+  ProgressUpdate,
+} from '../../types/progress';
+
+// Speed is measured over windows at least this long; native progress events
+// can arrive a few milliseconds apart and would make it jump around
+const SAMPLE_INTERVAL_MS = 500;
+// Weight of the newest sample in the smoothed speed
+const SMOOTHING = 0.3;
+// Updates closer together than this are only passed on if they change phase
+// or the rounded percentage
+const MIN_EMIT_INTERVAL_MS = 250;
+
+const PHASE_ORDER: DownloadPhase[] = ['processing', 'transferring', 'exporting'];
+
+export type ProgressReporter = (update: ProgressUpdate) => void;
+
+/**
+ * Turn one download's raw updates into DownloadProgressInfo: neither percent
+ * nor phase goes back, speed and ETA come from the byte counts, and updates
+ * that would change nothing on screen are dropped.
+ */
+export function createProgressReporter(
+  onProgress?: (progress: DownloadProgressInfo) => void,
+  now: () => number = Date.now,
+): ProgressReporter {
+  let last: DownloadProgressInfo | undefined;
+  let lastEmitAt = 0;
+  let transferStart: { at: number; bytes: number } | undefined;
+  let sample: { at: number; bytes: number } | undefined;
+  let speed: number | undefined;
+  let smoothedSpeed: number | undefined;
+
+  const measure = (at: number, bytes: number) => {
+    if (!sample || !transferStart || bytes < sample.bytes) {
+      // First bytes, or the transfer started over (e.g. Range ignored)
+      transferStart = sample = { at, bytes };
+      speed = smoothedSpeed = undefined;
+      return;
+    }
+    if (at - sample.at < SAMPLE_INTERVAL_MS) return;
+    speed = ((bytes - sample.bytes) * 1000) / (at - sample.at);
+    smoothedSpeed =
+      smoothedSpeed === undefined
+        ? speed
+        : smoothedSpeed + SMOOTHING * (speed - smoothedSpeed);
+    sample = { at, bytes };
+  };
+
+  return update => {
+    const at = now();
+    if (update.phase === 'transferring' && update.bytesReceived !== undefined) {
+      measure(at, update.bytesReceived);
+    }
+
+    const bytesReceived = update.bytesReceived ?? last?.bytesReceived;
+    const totalBytes = update.totalBytes || last?.totalBytes;
+    const averageSpeed =
+      transferStart && sample && sample.at > transferStart.at
+        ? ((sample.bytes - transferStart.bytes) * 1000) /
+        (sample.at - transferStart.at)
+        : undefined;
+    const phase = PHASE_ORDER[
+      Math.max(
+        PHASE_ORDER.indexOf(update.phase),
+        last ? PHASE_ORDER.indexOf(last.phase) : 0,
+      )
+    ];
+    const transferring = phase === 'transferring';
+    const info: DownloadProgressInfo = {
+      percent: Math.max(
+        last?.percent ?? 0,
+        Math.round(Math.max(0, Math.min(100, update.percent))),
+      ),
+      phase,
+      bytesReceived,
+      totalBytes,
+      speed: transferring ? speed : undefined,
+      smoothedSpeed: transferring ? smoothedSpeed : undefined,
+      averageSpeed,
+      eta:
+        transferring &&
+          smoothedSpeed &&
+          totalBytes !== undefined &&
+          bytesReceived !== undefined
+          ? Math.max(0, totalBytes - bytesReceived) / smoothedSpeed
+          : undefined,
+    };
+
+    const changed =
+      !last || info.phase !== last.phase || info.percent !== last.percent;
+    if (!changed && at - lastEmitAt < MIN_EMIT_INTERVAL_MS) return;
+    if (!changed && info.bytesReceived === last?.bytesReceived) return;
+
+    last = info;
+    lastEmitAt = at;
+    onProgress?.(info);
+  };
+}
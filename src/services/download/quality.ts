@@ -0,0 +1,46 @@
+import type { QualityMode } from '../../types/video';
+
+// Stands for each resolution below the last one tried, highest first
+export const BEST_AVAILABLE = 'best';
+
+// Highest first, as the server names them
+const RESOLUTIONS = [
+  '2160p',
+  '1440p',
+  '1080p',
+  '720p',
+  '480p',
+  '360p',
+  '240p',
+  '144p',
+];
+
+// The preference list for a picked quality
+export function qualityPreferenceFor(
+  quality: string,
+  mode: QualityMode,
+): string[] {
+  return mode === 'exact' ? [quality] : [quality, BEST_AVAILABLE];
+}
+
+/**
+ * What to ask for after `tried` turned out to be unavailable: the next
+ * preference, or while expanding BEST_AVAILABLE the next lower resolution
+ * that isn't a preference of its own. Undefined once nothing is left.
+ */
+export function nextQuality(
+  preference: string[],
+  tried: string,
+): string | undefined {
+  const index = preference.indexOf(tried);
+  if (index >= 0) {
+    const following = preference[index + 1];
+    if (following !== BEST_AVAILABLE) return following;
+  } else if (!preference.includes(BEST_AVAILABLE)) {
+    return undefined;
+  }
+
+  const rank = RESOLUTIONS.indexOf(tried);
+  if (rank < 0) return undefined;
+  return RESOLUTIONS.slice(rank + 1).find(q => !preference.includes(q));
+}
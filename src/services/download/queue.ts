@@ -1,3 +1,9 @@
+import type { DownloadFailureReason } from './errors';
+import type { Chapter, ClipRange } from '../../types/video';
+import type { SubtitleOptions } from '../../types/subtitle';
+import type { NetworkHoldReason } from '../../types/network';
+import type { DownloadProgressInfo } from '../../types/progress';
+
 export interface DownloadJob {
   id: string;
   videoId: string;
@@ -5,21 +11,68 @@ export interface DownloadJob {
   forceMethod?: 'sse' | 'direct-stream';
   format: 'mp3' | 'mp4' | 'webm';
   bitRate?: string;
-  quality?: string;
+  quality?: string; // What the current attempt asks for
+  // Qualities to try in order, e.g. ['1080p', '720p', 'best'] (see quality.ts)
+  qualityPreference?: string[];
+  deliveredQuality?: string; // The quality of the finished file
   videoTitle: string;
+  channelName?: string;
+  playlistIndex?: number; // 1-based position when queued from a playlist
   thumbnailUrl?: string;
-  status: 'queued' | 'downloading' | 'completed' | 'error';
+  publishedAt?: string;
+  clip?: ClipRange;
+  subtitles?: SubtitleOptions;
+  captionsOnly?: boolean; // No media: the job's file is the subtitle file
+  subtitlesPath?: string; // Sidecar saved next to the media
+  chapters?: Chapter[]; // Split the finished MP3 into one file per chapter
+  chapterFiles?: ChapterFile[]; // Set once split; these replace the single file
+  notBefore?: number; // Epoch ms; held as 'scheduled' until then
+  quietHoursOnly?: boolean; // Held until the quiet-hours window opens
+  startsAt?: number; // When a 'scheduled' job becomes due, set by the queue
+  bandwidthLimitKBps?: number; // Overrides the global cap; 0 means uncapped
+  expectedBytes?: number; // From the video's streams, when they were looked up
+  outputFolder?: string; // Chosen for this job; otherwise folder rules apply
+  status:
+    | 'queued'
+    | 'scheduled'
+    | 'downloading'
+    | 'paused'
+    | 'waiting_for_network'
+    | 'completed'
+    | 'error';
+  networkHold?: NetworkHoldReason; // Why a waiting_for_network job is held
   progress: number;
+  progressInfo?: DownloadProgressInfo; // Latest bytes, speed, ETA and phase
   filePath?: string;
   filename?: string;
   error?: string;
+  errorReason?: DownloadFailureReason; // Set when the failure needs special handling on retry
   createdAt: number;
   startedAt?: number;
   completedAt?: number;
 }
 
+export interface ChapterFile {
+  filePath: string;
+  filename: string;
+  title: string; // Chapter title
+}
+
 export interface DownloadQueueState {
-  activeDownload: DownloadJob | null;
+  // Jobs currently occupying a download slot (at most maxConcurrent)
+  activeDownloads: DownloadJob[];
+  maxConcurrent: number;
+  // Includes scheduled and waiting_for_network jobs, held in place until due
+  // and until the network allows them
   queuedDownloads: DownloadJob[];
+  // Held jobs; direct-stream ones keep their partial file for a Range resume
+  pausedDownloads: DownloadJob[];
   completedDownloads: Map<string, DownloadJob>;
+  // Set while nothing starts because the device is too full
+  storageHold?: StorageHold;
+}
+
+export interface StorageHold {
+  requiredBytes: number; // For the next job, including the reserve
+  freeBytes: number;
 }
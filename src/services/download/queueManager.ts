@@ -1,11 +1,57 @@
+import { AppState } from 'react-native';
 import { downloadService } from '../downloadService';
-import type { DownloadQueueState, DownloadJob } from './queue';
+import type { DownloadQueueState, DownloadJob, StorageHold } from './queue';
+import {
+  DuplicateDownloadError,
+  type DownloadFailureReason,
+  type DuplicateDownload,
+} from './errors';
+import { isSameDownload } from './duplicates';
+import type { DownloadOptions } from './types';
 import { storageService, PersistedDownloadQueue } from '../storageService';
 import { notificationService } from '../notificationService';
+import { networkMonitor } from '../../utils/networkMonitor';
+import {
+  DEFAULT_NETWORK_POLICY,
+  type NetworkHoldReason,
+  type NetworkPolicy,
+} from '../../types/network';
+import { downloadSizeLimit, queueHoldReason } from './networkPolicy';
+import { DEFAULT_QUIET_HOURS, type QuietHours } from '../../types/schedule';
+import type { DownloadProgressInfo } from '../../types/progress';
+import { scheduledStart } from './schedule';
+import { nextQuality } from './quality';
+import { folderFromRules, validateFolder } from './folderRules';
+import type { FolderRule } from '../../types/folders';
+import { setGlobalBandwidthLimit } from './throttle';
+import {
+  STORAGE_CRITICAL_BYTES,
+  STORAGE_RESERVE_BYTES,
+  getFreeSpace,
+  remainingDownloadBytes,
+} from './diskSpace';
+import { formatProgressDetails } from '../../utils/formatters';
+import { backgroundTaskManager } from '../../utils/backgroundTask';
+import {
+  MIN_CONCURRENT_DOWNLOADS,
+  MAX_CONCURRENT_DOWNLOADS,
+  DEFAULT_CONCURRENT_DOWNLOADS,
+} from '../../config/downloadConfig';
+
+// setTimeout overflows past ~24.8 days; longer waits just re-arm
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+// How often free space is checked while downloads write or wait for room
+const STORAGE_CHECK_INTERVAL_MS = 15 * 1000;
 
 export class ClientDownloadQueue {
-  private activeDownload: DownloadJob | null = null;
+  // Jobs currently holding a download slot, keyed by local job id
+  private activeDownloads: Map<string, DownloadJob> = new Map();
+  private maxConcurrent: number = DEFAULT_CONCURRENT_DOWNLOADS;
   private queue: DownloadJob[] = [];
+  private paused: DownloadJob[] = [];
+  // Run counter per active job so a stale run (paused, then resumed) is ignored
+  private runIds: Map<string, number> = new Map();
+  private nextRunId = 0;
   private completed: Map<string, DownloadJob> = new Map();
   private listeners: Set<(state: DownloadQueueState) => void> = new Set();
   // Map local job id -> internal downloadService id
@@ -14,9 +60,9 @@ export class ClientDownloadQueue {
   private callbacks: Map<
     string,
     {
-      onProgress?: (progress: number) => void;
+      onProgress?: (progress: DownloadProgressInfo) => void;
       onComplete?: (filePath: string, filename: string) => void;
-      onError?: (error: string) => void;
+      onError?: (error: string, reason?: DownloadFailureReason) => void;
     }
   > = new Map();
   private startIdResolvers: Map<
@@ -24,13 +70,51 @@ export class ClientDownloadQueue {
     { resolve: (id: string) => void; reject: (e: any) => void }
   > = new Map();
   private persistDebounce?: ReturnType<typeof setTimeout>;
+  private networkPolicy: NetworkPolicy = DEFAULT_NETWORK_POLICY;
+  // Cellular size limit the running jobs were started under
+  private activeSizeLimit?: number;
+  private quietHours: QuietHours = DEFAULT_QUIET_HOURS;
+  private bandwidthLimitKBps = 0; // Global cap, 0 when uncapped
+  private folderRules: FolderRule[] = [];
+  // Next time a scheduled job becomes due, and the timer waiting for it
+  private wakeAt?: number;
+  private wakeTimer?: ReturnType<typeof setTimeout>;
+  // Set while the device is too full to start the next job
+  private storageHold?: StorageHold;
+  // Checks free space while jobs write or wait for room
+  private storageTimer?: ReturnType<typeof setInterval>;
 
   constructor() {
     // Attempt restore persisted queue snapshot
     void this.restoreQueue();
+    networkMonitor.subscribe(() => this.applyNetworkState());
+    // Timers don't run while suspended: catch up on scheduled jobs
+    backgroundTaskManager.setWakeHandler(() => this.processNext());
+    AppState.addEventListener('change', state => {
+      if (state === 'active') void this.processNext();
+    });
+  }
+
+  // A running, waiting or paused job that would produce the same file
+  findDuplicate(job: DownloadJob): DuplicateDownload | undefined {
+    const active = Array.from(this.activeDownloads.values()).find(
+      other => other.id !== job.id && isSameDownload(other, job),
+    );
+    if (active) return { id: active.id, status: 'active' };
+    const waiting = [...this.queue, ...this.paused].find(
+      other => other.id !== job.id && isSameDownload(other, job),
+    );
+    return waiting ? { id: waiting.id, status: 'queued' } : undefined;
   }
 
-  enqueue(job: DownloadJob): void {
+  /**
+   * Add a job to the end of the queue. Throws DuplicateDownloadError when
+   * the same download is already running or waiting, unless allowed.
+   */
+  enqueue(job: DownloadJob, allowDuplicate = false): void {
+    const duplicate = allowDuplicate ? undefined : this.findDuplicate(job);
+    if (duplicate) throw new DuplicateDownloadError(duplicate);
+
     job.status = 'queued';
     job.createdAt = Date.now();
     job.progress = job.progress ?? 0;
@@ -42,46 +126,417 @@ export class ClientDownloadQueue {
   enqueueWithCallbacks(
     job: DownloadJob,
     cb?: {
-      onProgress?: (progress: number) => void;
+      onProgress?: (progress: DownloadProgressInfo) => void;
       onComplete?: (filePath: string, filename: string) => void;
-      onError?: (error: string) => void;
+      onError?: (error: string, reason?: DownloadFailureReason) => void;
     },
+    allowDuplicate = false,
   ): string {
+    this.enqueue(job, allowDuplicate);
     if (cb) this.callbacks.set(job.id, cb);
-    this.enqueue(job);
     return job.id;
   }
 
+  // Queue several jobs at once with a single state update (e.g. a playlist).
+  // Duplicates of queued jobs, or of each other, are skipped; returns the
+  // ids that were queued.
+  enqueueManyWithCallbacks(
+    entries: Array<{
+      job: DownloadJob;
+      cb?: {
+        onProgress?: (progress: DownloadProgressInfo) => void;
+        onComplete?: (filePath: string, filename: string) => void;
+        onError?: (error: string, reason?: DownloadFailureReason) => void;
+      };
+    }>,
+  ): string[] {
+    const now = Date.now();
+    const queued = entries.filter(({ job, cb }) => {
+      if (this.findDuplicate(job)) {
+        console.log(`⏭️ [QUEUE] Skipping duplicate of ${job.videoId}`);
+        return false;
+      }
+      if (cb) this.callbacks.set(job.id, cb);
+      job.status = 'queued';
+      job.createdAt = now;
+      job.progress = job.progress ?? 0;
+      this.queue.push(job);
+      return true;
+    });
+    this.notifyListeners();
+    void this.processNext();
+    return queued.map(({ job }) => job.id);
+  }
+
   private async processNext(): Promise<void> {
-    if (this.activeDownload) return;
-    if (this.queue.length === 0) return;
+    this.refreshSchedule();
+    const status = networkMonitor.getStatus();
+    const hold = queueHoldReason(status, this.networkPolicy);
+    if (hold) {
+      this.holdQueued(hold);
+      return;
+    }
+
+    // Fill every free slot from the front of the queue, passing over jobs
+    // already known to be too large for this network
+    const sizeLimit = downloadSizeLimit(status, this.networkPolicy);
+    const startable = (j: DownloadJob) =>
+      j.status !== 'scheduled' &&
+      (sizeLimit === undefined || j.networkHold !== 'size_limit');
+    if (
+      this.activeDownloads.size >= this.maxConcurrent ||
+      !this.queue.some(startable)
+    ) {
+      if (this.activeDownloads.size === 0) this.setStorageHold(undefined);
+      return;
+    }
+
+    // Each job needs room for what it has left to write, on top of what the
+    // running ones still need and the reserve
+    const freeBytes = await getFreeSpace();
+    let available = Infinity;
+    if (freeBytes == null) {
+      console.warn('⚠️ [QUEUE] Free space unknown, starting without the storage check');
+    } else {
+      available =
+        freeBytes -
+        STORAGE_RESERVE_BYTES -
+        Array.from(this.activeDownloads.values()).reduce(
+          (total, job) => total + remainingDownloadBytes(job),
+          0,
+        );
+    }
+    while (this.activeDownloads.size < this.maxConcurrent) {
+      const idx = this.queue.findIndex(startable);
+      if (idx < 0) break;
+      const needed = remainingDownloadBytes(this.queue[idx]);
+      if (freeBytes != null && needed > available) {
+        this.setStorageHold({
+          requiredBytes: needed + STORAGE_RESERVE_BYTES,
+          freeBytes,
+        });
+        return;
+      }
+      available -= needed;
+      const [next] = this.queue.splice(idx, 1);
+      this.activeSizeLimit = sizeLimit;
+      void this.runJob(next);
+    }
+    this.setStorageHold(undefined);
+  }
+
+  private setStorageHold(hold: StorageHold | undefined): void {
+    if (!hold && !this.storageHold) return;
+    if (hold && !this.storageHold) {
+      console.log(
+        `💾 [QUEUE] Not enough storage: ${hold.requiredBytes} bytes needed, ${hold.freeBytes} free`,
+      );
+    }
+    this.storageHold = hold;
+    this.updateStorageMonitor();
+    this.notifyListeners();
+  }
+
+  // Watch free space while anything is writing or waiting for room
+  private updateStorageMonitor(): void {
+    const needed = this.activeDownloads.size > 0 || !!this.storageHold;
+    if (needed && !this.storageTimer) {
+      this.storageTimer = setInterval(
+        () => void this.checkStorage(),
+        STORAGE_CHECK_INTERVAL_MS,
+      );
+    } else if (!needed && this.storageTimer) {
+      clearInterval(this.storageTimer);
+      this.storageTimer = undefined;
+    }
+  }
+
+  /**
+   * Stop every running job before the disk fills up (direct streams keep
+   * their partial file), and start again once there's room.
+   */
+  private async checkStorage(): Promise<void> {
+    const freeBytes = await getFreeSpace();
+    if (freeBytes === undefined) return;
+
+    if (this.activeDownloads.size > 0 && freeBytes < STORAGE_CRITICAL_BYTES) {
+      const running = Array.from(this.activeDownloads.values());
+      const requiredBytes =
+        running.reduce((total, job) => total + remainingDownloadBytes(job), 0) +
+        STORAGE_RESERVE_BYTES;
+      running.reverse().forEach(job => this.requeueActive(job));
+      this.setStorageHold({ requiredBytes, freeBytes });
+      return;
+    }
+    if (this.storageHold) void this.processNext();
+  }
+
+  // Try again now, e.g. after the user freed some space
+  recheckStorage(): void {
+    void this.processNext();
+  }
+
+  // Mark every queued job as waiting; they keep their place in the queue.
+  // Jobs held as too large keep that reason, it outlasts this hold.
+  private holdQueued(hold: NetworkHoldReason): void {
+    let changed = false;
+    this.queue.forEach(job => {
+      if (job.status === 'scheduled') return;
+      if (
+        job.status === 'waiting_for_network' &&
+        (job.networkHold === hold || job.networkHold === 'size_limit')
+      ) {
+        return;
+      }
+      job.status = 'waiting_for_network';
+      job.networkHold = hold;
+      changed = true;
+    });
+    if (changed) this.notifyListeners();
+  }
+
+  /**
+   * Hold queued jobs that aren't due yet as 'scheduled' and let due ones
+   * through, then arrange to be woken when the next one is due.
+   */
+  private refreshSchedule(): void {
+    const now = Date.now();
+    let nextStart: number | undefined;
+    let changed = false;
+    this.queue.forEach(job => {
+      const startsAt = scheduledStart(job, this.quietHours, now);
+      if (startsAt !== undefined) {
+        nextStart = Math.min(nextStart ?? startsAt, startsAt);
+        if (job.status !== 'scheduled' || job.startsAt !== startsAt) {
+          job.status = 'scheduled';
+          job.startsAt = startsAt;
+          job.networkHold = undefined;
+          changed = true;
+        }
+      } else if (job.status === 'scheduled') {
+        job.status = 'queued';
+        job.startsAt = undefined;
+        changed = true;
+      }
+    });
+    this.scheduleWake(nextStart);
+    if (changed) this.notifyListeners();
+  }
+
+  // In-process timer while the app runs; the OS task covers a suspended app
+  private scheduleWake(at: number | undefined): void {
+    if (at === this.wakeAt) return;
+    this.wakeAt = at;
+    if (this.wakeTimer) clearTimeout(this.wakeTimer);
+    this.wakeTimer = undefined;
+    if (at === undefined) {
+      void backgroundTaskManager.cancelWake();
+      return;
+    }
+
+    this.wakeTimer = setTimeout(() => {
+      this.wakeAt = undefined;
+      void this.processNext();
+    }, Math.min(Math.max(0, at - Date.now()), MAX_TIMER_DELAY));
+    void backgroundTaskManager.scheduleWake(at);
+  }
+
+  getQuietHours(): QuietHours {
+    return this.quietHours;
+  }
+
+  setQuietHours(quietHours: QuietHours): void {
+    this.quietHours = quietHours;
+    storageService.setQuietHours(quietHours).catch(() => { });
+    void this.processNext();
+  }
+
+  // Drop a job's schedule so it starts as soon as a slot is free
+  startNow(id: string): void {
+    const job = this.queue.find(j => j.id === id);
+    if (!job || job.status !== 'scheduled') return;
+    job.notBefore = undefined;
+    job.quietHoursOnly = undefined;
+    void this.processNext();
+  }
+
+  /**
+   * Stop a running job and put it back at the front of the queue. Direct
+   * streams keep their partial file; SSE jobs start over. A job still
+   * setting up has nothing to stop yet and is left to finish or fail.
+   */
+  private requeueActive(job: DownloadJob): boolean {
+    if (!downloadService.pauseDirectStream(job.id)) {
+      const internalId = this.idMap.get(job.id);
+      if (!internalId) return false;
+      downloadService.cancelDownload(internalId);
+      this.idMap.delete(job.id);
+      job.progress = 0;
+      job.progressInfo = undefined;
+    }
+    this.activeDownloads.delete(job.id);
+    this.runIds.delete(job.id);
+    job.status = 'queued';
+    this.queue.unshift(job);
+    notificationService.cancelNotification(job.id);
+    return true;
+  }
+
+  // Re-check running and held jobs against the current network and policy
+  private applyNetworkState(): void {
+    const status = networkMonitor.getStatus();
+    const hold = queueHoldReason(status, this.networkPolicy);
+    const sizeLimit = downloadSizeLimit(status, this.networkPolicy);
+
+    // Running jobs were started without this limit (or a looser one)
+    const stricterLimit =
+      sizeLimit !== undefined &&
+      (this.activeSizeLimit === undefined || sizeLimit < this.activeSizeLimit);
+    if (hold || stricterLimit) {
+      Array.from(this.activeDownloads.values())
+        .reverse()
+        .forEach(job => this.requeueActive(job));
+    }
+    if (hold) {
+      console.log(`📵 [QUEUE] Holding downloads: ${hold}`);
+      this.holdQueued(hold);
+      this.notifyListeners();
+      return;
+    }
+
+    // Release the jobs this network allows
+    const released = this.queue.filter(
+      j =>
+        j.status === 'waiting_for_network' &&
+        (sizeLimit === undefined || j.networkHold !== 'size_limit'),
+    );
+    released.forEach(job => {
+      job.networkHold = undefined;
+      if (this.networkPolicy.autoResume) {
+        job.status = 'queued';
+      } else {
+        // Without auto-resume, held jobs wait for the user like paused ones
+        this.queue.splice(this.queue.indexOf(job), 1);
+        job.status = 'paused';
+        this.paused.push(job);
+      }
+    });
+    if (released.length > 0) {
+      console.log(`🌐 [QUEUE] Network allows ${released.length} held downloads`);
+    }
+    this.notifyListeners();
+    this.processNext().catch(error =>
+      console.error('❌ [QUEUE] Failed to resume after network change:', error),
+    );
+  }
+
+  getBandwidthLimit(): number {
+    return this.bandwidthLimitKBps;
+  }
+
+  // Shared by every job without its own cap; running transfers pick it up
+  setBandwidthLimit(limitKBps: number): void {
+    this.bandwidthLimitKBps = limitKBps;
+    setGlobalBandwidthLimit(limitKBps);
+    storageService.setBandwidthLimit(limitKBps).catch(() => { });
+  }
+
+  getFolderRules(): FolderRule[] {
+    return [...this.folderRules];
+  }
+
+  /**
+   * Add a folder rule once its folder is known to be writable; throws with
+   * a message for the user otherwise. Applies to jobs that start after it.
+   */
+  async addFolderRule(rule: Omit<FolderRule, 'id'>): Promise<FolderRule> {
+    if (!rule.format && !rule.channelName?.trim()) {
+      throw new Error('Choose a format or a channel for the rule');
+    }
+    await validateFolder(rule.folder);
+    const saved: FolderRule = {
+      ...rule,
+      channelName: rule.channelName?.trim() || undefined,
+      id: `${Date.now()}`,
+    };
+    this.folderRules = [...this.folderRules, saved];
+    await storageService.setFolderRules(this.folderRules);
+    return saved;
+  }
+
+  removeFolderRule(id: string): void {
+    this.folderRules = this.folderRules.filter(rule => rule.id !== id);
+    storageService.setFolderRules(this.folderRules).catch(() => { });
+  }
+
+  getNetworkPolicy(): NetworkPolicy {
+    return this.networkPolicy;
+  }
 
-    const next = this.queue.shift();
-    if (!next) return;
+  setNetworkPolicy(policy: NetworkPolicy): void {
+    this.networkPolicy = policy;
+    storageService.setNetworkPolicy(policy).catch(() => { });
+    this.applyNetworkState();
+  }
+
+  private isCurrentRun(job: DownloadJob, runId: number): boolean {
+    return (
+      this.activeDownloads.get(job.id) === job &&
+      this.runIds.get(job.id) === runId
+    );
+  }
 
-    this.activeDownload = next;
+  private async runJob(next: DownloadJob): Promise<void> {
+    const runId = ++this.nextRunId;
+    this.runIds.set(next.id, runId);
+    this.activeDownloads.set(next.id, next);
     next.status = 'downloading';
     next.startedAt = Date.now();
-    next.progress = 0;
+    // A resumed job keeps its progress until the first Range update arrives
+    next.progress = next.progress || 0;
+    this.updateStorageMonitor();
     this.notifyListeners();
 
-    // // Show notification immediately when download starts (not just on progress)
-    // notificationService.showDownloadProgress(
-    //   next.id,
-    //   next.videoTitle,
-    //   0,
-    //   'Starting download...',
-    //   () => this.cancelDownload(next.id),
-    // );
-
     try {
-      await this.executeDownload(next);
+      await this.executeWithQualityFallback(next, runId);
+      // Job was cancelled or paused while in flight - nothing to record
+      if (!this.isCurrentRun(next, runId)) return;
+
       next.status = 'completed';
       next.completedAt = Date.now();
       this.completed.set(next.id, { ...next });
 
       // Persist completed download to storage
-      if (next.filePath && next.filename) {
+      const chapterFiles = next.chapterFiles;
+      const downloadedAt = next.completedAt;
+      if (chapterFiles?.length) {
+        // Each chapter file is its own entry, grouped under this job. The
+        // whole-file entry downloadService wrote points at the deleted
+        // original, so it goes
+        await storageService.removeDownloadedVideo(next.id);
+        await storageService.addDownloadedVideos(
+          chapterFiles.map((file, i) => ({
+            id: `${next.id}_ch${i + 1}`,
+            videoId: next.videoId,
+            title: file.title,
+            format: next.format,
+            filePath: file.filePath,
+            filename: file.filename,
+            downloadedAt,
+            thumbnailUrl: next.thumbnailUrl,
+            channelName: next.channelName,
+            chapter: {
+              parentId: next.id,
+              parentTitle: next.videoTitle || 'Unknown',
+              index: i + 1,
+              count: chapterFiles.length,
+            },
+          })),
+        );
+        console.log(
+          `✅ [QUEUE] Saved ${chapterFiles.length} chapter files to storage: ${next.videoTitle}`,
+        );
+      } else if (next.filePath && next.filename) {
         console.log(`💾 [QUEUE] Saving completed download to storage...`);
         console.log(
           `📝 [QUEUE] Download details: ID=${next.id}, Title=${next.videoTitle}, File=${next.filename}`,
@@ -90,44 +545,249 @@ export class ClientDownloadQueue {
           id: next.id,
           videoId: next.videoId,
           title: next.videoTitle || 'Unknown',
-          format: next.format,
+          format:
+            next.captionsOnly && next.subtitles
+              ? next.subtitles.format
+              : next.format,
           filePath: next.filePath,
           filename: next.filename,
           downloadedAt: next.completedAt,
           thumbnailUrl: next.thumbnailUrl,
+          channelName: next.channelName,
+          quality: next.deliveredQuality
+            ? next.qualityPreference?.[0] ?? next.deliveredQuality
+            : undefined,
+          deliveredQuality: next.deliveredQuality,
         });
         console.log(
           `✅ [QUEUE] Successfully saved download to storage: ${next.filename}`,
         );
-
       } else {
         console.warn(
           `⚠️ [QUEUE] Cannot save download to storage - missing filePath or filename`,
         );
       }
     } catch (error: any) {
-      next.status = 'error';
-      next.error = error instanceof Error ? error.message : String(error);
-      next.completedAt = Date.now();
-      this.completed.set(next.id, { ...next });
+      if (!this.isCurrentRun(next, runId)) return;
+
+      // The disk filled up, too large for this network, or the connection
+      // dropped: hold the job (direct streams resume from their partial file)
+      // instead of failing it
+      const storageFull = next.errorReason === 'insufficient_storage';
+      const hold = storageFull
+        ? undefined
+        : next.errorReason === 'network_limit'
+          ? 'size_limit'
+          : queueHoldReason(await networkMonitor.refresh(), this.networkPolicy);
+      if (!this.isCurrentRun(next, runId)) return;
+
+      if (storageFull) {
+        console.log(`💾 [QUEUE] Job ${next.id} ran out of storage`);
+        notificationService.cancelNotification(next.id);
+        next.errorReason = undefined;
+        next.status = 'queued';
+        this.queue.unshift(next);
+        this.setStorageHold({
+          requiredBytes: remainingDownloadBytes(next) + STORAGE_RESERVE_BYTES,
+          freeBytes: (await getFreeSpace()) ?? 0,
+        });
+      } else if (hold) {
+        console.log(`📵 [QUEUE] Job ${next.id} waiting for network: ${hold}`);
+        notificationService.cancelNotification(next.id);
+        next.errorReason = undefined;
+        next.status = 'waiting_for_network';
+        next.networkHold = hold;
+        this.queue.unshift(next);
+      } else {
+        next.status = 'error';
+        next.error =
+          next.errorReason === 'quality_unavailable'
+            ? `${next.quality} isn't available for this video`
+            : error instanceof Error
+              ? error.message
+              : String(error);
+        next.completedAt = Date.now();
+        this.completed.set(next.id, { ...next });
+      }
     } finally {
       // Clean up mapping for this job
       const internalId = this.idMap.get(next.id);
       if (internalId) this.idMap.delete(next.id);
-      // Drop callbacks for this job
-      this.callbacks.delete(next.id);
+      // Drop callbacks for this job (paused and held jobs keep them for the resume)
+      if (!this.paused.includes(next) && !this.queue.includes(next)) {
+        this.callbacks.delete(next.id);
+      }
     }
 
-    this.activeDownload = null;
+    this.activeDownloads.delete(next.id);
+    this.runIds.delete(next.id);
+    this.updateStorageMonitor();
+    this.notifyListeners();
+    // A slot has been freed - continue with next
+    void this.processNext();
+  }
+
+  getMaxConcurrent(): number {
+    return this.maxConcurrent;
+  }
+
+  /**
+   * Change the number of concurrent download slots (clamped to 1-5).
+   * Lowering the limit lets in-flight jobs finish; it only affects new starts.
+   */
+  setMaxConcurrent(count: number): void {
+    const clamped = Math.max(
+      MIN_CONCURRENT_DOWNLOADS,
+      Math.min(MAX_CONCURRENT_DOWNLOADS, Math.round(count)),
+    );
+    if (clamped === this.maxConcurrent) return;
+
+    this.maxConcurrent = clamped;
+    storageService.setMaxConcurrentDownloads(clamped).catch(() => { });
     this.notifyListeners();
-    // continue with next
     void this.processNext();
   }
 
+  private downloadOptionsFor(job: DownloadJob): DownloadOptions {
+    return {
+      videoId: job.videoId,
+      format: job.format,
+      bitRate: job.bitRate,
+      quality: job.quality,
+      videoTitle: job.videoTitle,
+      channelName: job.channelName,
+      playlistIndex: job.playlistIndex,
+      thumbnailUrl: job.thumbnailUrl,
+      publishedAt: job.publishedAt,
+      clip: job.clip,
+      subtitles: job.subtitles,
+      captionsOnly: job.captionsOnly,
+      chapters: job.chapters,
+      maxBytes: downloadSizeLimit(
+        networkMonitor.getStatus(),
+        this.networkPolicy,
+      ),
+      bandwidthLimitKBps: job.bandwidthLimitKBps,
+      expectedBytes: job.expectedBytes,
+      outputFolder: job.outputFolder ?? folderFromRules(this.folderRules, job),
+    };
+  }
+
+  // Captions-only job: the subtitle file is the job's output
+  private async executeCaptionsOnly(job: DownloadJob): Promise<void> {
+    const cb = this.callbacks.get(job.id);
+    try {
+      const { filePath, filename } = await downloadService.downloadSubtitles(
+        this.downloadOptionsFor(job),
+      );
+      job.filePath = filePath;
+      job.filename = filename;
+      job.progress = 100;
+      job.progressInfo = { phase: 'transferring', percent: 100 };
+      cb?.onProgress?.(job.progressInfo);
+      cb?.onComplete?.(filePath, filename);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : 'Failed to save subtitles';
+      notificationService.showDownloadError(job.id, job.videoTitle, error);
+      cb?.onError?.(error);
+      throw new Error(error);
+    }
+  }
+
+  // Sidecar captions never fail the media download they belong to
+  private async saveSubtitleSidecar(
+    job: DownloadJob,
+    filePath: string,
+    filename: string,
+  ): Promise<void> {
+    try {
+      const saved = await downloadService.downloadSubtitles(
+        this.downloadOptionsFor(job),
+        { filePath, filename },
+      );
+      job.subtitlesPath = saved.filePath;
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      console.warn(`⚠️ [QUEUE] Subtitles not saved for ${job.id}: ${error}`);
+      notificationService.showDownloadError(
+        job.id,
+        job.videoTitle,
+        `Saved without subtitles: ${error}`,
+      );
+    }
+  }
+
+  // A failed split keeps the whole file, which is still a finished download
+  private async splitIntoChapters(
+    job: DownloadJob,
+    filePath: string,
+    filename: string,
+  ): Promise<void> {
+    notificationService.showDownloadProgress(
+      job.id,
+      job.videoTitle,
+      100,
+      'Splitting by chapters...',
+    );
+    try {
+      job.chapterFiles = await downloadService.splitByChapters(
+        this.downloadOptionsFor(job),
+        { filePath, filename },
+      );
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      console.warn(`⚠️ [QUEUE] Chapters not split for ${job.id}: ${error}`);
+      notificationService.showDownloadError(
+        job.id,
+        job.videoTitle,
+        `Saved as a single file: ${error}`,
+      );
+    }
+  }
+
+  // The resolution after the job's current one, if the server lacks it
+  private fallbackQuality(job: DownloadJob): string | undefined {
+    if (job.errorReason !== 'quality_unavailable' || !job.quality) {
+      return undefined;
+    }
+    return nextQuality(job.qualityPreference || [job.quality], job.quality);
+  }
+
+  // Steps down the job's quality preferences while the server lacks them
+  private async executeWithQualityFallback(
+    job: DownloadJob,
+    runId: number,
+  ): Promise<void> {
+    for (; ;) {
+      try {
+        await this.executeDownload(job);
+        return;
+      } catch (error) {
+        const fallback = this.fallbackQuality(job);
+        if (!fallback || !this.isCurrentRun(job, runId)) throw error;
+
+        console.log(
+          `🔽 [QUEUE] ${job.quality} not available for ${job.id} - trying ${fallback}`,
+        );
+        job.quality = fallback;
+        job.errorReason = undefined;
+        job.progress = 0;
+        job.progressInfo = undefined;
+        this.notifyListeners();
+      }
+    }
+  }
+
   private executeDownload(job: DownloadJob): Promise<void> {
     console.log('🔧 EXECUTING DOWNLOAD JOB:', job);
+    if (job.captionsOnly) {
+      return this.executeCaptionsOnly(job);
+    }
     return new Promise((resolve, reject) => {
       const cb = this.callbacks.get(job.id);
+      // Once this attempt settles, late callbacks from it (e.g. a method
+      // fallback still running) must not touch the job's next attempt
+      let settled = false;
 
       // 🔧 Force specific method if requested
       if (job.forceMethod) {
@@ -140,39 +800,57 @@ export class ClientDownloadQueue {
       // 🔧 Use Smart Download (chooses method based on config)
       downloadService
         .downloadVideoSmart(
-          {
-            videoId: job.videoId,
-            format: job.format,
-            bitRate: job.bitRate,
-            quality: job.quality,
-            videoTitle: job.videoTitle,
-          },
-          (progress: number) => {
-            job.progress = progress;
+          this.downloadOptionsFor(job),
+          (progress: DownloadProgressInfo) => {
+            if (settled) return;
+            job.progress = progress.percent;
+            job.progressInfo = progress;
             notificationService.showDownloadProgress(
               job.id,
               job.videoTitle,
-              progress,
-              'Downloading...',
+              progress.percent,
+              formatProgressDetails(progress),
               () => this.cancelDownload(job.id),
             );
             this.notifyListeners();
             cb?.onProgress?.(progress);
           },
-          (filePath: string, filename: string) => {
+          async (filePath: string, filename: string) => {
+            if (settled) return;
+            settled = true;
             job.filePath = filePath;
             job.filename = filename;
+            // MP3 quality is its bitrate; the resolution sent is a placeholder
+            job.deliveredQuality =
+              job.format === 'mp3' ? undefined : job.quality;
+            if (job.subtitles) {
+              await this.saveSubtitleSidecar(job, filePath, filename);
+            }
+            if (job.chapters?.length && job.format === 'mp3') {
+              await this.splitIntoChapters(job, filePath, filename);
+            }
             // notificationService.showDownloadComplete(job.id, job.videoTitle);
             cb?.onComplete?.(filePath, filename);
             resolve();
           },
-          (error: string) => {
-            notificationService.showDownloadError(
-              job.id,
-              job.videoTitle,
-              error,
-            );
-            cb?.onError?.(error);
+          (error: string, reason?: DownloadFailureReason) => {
+            if (settled) return;
+            settled = true;
+            job.errorReason = reason;
+            // Over the cellular limit is a hold, not a failure (see runJob),
+            // and a missing resolution with one left to try isn't either
+            if (
+              reason !== 'network_limit' &&
+              reason !== 'insufficient_storage' &&
+              !this.fallbackQuality(job)
+            ) {
+              notificationService.showDownloadError(
+                job.id,
+                job.videoTitle,
+                error,
+              );
+              cb?.onError?.(error);
+            }
             reject(new Error(error));
           },
           job.id,
@@ -182,6 +860,7 @@ export class ClientDownloadQueue {
           this.idMap.set(job.id, internalId);
         })
         .catch(err => {
+          settled = true;
           reject(err);
         });
     });
@@ -189,9 +868,12 @@ export class ClientDownloadQueue {
 
   getState(): DownloadQueueState {
     return {
-      activeDownload: this.activeDownload,
+      activeDownloads: Array.from(this.activeDownloads.values()),
+      maxConcurrent: this.maxConcurrent,
       queuedDownloads: [...this.queue],
+      pausedDownloads: [...this.paused],
       completedDownloads: new Map(this.completed),
+      storageHold: this.storageHold,
     };
   }
 
@@ -204,6 +886,22 @@ export class ClientDownloadQueue {
 
   private async restoreQueue() {
     try {
+      const savedMax = await storageService.getMaxConcurrentDownloads();
+      if (savedMax != null) {
+        this.maxConcurrent = Math.max(
+          MIN_CONCURRENT_DOWNLOADS,
+          Math.min(MAX_CONCURRENT_DOWNLOADS, savedMax),
+        );
+      }
+
+      this.networkPolicy = await storageService.getNetworkPolicy();
+      this.quietHours = await storageService.getQuietHours();
+      this.bandwidthLimitKBps = await storageService.getBandwidthLimit();
+      setGlobalBandwidthLimit(this.bandwidthLimitKBps);
+      this.folderRules = await storageService.getFolderRules();
+      // Know the real network before anything restored can start
+      await networkMonitor.refresh();
+
       const data = await storageService.loadDownloadQueue();
       if (!data) return;
 
@@ -213,17 +911,29 @@ export class ClientDownloadQueue {
         this.queue = data.queue.map(j => ({ ...j }));
       }
 
-      // Restore activeDownload (if any) as queued to resume
-      if (data.activeDownload) {
-        const activeJob: DownloadJob = {
-          ...data.activeDownload,
-        } as DownloadJob;
+      // Restore active downloads (if any) as queued to resume, keeping
+      // them ahead of the jobs that were still waiting
+      const activeJobs: DownloadJob[] = Array.isArray(data.activeDownloads)
+        ? data.activeDownloads
+        : data.activeDownload
+          ? [data.activeDownload]
+          : [];
+      const resumed = activeJobs.map(j => {
+        const activeJob: DownloadJob = { ...j } as DownloadJob;
         // Reset status & progress for safety
         activeJob.status = 'queued';
         activeJob.progress = activeJob.progress ?? 0;
-        this.queue.unshift(activeJob);
+        return activeJob;
+      });
+      this.queue.unshift(...resumed);
+
+      if (Array.isArray(data.paused)) {
+        this.paused = data.paused.map(j => ({ ...j, status: 'paused' }));
       }
 
+      if (this.paused.length > 0) {
+        this.notifyListeners();
+      }
       if (this.queue.length > 0) {
         this.notifyListeners();
         void this.processNext();
@@ -238,8 +948,9 @@ export class ClientDownloadQueue {
     if (this.persistDebounce) clearTimeout(this.persistDebounce);
     this.persistDebounce = setTimeout(() => {
       const snapshot: PersistedDownloadQueue = {
-        activeDownload: this.activeDownload,
+        activeDownloads: Array.from(this.activeDownloads.values()),
         queue: this.queue,
+        paused: this.paused,
       };
       storageService.saveDownloadQueue(snapshot);
     }, 250);
@@ -252,21 +963,31 @@ export class ClientDownloadQueue {
   }
 
   getJob(id: string): DownloadJob | null {
-    if (this.activeDownload?.id === id) return this.activeDownload;
-    return this.queue.find(j => j.id === id) || this.completed.get(id) || null;
+    const active = this.activeDownloads.get(id);
+    if (active) return active;
+    return (
+      this.queue.find(j => j.id === id) ||
+      this.paused.find(j => j.id === id) ||
+      this.completed.get(id) ||
+      null
+    );
   }
 
   cancelDownload(id: string): void {
-    if (this.activeDownload?.id === id) {
+    if (this.activeDownloads.has(id)) {
       // Attempt to cancel underlying service
       const internalId = this.idMap.get(id);
       if (internalId) {
         downloadService.cancelDownload(internalId);
         this.idMap.delete(id);
       }
+      // Direct-stream transfers are tracked by local id until they finish
+      void downloadService.cancelDirectStream(id);
       // Cancel notification and drop the active job so it disappears from the list
       notificationService.cancelNotification(id);
-      this.activeDownload = null;
+      this.activeDownloads.delete(id);
+      this.runIds.delete(id);
+      this.callbacks.delete(id);
       this.notifyListeners();
       void this.processNext();
       return;
@@ -277,6 +998,18 @@ export class ClientDownloadQueue {
       // Remove from queue entirely and cancel notification
       this.queue.splice(idx, 1);
       notificationService.cancelNotification(id);
+      // A restored job may still have a partial file from an earlier run
+      void downloadService.cancelDirectStream(id);
+      this.notifyListeners();
+      return;
+    }
+
+    const pausedIdx = this.paused.findIndex(j => j.id === id);
+    if (pausedIdx >= 0) {
+      // Drop the paused job and its partial file
+      this.paused.splice(pausedIdx, 1);
+      this.callbacks.delete(id);
+      void downloadService.cancelDirectStream(id);
       this.notifyListeners();
       return;
     }
@@ -284,17 +1017,86 @@ export class ClientDownloadQueue {
     // If already completed but user tries to cancel, ignore
   }
 
+  /**
+   * Pause a queued or downloading job. Active jobs can only be paused while
+   * they run over direct stream (SSE jobs have no resumable partial file).
+   * Returns false when the job cannot be paused.
+   */
+  pauseDownload(id: string): boolean {
+    const active = this.activeDownloads.get(id);
+    if (active) {
+      if (!downloadService.pauseDirectStream(id)) return false;
+
+      this.activeDownloads.delete(id);
+      this.runIds.delete(id);
+      active.status = 'paused';
+      this.paused.push(active);
+      notificationService.cancelNotification(id);
+      this.notifyListeners();
+      // The freed slot goes to the next queued job
+      void this.processNext();
+      return true;
+    }
+
+    const idx = this.queue.findIndex(j => j.id === id);
+    if (idx >= 0) {
+      const [job] = this.queue.splice(idx, 1);
+      job.status = 'paused';
+      job.networkHold = undefined;
+      this.paused.push(job);
+      this.notifyListeners();
+      return true;
+    }
+
+    return false;
+  }
+
+  // Put a paused job back at the front of the queue
+  resumeDownload(id: string): void {
+    const idx = this.paused.findIndex(j => j.id === id);
+    if (idx < 0) return;
+
+    const [job] = this.paused.splice(idx, 1);
+    job.status = 'queued';
+    this.queue.unshift(job);
+    this.notifyListeners();
+    void this.processNext();
+  }
+
   retryDownload(id: string): void {
     const job = this.completed.get(id);
     if (job && job.status === 'error') {
       this.completed.delete(id);
       // reset fields
       job.progress = 0;
+      job.progressInfo = undefined;
       job.error = undefined;
+      // Start over from the first preference
+      job.quality = job.qualityPreference?.[0] ?? job.quality;
+      job.deliveredQuality = undefined;
       job.startedAt = undefined;
       job.completedAt = undefined;
       job.status = 'queued';
-      this.enqueue(job);
+      // A corrupted file must be fetched again from byte 0, so drop any
+      // partial bytes left for this job before it can start
+      if (job.errorReason === 'corrupted') {
+        job.errorReason = undefined;
+        downloadService
+          .cancelDirectStream(job.id)
+          .then(() => this.enqueue(job, true))
+          .catch(error => {
+            // Back to the failed list so the retry can be tried again
+            console.error(`❌ [QUEUE] Retry of ${job.id} failed:`, error);
+            job.status = 'error';
+            job.error = error instanceof Error ? error.message : String(error);
+            job.completedAt = Date.now();
+            this.completed.set(job.id, job);
+            this.notifyListeners();
+          });
+        return;
+      }
+      // Asked for explicitly, so even a duplicate is queued
+      this.enqueue(job, true);
     }
   }
 
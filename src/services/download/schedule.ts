@@ -0,0 +1,47 @@
+import type { DownloadSchedule, QuietHours } from '../../types/schedule';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_MINUTE = 60 * 1000;
+
+const minuteOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+export function isInQuietHours(quietHours: QuietHours, at: number): boolean {
+  if (!quietHours.enabled) return false;
+  // Same start and end: the window covers the whole day
+  if (quietHours.start === quietHours.end) return true;
+  const minute = minuteOfDay(new Date(at));
+  return quietHours.start < quietHours.end
+    ? minute >= quietHours.start && minute < quietHours.end
+    : minute >= quietHours.start || minute < quietHours.end;
+}
+
+// `from` itself when already inside the window, else the next window start
+export function nextQuietHoursStart(quietHours: QuietHours, from: number): number {
+  if (isInQuietHours(quietHours, from)) return from;
+
+  const date = new Date(from);
+  let minutesAhead = quietHours.start - minuteOfDay(date);
+  if (minutesAhead <= 0) minutesAhead += MINUTES_PER_DAY;
+  date.setSeconds(0, 0);
+  return date.getTime() + minutesAhead * MS_PER_MINUTE;
+}
+
+/**
+ * When a job with this schedule may start, or undefined when it can start
+ * now. Quiet-hours jobs wait for the window only while it is enabled.
+ */
+export function scheduledStart(
+  schedule: DownloadSchedule,
+  quietHours: QuietHours,
+  now: number = Date.now(),
+): number | undefined {
+  let start = schedule.notBefore && schedule.notBefore > now ? schedule.notBefore : now;
+  if (schedule.quietHoursOnly && quietHours.enabled) {
+    start = nextQuietHoursStart(quietHours, start);
+  }
+  return start > now ? start : undefined;
+}
+
+// "23:00"
+export const formatMinuteOfDay = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
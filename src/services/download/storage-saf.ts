@@ -58,6 +58,49 @@ export async function openSafTarget(
   }
 }
 
+/**
+ * Creates (if needed) a folder inside a SAF tree
+ * @param treeUri - The SAF tree URI (from openDocumentTree)
+ * @param name - The folder name
+ * @returns The URI of the folder, usable as a tree URI for openSafTarget
+ */
+export async function ensureSafDirectory(
+  treeUri: string,
+  name: string
+): Promise<string> {
+  if (!safX) {
+    throw new Error('react-native-saf-x is not available');
+  }
+
+  const dirUri = `${treeUri}/${encodeURIComponent(name)}`;
+  try {
+    if (!(await safX.exists(dirUri))) {
+      await safX.mkdir(dirUri);
+    }
+    return dirUri;
+  } catch (error) {
+    logger.error('Failed to create SAF directory:', { treeUri, name, error });
+    throw error;
+  }
+}
+
+/**
+ * Deletes a SAF document
+ * @param uri - The content URI of the document
+ */
+export async function safUnlink(uri: string): Promise<void> {
+  if (!safX) {
+    throw new Error('react-native-saf-x is not available');
+  }
+
+  try {
+    await safX.unlink(uri);
+  } catch (error) {
+    logger.error('Failed to delete SAF document:', { uri, error });
+    throw error;
+  }
+}
+
 /**
  * Appends base64 data to a SAF document
  * @param uri - The content URI of the document
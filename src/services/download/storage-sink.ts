@@ -5,6 +5,7 @@
 
 import RNFS from 'react-native-fs';
 import { logger } from '../../utils/logger';
+import type { RateLimiter } from './throttle';
 
 let safX: any;
 try {
@@ -24,13 +25,18 @@ export interface Sink {
  * @param baseDir - Base directory (SAF URI or filesystem path)
  * @param filename - Target filename
  * @param mimeType - MIME type of the file
+ * @param limiter - Optional bandwidth cap; writes wait for their share
  * @returns Sink interface for writing chunks
  */
 export async function createSink(
   baseDir: string,
   filename: string,
-  mimeType: string
+  mimeType: string,
+  limiter?: RateLimiter
 ): Promise<Sink> {
+  const throttle = (b64: string) =>
+    limiter ? limiter.take(Math.floor((b64.length * 3) / 4)) : Promise.resolve();
+
   if (baseDir.startsWith('content://')) {
     // SAF path
     if (!safX) {
@@ -71,6 +77,7 @@ export async function createSink(
 
     return {
       writeBase64: async (b64: string) => {
+        await throttle(b64);
         await safX.writeFile(uri, b64, {
           encoding: 'base64',
           append: true,
@@ -94,6 +101,7 @@ export async function createSink(
 
     return {
       writeBase64: async (b64: string) => {
+        await throttle(b64);
         await RNFS.appendFile(partPath, b64, 'base64');
       },
       finalize: async () => {
@@ -1,6 +1,14 @@
 import RNFS from 'react-native-fs';
+import { Platform } from 'react-native';
 import ReactNativeBlobUtil from 'react-native-blob-util';
+import { DOWNLOAD_FOLDER_NAME } from '../../config/env';
 import { normalizeBase64 } from './chunks';
+import { DownloadCorruptedError } from './errors';
+import { verifyDownloadedFile, type IntegrityExpectations } from './integrity';
+import { tagDownloadedFile, type TaggingRequest } from './tagging';
+import { openSafTarget } from './storage-saf';
+import { startThrottledDownload, type RateLimiter } from './throttle';
+import type { ProgressUpdate } from '../../types/progress';
 
 import {
   writeFile as safWriteFile,
@@ -9,14 +17,42 @@ import {
   unlink,
   hasPermission,
   listFiles,
+  stat as safStat,
 } from 'react-native-saf-x';
 
+// Where downloads go until the user picks a folder
+export const defaultDownloadPath = (): string =>
+  Platform.OS === 'android'
+    ? `${RNFS.DownloadDirectoryPath}/${DOWNLOAD_FOLDER_NAME}`
+    : `${RNFS.DocumentDirectoryPath}/${DOWNLOAD_FOLDER_NAME}`;
+
+// Partial files of saveFromUrl and of direct-stream downloads. Failed or
+// abandoned transfers can leave files behind in both.
+export const SAVE_TEMP_DIR = `${RNFS.CachesDirectoryPath}/YTDownloader_Temp`;
+export const DIRECT_STREAM_TEMP_DIR = `${RNFS.DownloadDirectoryPath}/${DOWNLOAD_FOLDER_NAME}_Temp`;
+
+// Size in bytes of a saved file (filesystem path or SAF uri), if readable
+export async function getFileSize(path: string): Promise<number | undefined> {
+  try {
+    const info = path.startsWith('content://')
+      ? await safStat(path)
+      : await RNFS.stat(path);
+    const size = Number(info?.size);
+    return Number.isFinite(size) ? size : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 export async function saveFromUrl(
   url: string,
   filename: string,
   mimeType?: string | null,
   customDownloadPath?: string | null,
-  onProgress?: (progress: number) => void,
+  onProgress?: (update: ProgressUpdate) => void,
+  verification?: Omit<IntegrityExpectations, 'format'>,
+  tagging?: TaggingRequest,
+  limiter?: RateLimiter,
 ): Promise<string> {
   const timestamp = new Date().toISOString();
   console.log(`[${timestamp}] 🌐 Starting URL save operation...`);
@@ -32,39 +68,89 @@ export async function saveFromUrl(
 
     // 1. Download to a temporary location first (Unified approach)
     // Using cache directory ensures we don't pollute user folders with partials
-    const tempDir = `${RNFS.CachesDirectoryPath}/YTDownloader_Temp`;
+    const tempDir = SAVE_TEMP_DIR;
     if (!(await RNFS.exists(tempDir))) await RNFS.mkdir(tempDir);
     
     const tempPath = `${tempDir}/${Date.now()}_${filename}`;
     console.log(`⬇️ Downloading to temp: ${tempPath}`);
+    let contentLength = 0;
+    let bytesWritten = 0;
+
+    const reportProgress = (written: number, total: number) => {
+      const rawPct = total > 0 ? (written / total) * 100 : 0;
+      // If SAF, we reserve last 10% for the copy phase
+      const reportedPct = isSaf ? Math.min(90, rawPct * 0.9) : rawPct;
+
+      onProgress?.({
+        phase: 'transferring',
+        percent: reportedPct,
+        bytesReceived: written,
+        totalBytes: total > 0 ? total : undefined,
+      });
+    };
 
-    // RNFS.downloadFile options
-    const options: RNFS.DownloadFileOptions = {
-      fromUrl: url,
-      toFile: tempPath,
-      background: true,     // iOS: Enables background downloading
-      discretionary: true,  // iOS: Allows OS to schedule optimally
-      progressDivider: 5,
-      begin: (res) => {
-         console.log(`[Download] Starting. Size: ${res.contentLength}`);
-      },
-      progress: async (res) => {
-        const total = res.contentLength;
-        const written = res.bytesWritten;
-        if (total > 0) {
-          const rawPct = (written / total) * 100;
-          // If SAF, we reserve last 10% for the copy phase
-          const reportedPct = isSaf ? Math.min(90, rawPct * 0.9) : rawPct;
-          
-          onProgress?.(reportedPct);
+    // Capped transfers are paced from JS; RNFS can't limit its own rate
+    const paced = limiter
+      ? await startThrottledDownload(url, tempPath, {
+          limiter,
+          onProgress: reportProgress,
+        }).promise
+      : undefined;
+
+    if (paced?.ranged) {
+      if (paced.status >= 400) {
+        throw new Error(`HTTP Error ${paced.status}`);
+      }
+      contentLength = paced.totalSize || 0;
+      bytesWritten = paced.bytesWritten;
+    } else {
+      if (paced) {
+        console.warn('⚠️ Server ignores Range requests - downloading without the bandwidth cap');
+      }
+
+      // RNFS.downloadFile options
+      const options: RNFS.DownloadFileOptions = {
+        fromUrl: url,
+        toFile: tempPath,
+        background: true,     // iOS: Enables background downloading
+        discretionary: true,  // iOS: Allows OS to schedule optimally
+        progressDivider: 5,
+        begin: (res) => {
+           contentLength = res.contentLength;
+           console.log(`[Download] Starting. Size: ${res.contentLength}`);
+        },
+        progress: async (res) => {
+          reportProgress(res.bytesWritten, res.contentLength);
         }
+      };
+
+      const result = await RNFS.downloadFile(options).promise;
+
+      if (result.statusCode >= 400) {
+        throw new Error(`HTTP Error ${result.statusCode}`);
       }
-    };
+      bytesWritten = result.bytesWritten;
+    }
 
-    const result = await RNFS.downloadFile(options).promise;
+    // Verify before moving anything into the user's folder
+    try {
+      if (contentLength > 0 && bytesWritten !== contentLength) {
+        throw new DownloadCorruptedError(
+          `expected ${contentLength} bytes, received ${bytesWritten}`,
+        );
+      }
+      await verifyDownloadedFile(tempPath, {
+        ...verification,
+        format: filename,
+      });
+    } catch (verifyError) {
+      await RNFS.unlink(tempPath).catch(() => {});
+      throw verifyError;
+    }
 
-    if (result.statusCode >= 400) {
-      throw new Error(`HTTP Error ${result.statusCode}`);
+    // Tags change the bytes, so this has to come after the checksum
+    if (tagging) {
+      await tagDownloadedFile(tempPath, tagging.format, tagging.metadata);
     }
 
     // 2. Move or Stream to Final Destination
@@ -128,14 +214,14 @@ export async function saveFromUrl(
          offset += len;
          
          const pct = 90 + Math.floor((offset / fileSize) * 10);
-         onProgress?.(Math.min(100, pct));
+         onProgress?.({ phase: 'exporting', percent: Math.min(100, pct) });
        }
        
        // Cleanup temp
        await RNFS.unlink(tempPath);
        
        console.log(`✅ Saved to SAF: ${targetUri}`);
-       onProgress?.(100);
+       onProgress?.({ phase: 'exporting', percent: 100 });
        return targetUri;
 
     } else {
@@ -156,13 +242,18 @@ export async function saveFromUrl(
       await RNFS.moveFile(tempPath, finalPath);
       
       console.log(`✅ Moved to: ${finalPath}`);
-      onProgress?.(100);
+      onProgress?.({ phase: 'transferring', percent: 100 });
       return finalPath;
     }
 
   } catch (error: any) {
     const errorMessage = error?.message || 'Unknown error';
     console.error('❌ Failed to save file from URL:', errorMessage, error);
+
+    // Callers use this to mark the job as corrupted
+    if (error instanceof DownloadCorruptedError) {
+      throw error;
+    }
     
     // Provide more helpful error messages
     if (errorMessage.includes('permission') || errorMessage.includes('Permission')) {
@@ -175,10 +266,37 @@ export async function saveFromUrl(
   }
 }
 
+/**
+ * Remove the first `count` bytes of a file in place (chunked to avoid OOM).
+ * Used when a resumed request was answered with the full body instead of 206.
+ */
+export async function dropLeadingBytes(
+  path: string,
+  count: number,
+): Promise<void> {
+  const stat = await RNFS.stat(path);
+  const fileSize = Number(stat.size);
+  const trimmedPath = `${path}.trim`;
+  const chunkSize = 1024 * 1024; // 1 MB
+
+  await RNFS.writeFile(trimmedPath, '', 'base64');
+  let offset = count;
+  while (offset < fileSize) {
+    const len = Math.min(chunkSize, fileSize - offset);
+    const chunk = await RNFS.read(path, len, offset, 'base64');
+    await RNFS.appendFile(trimmedPath, chunk, 'base64');
+    offset += len;
+  }
+
+  await RNFS.unlink(path);
+  await RNFS.moveFile(trimmedPath, path);
+}
+
 export async function saveFileToCacheAndExport(
   base64Data: string,
   filename: string,
   customDownloadPath?: string | null,
+  tagging?: TaggingRequest,
 ): Promise<string> {
   const timestamp = new Date().toISOString();
   console.log(`[${timestamp}] 💾 Starting file save operation...`);
@@ -268,6 +386,10 @@ export async function saveFileToCacheAndExport(
       console.log(`✅ File saved: ${(stats.size / 1024 / 1024).toFixed(2)} MB`);
     }
 
+    if (tagging) {
+      await tagDownloadedFile(cachePath, tagging.format, tagging.metadata);
+    }
+
     // Step 2: Export to user-selected path
     if (customDownloadPath) {
       console.log('📤 User selected location, attempting export...');
@@ -365,6 +487,27 @@ export async function exportToMediaStore(
   }
 }
 
+/**
+ * Copy a local file into a SAF folder in 1 MB chunks, replacing any file of
+ * the same name. Returns the document URI.
+ */
+export async function copyToSafDirectory(
+  sourcePath: string,
+  dirUri: string,
+  filename: string,
+  mimeType: string,
+): Promise<string> {
+  const uri = await openSafTarget(dirUri, filename, mimeType);
+  const size = Number((await RNFS.stat(sourcePath)).size);
+  const chunkSize = 1024 * 1024;
+  for (let offset = 0; offset < size; offset += chunkSize) {
+    const len = Math.min(chunkSize, size - offset);
+    const chunk = await RNFS.read(sourcePath, len, offset, 'base64');
+    await safWriteFile(uri, chunk, { encoding: 'base64', append: offset > 0 });
+  }
+  return uri;
+}
+
 export async function exportToUserLocation(
   sourcePath: string,
   filename: string,
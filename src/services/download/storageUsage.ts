@@ -0,0 +1,195 @@
+import RNFS from 'react-native-fs';
+import { unlink as safUnlink } from 'react-native-saf-x';
+import { storageService, type DownloadedVideo } from '../storageService';
+import { DIRECT_STREAM_TEMP_DIR, SAVE_TEMP_DIR } from './storage';
+import { getFreeSpace } from './diskSpace';
+import type { VideoFormat } from '../../types/video';
+
+/**
+ * Disk used by downloads, for the storage screen: saved files grouped a few
+ * ways, leftover temp files, and rules for freeing space.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AGE_BUCKETS = [
+  { label: 'This week', days: 7 },
+  { label: 'This month', days: 30 },
+  { label: 'Last 3 months', days: 90 },
+  { label: 'Older', days: Infinity },
+];
+
+// A temp file written to this recently may belong to a running transfer
+const TEMP_FILE_MIN_AGE_MS = 5 * 60 * 1000;
+
+export interface UsageGroup {
+  label: string;
+  bytes: number;
+  count: number;
+}
+
+export interface StorageUsage {
+  entries: DownloadedVideo[]; // Saved downloads whose file is still there
+  totalBytes: number;
+  byFormat: UsageGroup[];
+  byChannel: UsageGroup[];
+  byAge: UsageGroup[];
+  tempBytes: number;
+  tempFiles: number;
+  freeBytes?: number; // Free space on the device, when it can be read
+}
+
+// "Delete watched MP4s older than 30 days"
+export interface CleanupRule {
+  id: string;
+  label: string;
+  format?: VideoFormat;
+  olderThanDays: number;
+  watchedOnly?: boolean;
+}
+
+export const CLEANUP_RULES: CleanupRule[] = [
+  {
+    id: 'watched_mp4_30d',
+    label: 'Watched MP4s older than 30 days',
+    format: 'mp4',
+    olderThanDays: 30,
+    watchedOnly: true,
+  },
+  {
+    id: 'watched_90d',
+    label: 'Watched downloads older than 90 days',
+    olderThanDays: 90,
+    watchedOnly: true,
+  },
+  {
+    id: 'all_365d',
+    label: 'Anything older than a year',
+    olderThanDays: 365,
+  },
+];
+
+const sizeOf = (entry: DownloadedVideo) => entry.fileSize ?? 0;
+
+// Largest group first
+function groupBy(
+  entries: DownloadedVideo[],
+  labelOf: (entry: DownloadedVideo) => string,
+): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+  entries.forEach(entry => {
+    const label = labelOf(entry);
+    const group = groups.get(label) || { label, bytes: 0, count: 0 };
+    group.bytes += sizeOf(entry);
+    group.count += 1;
+    groups.set(label, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => b.bytes - a.bytes);
+}
+
+const ageLabel = (entry: DownloadedVideo, now: number) =>
+  AGE_BUCKETS.find(bucket => now - entry.downloadedAt < bucket.days * DAY_MS)!
+    .label;
+
+async function listTempFiles(): Promise<RNFS.ReadDirItem[]> {
+  const files: RNFS.ReadDirItem[] = [];
+  for (const dir of [SAVE_TEMP_DIR, DIRECT_STREAM_TEMP_DIR]) {
+    try {
+      if (!(await RNFS.exists(dir))) continue;
+      files.push(...(await RNFS.readDir(dir)).filter(item => item.isFile()));
+    } catch (error) {
+      console.warn(`⚠️ [STORAGE] Could not list ${dir}:`, error);
+    }
+  }
+  return files;
+}
+
+export async function getStorageUsage(now = Date.now()): Promise<StorageUsage> {
+  const entries = (await storageService.getDownloadedVideos()).filter(
+    entry => !entry.missing,
+  );
+  const tempFiles = await listTempFiles();
+
+  const freeBytes = await getFreeSpace();
+
+  return {
+    entries,
+    totalBytes: entries.reduce((total, entry) => total + sizeOf(entry), 0),
+    byFormat: groupBy(entries, entry => entry.format.toUpperCase()),
+    byChannel: groupBy(entries, entry => entry.channelName || 'Unknown channel'),
+    byAge: groupBy(entries, entry => ageLabel(entry, now)).sort(
+      (a, b) =>
+        AGE_BUCKETS.findIndex(bucket => bucket.label === a.label) -
+        AGE_BUCKETS.findIndex(bucket => bucket.label === b.label),
+    ),
+    tempBytes: tempFiles.reduce((total, file) => total + Number(file.size), 0),
+    tempFiles: tempFiles.length,
+    freeBytes,
+  };
+}
+
+/**
+ * Delete leftover temp files. Partial files of jobs in `keepJobIds` (paused
+ * direct-stream downloads resume from them) and files still being written
+ * are kept. Returns what was freed.
+ */
+export async function cleanTempFiles(
+  keepJobIds: string[],
+  now = Date.now(),
+): Promise<{ files: number; bytes: number }> {
+  const freed = { files: 0, bytes: 0 };
+  for (const file of await listTempFiles()) {
+    const modifiedAt = file.mtime?.getTime() ?? 0;
+    if (now - modifiedAt < TEMP_FILE_MIN_AGE_MS) continue;
+    if (keepJobIds.some(id => file.name.startsWith(`${id}_`))) continue;
+    try {
+      await RNFS.unlink(file.path);
+      freed.files += 1;
+      freed.bytes += Number(file.size);
+    } catch (error) {
+      console.warn(`⚠️ [STORAGE] Could not delete ${file.path}:`, error);
+    }
+  }
+  console.log(
+    `🧹 [STORAGE] Cleaned ${freed.files} temp files (${freed.bytes} bytes)`,
+  );
+  return freed;
+}
+
+export function entriesForCleanupRule(
+  entries: DownloadedVideo[],
+  rule: CleanupRule,
+  now = Date.now(),
+): DownloadedVideo[] {
+  const cutoff = now - rule.olderThanDays * DAY_MS;
+  return entries.filter(
+    entry =>
+      (!rule.format || entry.format === rule.format) &&
+      (!rule.watchedOnly || entry.watchedAt !== undefined) &&
+      entry.downloadedAt < cutoff,
+  );
+}
+
+/**
+ * Delete downloads' files and their history entries. An entry whose file
+ * can't be deleted is kept. Returns the bytes freed.
+ */
+export async function deleteDownloadFiles(
+  entries: DownloadedVideo[],
+): Promise<number> {
+  let freed = 0;
+  for (const entry of entries) {
+    try {
+      if (entry.filePath.startsWith('content://')) {
+        await safUnlink(entry.filePath);
+      } else if (await RNFS.exists(entry.filePath)) {
+        await RNFS.unlink(entry.filePath);
+      }
+      await storageService.removeDownloadedVideo(entry.id);
+      freed += sizeOf(entry);
+    } catch (error) {
+      console.warn(`⚠️ [STORAGE] Could not delete ${entry.filePath}:`, error);
+    }
+  }
+  return freed;
+}
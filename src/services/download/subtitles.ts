@@ -0,0 +1,51 @@
+import RNFS from 'react-native-fs';
+import type { SubtitleOptions } from '../../types/subtitle';
+import { encodeBase64, encodeUtf8 } from './bytes';
+import { isSafUri, openSafTarget, safWriteBase64 } from './storage-saf';
+
+const SUBTITLE_MIME_TYPES = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+};
+
+// Extension for a subtitle file, e.g. ".en.srt"
+export const subtitleExtension = (subtitles: SubtitleOptions) =>
+  `.${subtitles.language}.${subtitles.format}`;
+
+/**
+ * Sidecar name for a saved media file: same basename, so players pick the
+ * captions up automatically ("Talk.mp4" -> "Talk.en.srt").
+ */
+export function subtitleFilename(
+  mediaFilename: string,
+  subtitles: SubtitleOptions,
+): string {
+  const dot = mediaFilename.lastIndexOf('.');
+  const basename = dot > 0 ? mediaFilename.substring(0, dot) : mediaFilename;
+  return `${basename}${subtitleExtension(subtitles)}`;
+}
+
+/**
+ * Write subtitle text into `dir` (filesystem path or SAF tree URI),
+ * replacing any file of the same name. Returns the saved path or URI.
+ */
+export async function writeSubtitleFile(
+  dir: string,
+  filename: string,
+  content: string,
+  subtitles: SubtitleOptions,
+): Promise<string> {
+  if (isSafUri(dir)) {
+    const uri = await openSafTarget(
+      dir,
+      filename,
+      SUBTITLE_MIME_TYPES[subtitles.format],
+    );
+    await safWriteBase64(uri, encodeBase64(encodeUtf8(content)));
+    return uri;
+  }
+
+  const path = `${dir}/${filename}`;
+  await RNFS.writeFile(path, content, 'utf8');
+  return path;
+}
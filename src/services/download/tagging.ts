@@ -0,0 +1,373 @@
+import RNFS from 'react-native-fs';
+import type { TaggableFormat } from '../../types/tagging';
+import {
+  concatBytes,
+  decodeBase64,
+  encodeUtf8,
+  id3TagSize,
+  latin1,
+  readAscii,
+  readBytes,
+  readUint32,
+  rewriteFile,
+  uint32Bytes,
+  type FilePart,
+} from './bytes';
+
+export interface TrackMetadata {
+  title: string;
+  artist?: string; // Channel name
+  date?: string; // ISO 8601, e.g. the video's publishedAt
+  sourceUrl?: string;
+  artworkUrl?: string; // Thumbnail to embed as cover art
+  album?: string; // Parent video title, for per-chapter files
+  track?: { number: number; total: number };
+}
+
+export interface TaggingRequest {
+  format: TaggableFormat;
+  metadata: TrackMetadata;
+}
+
+interface Artwork {
+  mimeType: 'image/jpeg' | 'image/png';
+  bytes: Uint8Array;
+}
+
+interface BoxRef {
+  type: string;
+  start: number;
+  size: number;
+  headerSize: number;
+}
+
+const MAX_ARTWORK_BYTES = 2 * 1024 * 1024;
+const MAX_TOP_LEVEL_BOXES = 10000;
+// Boxes on the path from a trak down to its chunk offset tables
+const SAMPLE_TABLE_PATH = new Set(['trak', 'mdia', 'minf', 'stbl']);
+
+export const isTaggableFormat = (format: string): format is TaggableFormat =>
+  format === 'mp3' || format === 'mp4';
+
+// ID3v2.4 wants "yyyy-MM-dd"; anything unparseable is left out
+const tagDate = (date?: string) => date?.match(/^\d{4}(-\d{2}(-\d{2})?)?/)?.[0];
+
+// Chapter files of one download share a cover; keep the last one fetched
+let lastArtwork: { url: string; artwork: Artwork } | null = null;
+
+async function fetchArtwork(url: string): Promise<Artwork | null> {
+  if (lastArtwork?.url === url) return lastArtwork.artwork;
+  const tempPath = `${RNFS.CachesDirectoryPath}/artwork_${Date.now()}`;
+  try {
+    const result = await RNFS.downloadFile({ fromUrl: url, toFile: tempPath })
+      .promise;
+    if (result.statusCode >= 400 || result.bytesWritten > MAX_ARTWORK_BYTES) {
+      return null;
+    }
+    const bytes = decodeBase64(await RNFS.readFile(tempPath, 'base64'));
+    let artwork: Artwork | null = null;
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      artwork = { mimeType: 'image/jpeg', bytes };
+    } else if (readAscii(bytes, 1, 4) === 'PNG') {
+      artwork = { mimeType: 'image/png', bytes };
+    }
+    if (artwork) lastArtwork = { url, artwork };
+    return artwork;
+  } catch (error) {
+    console.warn('⚠️ [TAGS] Could not fetch artwork, tagging without it', error);
+    return null;
+  } finally {
+    await RNFS.unlink(tempPath).catch(() => { });
+  }
+}
+
+// ---- ID3v2.4 (MP3) ----
+
+const synchsafe = (n: number) =>
+  Uint8Array.of((n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f);
+
+const ID3_UTF8 = Uint8Array.of(0x03);
+
+const id3Frame = (id: string, body: Uint8Array) =>
+  concatBytes([latin1(id), synchsafe(body.length), Uint8Array.of(0, 0), body]);
+
+const id3Text = (id: string, text: string) =>
+  id3Frame(id, concatBytes([ID3_UTF8, encodeUtf8(text)]));
+
+function buildId3Tag(metadata: TrackMetadata, artwork: Artwork | null) {
+  const frames = [id3Text('TIT2', metadata.title)];
+  if (metadata.artist) frames.push(id3Text('TPE1', metadata.artist));
+  if (metadata.album) frames.push(id3Text('TALB', metadata.album));
+  if (metadata.track) {
+    frames.push(
+      id3Text('TRCK', `${metadata.track.number}/${metadata.track.total}`),
+    );
+  }
+  const date = tagDate(metadata.date);
+  if (date) frames.push(id3Text('TDRC', date));
+  // WOAS: official audio source webpage (URL frames are always Latin-1)
+  if (metadata.sourceUrl) frames.push(id3Frame('WOAS', latin1(metadata.sourceUrl)));
+  if (artwork) {
+    frames.push(
+      id3Frame(
+        'APIC',
+        concatBytes([
+          ID3_UTF8,
+          latin1(artwork.mimeType),
+          Uint8Array.of(0, 0x03, 0), // MIME terminator, front cover, empty description
+          artwork.bytes,
+        ]),
+      ),
+    );
+  }
+
+  const body = concatBytes(frames);
+  return concatBytes([
+    latin1('ID3'),
+    Uint8Array.of(4, 0, 0), // v2.4.0, no flags
+    synchsafe(body.length),
+    body,
+  ]);
+}
+
+// Replaces any existing ID3v2 tag so re-tagging doesn't stack headers
+async function tagMp3(
+  path: string,
+  size: number,
+  metadata: TrackMetadata,
+  artwork: Artwork | null,
+): Promise<boolean> {
+  const head = await readBytes(path, 0, Math.min(10, size));
+  const audioStart = id3TagSize(head);
+
+  await rewriteFile(path, [
+    buildId3Tag(metadata, artwork),
+    { start: Math.min(audioStart, size), end: size },
+  ]);
+  return true;
+}
+
+// ---- MP4 `ilst` ----
+
+const mp4Box = (type: string, ...payload: Uint8Array[]) =>
+  concatBytes([
+    uint32Bytes(8 + payload.reduce((sum, p) => sum + p.length, 0)),
+    latin1(type),
+    ...payload,
+  ]);
+
+// iTunes item: the value sits in a `data` box tagged with its well-known type
+const ilstItem = (type: string, dataType: number, value: Uint8Array) =>
+  mp4Box(type, mp4Box('data', uint32Bytes(dataType), uint32Bytes(0), value));
+
+const ITUNES_IMPLICIT = 0;
+const ITUNES_UTF8 = 1;
+const ITUNES_JPEG = 13;
+const ITUNES_PNG = 14;
+
+function buildMetaBox(metadata: TrackMetadata, artwork: Artwork | null) {
+  const items = [ilstItem('©nam', ITUNES_UTF8, encodeUtf8(metadata.title))];
+  if (metadata.artist) {
+    items.push(ilstItem('©ART', ITUNES_UTF8, encodeUtf8(metadata.artist)));
+  }
+  if (metadata.album) {
+    items.push(ilstItem('©alb', ITUNES_UTF8, encodeUtf8(metadata.album)));
+  }
+  if (metadata.track) {
+    // trkn: reserved, track number, total, reserved (16-bit each)
+    const { number, total } = metadata.track;
+    items.push(
+      ilstItem(
+        'trkn',
+        ITUNES_IMPLICIT,
+        Uint8Array.of(0, 0, number >> 8, number & 0xff, total >> 8, total & 0xff, 0, 0),
+      ),
+    );
+  }
+  const date = tagDate(metadata.date);
+  if (date) items.push(ilstItem('©day', ITUNES_UTF8, encodeUtf8(date)));
+  if (metadata.sourceUrl) {
+    items.push(ilstItem('purl', ITUNES_UTF8, encodeUtf8(metadata.sourceUrl)));
+  }
+  if (artwork) {
+    items.push(
+      ilstItem(
+        'covr',
+        artwork.mimeType === 'image/png' ? ITUNES_PNG : ITUNES_JPEG,
+        artwork.bytes,
+      ),
+    );
+  }
+
+  const hdlr = mp4Box(
+    'hdlr',
+    uint32Bytes(0), // version + flags
+    uint32Bytes(0), // pre_defined
+    latin1('mdirappl'),
+    new Uint8Array(9), // reserved + empty name
+  );
+  return mp4Box('meta', uint32Bytes(0), hdlr, mp4Box('ilst', ...items));
+}
+
+function parseBoxes(b: Uint8Array, from: number, to: number): BoxRef[] {
+  const boxes: BoxRef[] = [];
+  let offset = from;
+  while (to - offset >= 8) {
+    let size = readUint32(b, offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = readUint32(b, offset + 8) * 2 ** 32 + readUint32(b, offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = to - offset;
+    }
+    if (size < headerSize || offset + size > to) {
+      throw new Error(`malformed MP4 box at ${offset}`);
+    }
+    boxes.push({ type: readAscii(b, offset + 4, offset + 8), start: offset, size, headerSize });
+    offset += size;
+  }
+  return boxes;
+}
+
+async function topLevelBoxes(path: string, size: number): Promise<BoxRef[]> {
+  const boxes: BoxRef[] = [];
+  let offset = 0;
+  while (offset < size && boxes.length < MAX_TOP_LEVEL_BOXES) {
+    const header = await readBytes(path, offset, Math.min(16, size - offset));
+    let boxSize = readUint32(header, 0);
+    let headerSize = 8;
+    if (boxSize === 1 && header.length === 16) {
+      boxSize = readUint32(header, 8) * 2 ** 32 + readUint32(header, 12);
+      headerSize = 16;
+    } else if (boxSize === 0) {
+      boxSize = size - offset;
+    }
+    if (header.length < 8 || boxSize < headerSize || offset + boxSize > size) {
+      throw new Error(`malformed MP4 box at ${offset}`);
+    }
+    boxes.push({ type: readAscii(header, 4, 8), start: offset, size: boxSize, headerSize });
+    offset += boxSize;
+  }
+  return boxes;
+}
+
+/**
+ * Add `delta` to every stco/co64 entry under `b[from, to)`. Needed when the
+ * moov box grows in front of the media data it points into.
+ */
+function shiftChunkOffsets(b: Uint8Array, from: number, to: number, delta: number) {
+  parseBoxes(b, from, to).forEach(box => {
+    const body = box.start + box.headerSize;
+    if (SAMPLE_TABLE_PATH.has(box.type)) {
+      shiftChunkOffsets(b, body, box.start + box.size, delta);
+    } else if (box.type === 'stco' || box.type === 'co64') {
+      const wide = box.type === 'co64';
+      const count = readUint32(b, body + 4);
+      for (let i = 0; i < count; i++) {
+        const at = body + 8 + i * (wide ? 8 : 4);
+        if (wide) {
+          const value = readUint32(b, at) * 2 ** 32 + readUint32(b, at + 4) + delta;
+          b.set(uint32Bytes(Math.floor(value / 2 ** 32)), at);
+          b.set(uint32Bytes(value % 2 ** 32), at + 4);
+        } else {
+          const value = readUint32(b, at) + delta;
+          if (value > 0xffffffff) {
+            throw new Error('chunk offset no longer fits in stco');
+          }
+          b.set(uint32Bytes(value), at);
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Rebuild moov with a fresh udta/meta/ilst, keeping any other udta children.
+ * Fragmented files are left alone: their moof boxes carry absolute offsets
+ * that would all need rewriting too.
+ */
+async function tagMp4(
+  path: string,
+  size: number,
+  metadata: TrackMetadata,
+  artwork: Artwork | null,
+): Promise<boolean> {
+  const boxes = await topLevelBoxes(path, size);
+  const moov = boxes.find(b => b.type === 'moov');
+  if (!moov) throw new Error('MP4 has no moov box');
+  if (boxes.some(b => b.type === 'moof')) {
+    console.log('🏷️ [TAGS] Fragmented MP4, leaving it untagged');
+    return false;
+  }
+
+  const moovBytes = (await readBytes(path, moov.start, moov.size)).slice();
+  const children = parseBoxes(moovBytes, moov.headerSize, moovBytes.length);
+  const bytesOf = (box: BoxRef) =>
+    moovBytes.subarray(box.start, box.start + box.size);
+
+  const oldUdta = children.find(c => c.type === 'udta');
+  const udtaChildren = oldUdta
+    ? parseBoxes(
+        moovBytes,
+        oldUdta.start + oldUdta.headerSize,
+        oldUdta.start + oldUdta.size,
+      ).filter(c => c.type !== 'meta')
+    : [];
+  const udta = mp4Box(
+    'udta',
+    ...udtaChildren.map(bytesOf),
+    buildMetaBox(metadata, artwork),
+  );
+
+  const kept = children.filter(c => c.type !== 'udta');
+  const newSize = 8 + kept.reduce((sum, c) => sum + c.size, 0) + udta.length;
+  const mdat = boxes.find(b => b.type === 'mdat');
+  if (mdat && mdat.start > moov.start) {
+    shiftChunkOffsets(moovBytes, moov.headerSize, moovBytes.length, newSize - moov.size);
+  }
+
+  const newMoov = concatBytes([
+    uint32Bytes(newSize),
+    latin1('moov'),
+    ...kept.map(bytesOf),
+    udta,
+  ]);
+  const parts: FilePart[] = [{ start: 0, end: moov.start }, newMoov];
+  if (moov.start + moov.size < size) {
+    parts.push({ start: moov.start + moov.size, end: size });
+  }
+  await rewriteFile(path, parts);
+  return true;
+}
+
+/**
+ * Write title/artist/date/source/artwork tags into a finished download on the
+ * local filesystem (run before any SAF or MediaStore export). Tagging is best
+ * effort: on failure the file is left exactly as downloaded.
+ */
+export async function tagDownloadedFile(
+  path: string,
+  format: TaggableFormat,
+  metadata: TrackMetadata,
+): Promise<boolean> {
+  try {
+    const size = Number((await RNFS.stat(path)).size);
+    const artwork = metadata.artworkUrl
+      ? await fetchArtwork(metadata.artworkUrl)
+      : null;
+
+    const tagged =
+      format === 'mp3'
+        ? await tagMp3(path, size, metadata, artwork)
+        : await tagMp4(path, size, metadata, artwork);
+    if (!tagged) return false;
+    console.log(
+      `🏷️ [TAGS] Tagged ${format}: ${metadata.title}${artwork ? ' (with artwork)' : ''}`,
+    );
+    return true;
+  } catch (error) {
+    console.warn(`⚠️ [TAGS] Failed to tag ${format}, keeping file untagged`, error);
+    return false;
+  }
+}
@@ -0,0 +1,185 @@
+import RNFS from 'react-native-fs';
+import { encodeBase64 } from './bytes';
+
+/**
+ * Bandwidth caps. Neither RNFS nor blob-util can rate-limit a native
+ * transfer, so a capped download is fetched as a run of Range requests, each
+ * about a second of budget, and a request only goes out once the limiter has
+ * room for it.
+ */
+
+const MIN_SLICE_SIZE = 64 * 1024;
+const MAX_SLICE_SIZE = 1024 * 1024;
+
+const sleep = (ms: number) =>
+  new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Token bucket: `take` resolves once the bytes fit in the budget. Callers
+ * queue up behind each other, so one limiter shared by several transfers caps
+ * their total. A rate of 0 means unlimited.
+ */
+export class RateLimiter {
+  private available = 0;
+  private updatedAt = Date.now();
+
+  constructor(private bytesPerSecond: number) {
+    this.available = bytesPerSecond;
+  }
+
+  get rate(): number {
+    return this.bytesPerSecond;
+  }
+
+  setRate(bytesPerSecond: number): void {
+    this.refill();
+    this.bytesPerSecond = bytesPerSecond;
+    // Never let a lower cap start with more than a second of burst
+    this.available = Math.min(this.available, bytesPerSecond);
+  }
+
+  async take(bytes: number): Promise<void> {
+    if (this.bytesPerSecond <= 0) return;
+    this.refill();
+    // Reserve now, even into debt, so later callers wait behind this one
+    this.available -= bytes;
+    if (this.available < 0) {
+      await sleep((-this.available / this.bytesPerSecond) * 1000);
+    }
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.available = Math.min(
+      this.bytesPerSecond,
+      this.available + ((now - this.updatedAt) / 1000) * this.bytesPerSecond,
+    );
+    this.updatedAt = now;
+  }
+}
+
+// Shared by every transfer without its own cap, so the setting caps the total
+export const sharedLimiter = new RateLimiter(0);
+
+export function setGlobalBandwidthLimit(limitKBps: number): void {
+  sharedLimiter.setRate(Math.max(0, limitKBps) * 1024);
+}
+
+/**
+ * The limiter for a job's transfers: its own cap when it has one (0 means
+ * uncapped), otherwise the shared global cap, if that is set.
+ */
+export function limiterFor(limitKBps?: number): RateLimiter | undefined {
+  if (limitKBps === undefined) {
+    return sharedLimiter.rate > 0 ? sharedLimiter : undefined;
+  }
+  return limitKBps > 0 ? new RateLimiter(limitKBps * 1024) : undefined;
+}
+
+// About a second's worth at the current rate
+const sliceSize = (limiter: RateLimiter) =>
+  limiter.rate > 0
+    ? Math.min(MAX_SLICE_SIZE, Math.max(MIN_SLICE_SIZE, Math.floor(limiter.rate)))
+    : MAX_SLICE_SIZE;
+
+// Total size from "Content-Range: bytes 0-65535/1048576"
+const rangeTotal = (header: string | null): number | undefined => {
+  const total = Number(header?.split('/')[1]);
+  return Number.isFinite(total) && total > 0 ? total : undefined;
+};
+
+export interface ThrottledDownloadOptions {
+  limiter: RateLimiter;
+  headers?: Record<string, string>;
+  // Bytes already in the file; the transfer appends from here
+  startOffset?: number;
+  // Bytes received and expected by this transfer, like blob-util's progress
+  onProgress?: (received: number, total: number) => void;
+}
+
+export interface ThrottledDownloadResult {
+  // False when the server ignored the Range request: nothing was written and
+  // the transfer can't be paced, so the caller should fetch it normally
+  ranged: boolean;
+  status: number;
+  totalSize?: number; // Whole file, including startOffset
+  bytesWritten: number; // By this transfer
+}
+
+export interface ThrottledDownload {
+  promise: Promise<ThrottledDownloadResult>;
+  cancel: () => void;
+}
+
+/**
+ * Download `url` into `toPath` a slice at a time, paced by `limiter`. Slices
+ * are appended as they arrive, so a cancelled transfer leaves a partial file
+ * that a later call can continue with `startOffset`.
+ */
+export function startThrottledDownload(
+  url: string,
+  toPath: string,
+  options: ThrottledDownloadOptions,
+): ThrottledDownload {
+  const { limiter, headers = {}, startOffset = 0, onProgress } = options;
+  let cancelled = false;
+  let controller: AbortController | undefined;
+
+  const run = async (): Promise<ThrottledDownloadResult> => {
+    if (startOffset === 0) {
+      await RNFS.writeFile(toPath, '', 'base64');
+    }
+
+    let position = startOffset;
+    let totalSize: number | undefined;
+    while (totalSize === undefined || position < totalSize) {
+      const size = sliceSize(limiter);
+      await limiter.take(size);
+      if (cancelled) throw new Error('Download cancelled');
+
+      controller = new AbortController();
+      const res = await fetch(url, {
+        headers: { ...headers, Range: `bytes=${position}-${position + size - 1}` },
+        signal: controller.signal,
+      });
+      // Past the end: the previous slice was the last one
+      if (res.status === 416 && position > startOffset) break;
+      if (res.status >= 400) {
+        return { ranged: true, status: res.status, bytesWritten: position - startOffset };
+      }
+      if (res.status !== 206) {
+        controller.abort();
+        if (position > startOffset) {
+          throw new Error('Server stopped honouring Range requests');
+        }
+        return { ranged: false, status: res.status, bytesWritten: 0 };
+      }
+
+      totalSize = rangeTotal(res.headers.get('content-range')) ?? totalSize;
+      const bytes = new Uint8Array(await res.arrayBuffer());
+      if (cancelled) throw new Error('Download cancelled');
+      if (bytes.length === 0) break;
+
+      await RNFS.appendFile(toPath, encodeBase64(bytes), 'base64');
+      position += bytes.length;
+      onProgress?.(position - startOffset, (totalSize ?? 0) - startOffset);
+      // Without a Content-Range total, a short slice is the end of the file
+      if (totalSize === undefined && bytes.length < size) break;
+    }
+
+    return {
+      ranged: true,
+      status: 206,
+      totalSize: totalSize ?? position,
+      bytesWritten: position - startOffset,
+    };
+  };
+
+  return {
+    promise: run(),
+    cancel: () => {
+      cancelled = true;
+      controller?.abort();
+    },
+  };
+}
@@ -1,3 +1,6 @@
+import type { Chapter, ClipRange } from '../../types/video';
+import type { SubtitleOptions } from '../../types/subtitle';
+
 export interface DownloadProgress {
   type: 'download_progress';
   downloadId: string;
@@ -19,6 +22,7 @@ export interface DownloadComplete {
   filename?: string;
   fileSize?: number;
   mimeType?: string;
+  sha256?: string; // Hex digest of the produced file, when the server computes one
   file?: {
     videoId: string;
     status: 'completed';
@@ -26,6 +30,7 @@ export interface DownloadComplete {
     fileSize: number;
     mimeType: string;
     fileContent: string;
+    sha256?: string;
   };
 }
 
@@ -57,6 +62,18 @@ export interface DownloadOptions {
   bitRate?: string;
   quality?: string;
   videoTitle?: string;
+  channelName?: string; // For the {channel} filename token
+  playlistIndex?: number; // For the {index} filename token
+  thumbnailUrl?: string; // Embedded as cover art when tagging
+  publishedAt?: string; // Written as the tag's date
+  clip?: ClipRange; // Sent as start/end so the server cuts the range
+  subtitles?: SubtitleOptions; // Saved as a sidecar next to the media
+  captionsOnly?: boolean; // Skip the media, save just the subtitles
+  chapters?: Chapter[]; // MP3 only: split the saved file into one per chapter
+  maxBytes?: number; // Stop with NetworkLimitError if the file is larger
+  bandwidthLimitKBps?: number; // This job's cap (0: uncapped); unset uses the global cap
+  expectedBytes?: number; // Size worked out from the video's real streams
+  outputFolder?: string; // SAF tree or path for this job; unset uses the download folder
 }
 
 export interface DownloadResponse {
@@ -13,11 +13,66 @@ import { DownloadEvent, DownloadOptions } from './download/types';
 import {
   saveFromUrl as saveFromUrlHelper,
   saveFileToCacheAndExport,
+  dropLeadingBytes,
+  copyToSafDirectory,
+  defaultDownloadPath,
+  DIRECT_STREAM_TEMP_DIR,
 } from './download/storage';
+import {
+  ensureSafDirectory,
+  isSafUri,
+  safUnlink,
+} from './download/storage-saf';
+import { splitMp3ByChapters } from './download/chapters';
+import type { ChapterFile } from './download/queue';
+import {
+  DownloadPausedError,
+  DownloadCancelledError,
+  DownloadCorruptedError,
+  NetworkLimitError,
+  failureReasonFromMessage,
+  type DownloadFailureReason,
+} from './download/errors';
+import {
+  verifyDownloadedFile,
+  expectedSizeFromHeaders,
+} from './download/integrity';
+import {
+  isTaggableFormat,
+  tagDownloadedFile,
+  type TaggingRequest,
+  type TrackMetadata,
+} from './download/tagging';
+import {
+  subtitleExtension,
+  subtitleFilename,
+  writeSubtitleFile,
+} from './download/subtitles';
+import type { SubtitleOptions } from '../types/subtitle';
+import type {
+  DownloadProgressInfo,
+  ProgressUpdate,
+} from '../types/progress';
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  inferExtension,
+  renderFilenameTemplate,
+  resolveSaveTarget,
+  sanitizeFileName,
+  type FilenameValues,
+  type SaveTarget,
+} from './download/filename';
 import {
   normalizeBase64 as normalizeBase64Helper,
   assembleChunks as assembleChunksHelper,
 } from './download/chunks';
+import {
+  limiterFor,
+  startThrottledDownload,
+  type RateLimiter,
+  type ThrottledDownloadResult,
+} from './download/throttle';
+import { createProgressReporter, type ProgressReporter } from './download/progress';
 import { SmartDownloadManager } from './smartDownloadManager';
 
 // Lightweight ID generator: 5 alphanumeric pairs (2 chars each) separated by dashes
@@ -44,8 +99,8 @@ class DownloadService {
   private heartbeatTimeout: number = 60000; // 60 seconds - increased to handle slow YouTube connections
   // Throttle progress logs per downloadId to avoid JS thread blocking
   private lastProgressLog: Map<string, { ts: number; pct: number }> = new Map();
-  // Ensure progress is monotonic per downloadId
-  private lastForwardedProgress: Map<string, number> = new Map();
+  // Progress reporter per downloadId (monotonic, adds speed and ETA)
+  private progressReporters: Map<string, ProgressReporter> = new Map();
   // Track first progress update per downloadId to skip initial 95%
   private firstProgressReceived: Map<string, boolean> = new Map();
   // Switch to chunk-based progress once chunks start arriving
@@ -58,15 +113,30 @@ class DownloadService {
   private listenerContext: Map<
     string,
     {
-      onProgress?: (progress: number) => void;
+      onProgress?: (progress: DownloadProgressInfo) => void;
       onComplete?: (filePath: string, filename: string) => void;
-      onError?: (error: string) => void;
+      onError?: (error: string, reason?: DownloadFailureReason) => void;
       localDownloadId?: string;
       videoTitle?: string;
     }
   > = new Map();
   // Store videoTitle per downloadId for filename generation
   private videoTitleMap: Map<string, string> = new Map();
+  // Filename template values per SSE downloadId (title/channel/index...)
+  private filenameValuesMap: Map<string, FilenameValues> = new Map();
+  // Tag values per SSE downloadId (artist/date/artwork...)
+  private trackMetadataMap: Map<string, TrackMetadata> = new Map();
+  // Size limit per SSE downloadId, checked before the file URL is fetched
+  private maxBytesMap: Map<string, number> = new Map();
+  // Bandwidth cap per SSE downloadId, for the URL transfer and sink writes
+  private limiterMap: Map<string, RateLimiter> = new Map();
+  // Folder per SSE downloadId, for jobs saved outside the download folder
+  private folderMap: Map<string, string> = new Map();
+  // In-flight direct-stream transfers keyed by local job id (for pause/cancel)
+  private directStreamTasks: Map<
+    string,
+    { task: any; paused: boolean; cancelled: boolean }
+  > = new Map();
   // Chunked download helpers
   private initializeChunkTracking(downloadId: string, totalChunks: number) {
     this.chunkBuffer.set(downloadId, new Array(totalChunks));
@@ -104,7 +174,7 @@ class DownloadService {
     filename: string,
     mimeType: string,
     onComplete?: (filePath: string, filename: string) => void,
-    onError?: (error: string) => void,
+    onError?: (error: string, reason?: DownloadFailureReason) => void,
   ): Promise<void> {
     return assembleChunksHelper({
       downloadId,
@@ -113,7 +183,13 @@ class DownloadService {
       chunkBuffer: this.chunkBuffer,
       totalChunksPerDownload: this.totalChunksPerDownload,
       receivedChunksPerDownload: this.receivedChunksPerDownload,
-      saveBase64: (b64: string, name: string) => this.saveFile(b64, name),
+      saveBase64: async (b64: string, name: string) =>
+        this.saveFile(
+          b64,
+          name,
+          this.folderFor(downloadId),
+          await this.taggingFor(name, this.trackMetadataMap.get(downloadId)),
+        ),
       onComplete,
       onError,
       cleanup: (id: string) => this.cleanupChunks(id),
@@ -130,19 +206,82 @@ class DownloadService {
     let sink = this.sinkById.get(downloadId);
     if (!sink) {
       const { createSink } = await import('./download/storage-sink');
-      const baseDir = this.customDownloadPath || `${(await import('react-native-fs')).default.DownloadDirectoryPath}/${DOWNLOAD_FOLDER_NAME}`;
-      sink = await createSink(baseDir, filename, mimeType);
+      const baseDir = this.folderFor(downloadId) || `${(await import('react-native-fs')).default.DownloadDirectoryPath}/${DOWNLOAD_FOLDER_NAME}`;
+      const { collisionPolicy } = await this.getFilenameTemplate();
+      // Bytes are already arriving, so a sink can't skip - number instead
+      const target = await resolveSaveTarget(
+        baseDir,
+        filename,
+        collisionPolicy === 'overwrite' ? 'overwrite' : 'number',
+      );
+      try {
+        sink = await createSink(
+          baseDir,
+          target.filename,
+          mimeType,
+          this.limiterMap.get(downloadId),
+        );
+      } finally {
+        target.release();
+      }
       this.sinkById.set(downloadId, sink);
     }
     return sink;
   }
 
-  private sanitizeFileName(name: string): string {
-    const cleaned = (name || '')
-      .replace(/[\\/:*?"<>|]/g, '')
-      .replace(/\s+/g, ' ')
-      .trim();
-    return cleaned.substring(0, 150) || 'download';
+  private async getFilenameTemplate() {
+    return (
+      (await storageService.getFilenameTemplate()) || DEFAULT_FILENAME_TEMPLATE
+    );
+  }
+
+  /**
+   * Render the user's filename template and apply its collision policy in
+   * `dir`. Callers must `release()` the target once the file is written.
+   */
+  private async prepareSaveTarget(
+    values: FilenameValues,
+    ext: string,
+    dir?: string | null,
+  ): Promise<SaveTarget> {
+    const { template, collisionPolicy } = await this.getFilenameTemplate();
+    const filename = `${renderFilenameTemplate(template, values)}${ext}`;
+    return resolveSaveTarget(
+      dir || `${RNFS.DownloadDirectoryPath}/${DOWNLOAD_FOLDER_NAME}`,
+      filename,
+      collisionPolicy,
+    );
+  }
+
+  private filenameValuesFor(options: DownloadOptions): FilenameValues {
+    return {
+      title: options.videoTitle,
+      channel: options.channelName,
+      videoId: options.videoId,
+      quality: options.format === 'mp3' ? options.bitRate : options.quality,
+      index: options.playlistIndex,
+    };
+  }
+
+  private trackMetadataFor(options: DownloadOptions): TrackMetadata {
+    return {
+      title: options.videoTitle || options.videoId,
+      artist: options.channelName,
+      date: options.publishedAt,
+      sourceUrl: `https://www.youtube.com/watch?v=${options.videoId}`,
+      artworkUrl: options.thumbnailUrl,
+    };
+  }
+
+  // What to tag a saved file with, or undefined when its format has tagging off
+  private async taggingFor(
+    filename: string,
+    metadata?: TrackMetadata,
+  ): Promise<TaggingRequest | undefined> {
+    const format = filename.replace(/^.*\./, '').toLowerCase();
+    if (!metadata || !isTaggableFormat(format)) return undefined;
+    const preferences = await storageService.getTaggingPreferences();
+    return preferences[format] ? { format, metadata } : undefined;
   }
 
   private cleanupChunks(downloadId: string) {
@@ -153,6 +292,11 @@ class DownloadService {
     this.sinkById.delete(downloadId);
     // Clean up videoTitle mapping
     this.videoTitleMap.delete(downloadId);
+    this.filenameValuesMap.delete(downloadId);
+    this.trackMetadataMap.delete(downloadId);
+    this.maxBytesMap.delete(downloadId);
+    this.limiterMap.delete(downloadId);
+    this.folderMap.delete(downloadId);
   }
 
   // Streaming sink support for chunked downloads (replaces buffering)
@@ -187,10 +331,7 @@ class DownloadService {
 
     // Initialize default path if not already saved
     try {
-      const defaultPath =
-        Platform.OS === 'android'
-          ? `${RNFS.DownloadDirectoryPath}/${DOWNLOAD_FOLDER_NAME}`
-          : `${RNFS.DocumentDirectoryPath}/${DOWNLOAD_FOLDER_NAME}`;
+      const defaultPath = defaultDownloadPath();
 
       // Only create directory for filesystem paths, not SAF URIs
       if (!defaultPath.startsWith('content://')) {
@@ -262,9 +403,9 @@ class DownloadService {
    */
   async downloadVideoSmart(
     options: DownloadOptions,
-    onProgress?: (progress: number) => void,
+    onProgress?: (progress: DownloadProgressInfo) => void,
     onComplete?: (filePath: string, filename: string) => void,
-    onError?: (error: string) => void,
+    onError?: (error: string, reason?: DownloadFailureReason) => void,
     localDownloadId?: string,
   ): Promise<string> {
     return await this.smartDownloadManager.downloadVideo(
@@ -276,6 +417,166 @@ class DownloadService {
     );
   }
 
+  /**
+   * 📝 SUBTITLES - Fetch captions and save them next to a saved media file
+   * (same basename), or under the filename template for captions-only jobs.
+   */
+  async downloadSubtitles(
+    options: DownloadOptions,
+    media?: { filePath: string; filename: string },
+  ): Promise<{ filePath: string; filename: string }> {
+    const subtitles = options.subtitles;
+    if (!subtitles) {
+      throw new Error('No subtitle options for this download');
+    }
+
+    // Filesystem media: its own folder. SAF media: the selected tree.
+    const dir =
+      media && !media.filePath.startsWith('content://')
+        ? media.filePath.substring(0, media.filePath.lastIndexOf('/'))
+        : options.outputFolder ||
+          this.customDownloadPath ||
+          (Platform.OS === 'android'
+            ? `${RNFS.DownloadDirectoryPath}/${DOWNLOAD_FOLDER_NAME}`
+            : `${RNFS.DocumentDirectoryPath}/${DOWNLOAD_FOLDER_NAME}`);
+    if (!dir.startsWith('content://') && !(await RNFS.exists(dir))) {
+      await RNFS.mkdir(dir);
+    }
+
+    let target: SaveTarget | undefined;
+    try {
+      let filename: string;
+      if (media) {
+        filename = subtitleFilename(media.filename, subtitles);
+      } else {
+        target = await this.prepareSaveTarget(
+          this.filenameValuesFor(options),
+          subtitleExtension(subtitles),
+          dir,
+        );
+        if (target.existingPath) {
+          return { filePath: target.existingPath, filename: target.filename };
+        }
+        filename = target.filename;
+      }
+
+      const content = await this.fetchSubtitles(options.videoId, subtitles);
+      const filePath = await writeSubtitleFile(dir, filename, content, subtitles);
+      console.log(`📝 Saved subtitles: ${filePath}`);
+      return { filePath, filename };
+    } finally {
+      target?.release();
+    }
+  }
+
+  private async fetchSubtitles(
+    videoId: string,
+    subtitles: SubtitleOptions,
+  ): Promise<string> {
+    const response = await fetch(`${this.apiBaseUrl}/v2/api/captions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        videoId,
+        language: subtitles.language,
+        format: subtitles.format,
+        allowAutoGenerated: subtitles.allowAutoGenerated,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const responseData: any = await response.json();
+    const content = responseData.result?.content;
+    if (typeof content !== 'string' || !content) {
+      throw new Error(
+        responseData.message ||
+          `No ${subtitles.language} captions available for this video`,
+      );
+    }
+    return content;
+  }
+
+  /**
+   * Split a finished MP3 into one file per chapter, in a folder named after
+   * the file next to where it was saved. The single file is deleted once
+   * every part is in place; on failure it is kept and nothing else changes.
+   */
+  async splitByChapters(
+    options: DownloadOptions,
+    media: { filePath: string; filename: string },
+  ): Promise<ChapterFile[]> {
+    const chapters = options.chapters;
+    if (!chapters?.length || options.format !== 'mp3') {
+      throw new Error('This download has no chapters to split by');
+    }
+
+    const folderName = media.filename.replace(/\.[^.]+$/, '');
+    const onSaf = isSafUri(media.filePath);
+    const safTree = options.outputFolder || this.customDownloadPath;
+    if (onSaf && !safTree) {
+      throw new Error('The download folder is no longer selected');
+    }
+    // SAF files are copied out and split in the cache, then copied back
+    const workDir = onSaf
+      ? `${RNFS.CachesDirectoryPath}/chapters_${Date.now()}`
+      : `${media.filePath.substring(0, media.filePath.lastIndexOf('/'))}/${folderName}`;
+    const sourcePath = onSaf ? `${workDir}.mp3` : media.filePath;
+
+    try {
+      await RNFS.mkdir(workDir);
+      if (onSaf) await RNFS.copyFile(media.filePath, sourcePath);
+      const parts = await splitMp3ByChapters(sourcePath, chapters, workDir);
+
+      const metadata = this.trackMetadataFor(options);
+      if (await this.taggingFor(media.filename, metadata)) {
+        for (let i = 0; i < parts.length; i++) {
+          await tagDownloadedFile(parts[i], 'mp3', {
+            ...metadata,
+            title: chapters[i].title,
+            album: metadata.title,
+            track: { number: i + 1, total: parts.length },
+          });
+        }
+      }
+
+      let savedPaths = parts;
+      if (onSaf && safTree) {
+        const dirUri = await ensureSafDirectory(safTree, folderName);
+        savedPaths = [];
+        for (const part of parts) {
+          const name = part.substring(part.lastIndexOf('/') + 1);
+          savedPaths.push(await copyToSafDirectory(part, dirUri, name, 'audio/mpeg'));
+        }
+      }
+
+      if (onSaf) {
+        await safUnlink(media.filePath);
+      } else {
+        await RNFS.unlink(media.filePath);
+      }
+      return savedPaths.map((filePath, i) => ({
+        filePath,
+        filename: parts[i].substring(parts[i].lastIndexOf('/') + 1),
+        title: chapters[i].title,
+      }));
+    } catch (error) {
+      // Don't leave an empty chapter folder next to the kept file
+      if (!onSaf && (await RNFS.readDir(workDir).catch(() => [null])).length === 0) {
+        await RNFS.unlink(workDir).catch(() => { });
+      }
+      throw error;
+    } finally {
+      if (onSaf) {
+        await RNFS.unlink(workDir).catch(() => { });
+        await RNFS.unlink(sourcePath).catch(() => { });
+      }
+    }
+  }
+
   /**
    * 🔧 CONFIGURATION METHODS
    */
@@ -307,9 +608,9 @@ class DownloadService {
    */
   async downloadVideoDirectStream(
     options: DownloadOptions,
-    onProgress?: (progress: number) => void,
+    onProgress?: (progress: DownloadProgressInfo) => void,
     onComplete?: (filePath: string, filename: string) => void,
-    onError?: (error: string) => void,
+    onError?: (error: string, reason?: DownloadFailureReason) => void,
     localDownloadId?: string,
   ): Promise<string> {
     const timestamp = new Date().toISOString();
@@ -322,8 +623,10 @@ class DownloadService {
       bitRate: options.bitRate || 'default',
       quality: options.quality || 'default',
       videoTitle: options.videoTitle,
+      clip: options.clip,
     });
 
+    let releaseTarget = () => { };
     try {
       // Generate client-side ID
       const downloadId = generateLightweightId();
@@ -342,6 +645,12 @@ class DownloadService {
       if (options.quality) {
         query.push(`quality=${encodeURIComponent(options.quality)}`);
       }
+      if (options.clip?.start !== undefined) {
+        query.push(`start=${encodeURIComponent(options.clip.start)}`);
+      }
+      if (options.clip?.end !== undefined) {
+        query.push(`end=${encodeURIComponent(options.clip.end)}`);
+      }
       const streamUrl = `${this.sseBaseUrl}/stream/${downloadId}?${query.join('&')}`;
 
       console.log('🌐 Stream URL:', streamUrl);
@@ -349,53 +658,81 @@ class DownloadService {
       // Reload download path to ensure we have the latest setting
       // (loadDownloadPath is async and may not have completed in constructor)
       await this.loadDownloadPath();
-      console.log('📂 Current download path:', this.customDownloadPath);
+      // This job's own folder, from the drawer or a folder rule, wins
+      const folder = options.outputFolder || this.customDownloadPath;
+      console.log('📂 Current download path:', folder);
 
       // Determine download directory and filename
       // NOTE: react-native-blob-util cannot write directly to SAF content:// URIs,
       // so we always download to a temp location first, then export to SAF.
-      const isSafPath = this.customDownloadPath?.startsWith('content://');
-      const targetSafPath = isSafPath ? this.customDownloadPath : null;
-      
-      // For SAF paths, we download to a PUBLIC temp location first (Download Manager needs public paths)
-      // For filesystem paths, we can download directly
-      // Use Downloads/temp for SAF paths so Download Manager can access it
+      const isSafPath = folder?.startsWith('content://');
+      const targetSafPath = isSafPath ? folder : null;
+
+      // Final folder for filesystem targets (SAF targets are exported afterwards)
       const baseDir = isSafPath
-        ? `${RNFS.DownloadDirectoryPath}/${DOWNLOAD_FOLDER_NAME}_Temp`
-        : (this.customDownloadPath || 
+        ? null
+        : (folder ||
             (Platform.OS === 'android'
               ? `${RNFS.DownloadDirectoryPath}/${DOWNLOAD_FOLDER_NAME}`
               : `${RNFS.DocumentDirectoryPath}/${DOWNLOAD_FOLDER_NAME}`));
 
-      const sanitizedTitle = this.sanitizeFileName(
-        options.videoTitle || options.videoId,
-      );
-      const filename = `${sanitizedTitle}.${options.format}`;
-      const filePath = `${baseDir}/${filename}`;
+      // Partial files live in a temp folder under a name derived from the local
+      // job id, so a paused or interrupted job finds its bytes again on resume
+      const tempDir = DIRECT_STREAM_TEMP_DIR;
+      const resumeKey = localDownloadId || downloadId;
+
+      // The partial name depends only on the job and quality, so a resume
+      // finds it even if the filename template renders differently by then,
+      // and a quality fallback never appends to another quality's bytes
+      const partialPath = `${tempDir}/${resumeKey}_${options.videoId}_${options.quality || 'default'}.${options.format}.part`;
 
-      console.log('📂 Download base dir:', baseDir);
-      console.log('📂 Download path:', filePath);
+      console.log('📂 Download base dir:', baseDir || tempDir);
+      console.log('📂 Partial path:', partialPath);
       console.log('📂 Is SAF path?', isSafPath);
       if (targetSafPath) {
         console.log('📂 Target SAF path:', targetSafPath);
       } else {
         console.log('⚠️ No SAF path detected - will save to filesystem location');
       }
-      console.log('📥 Starting native download manager...');
 
       // For filesystem paths, verify directory exists (don't create it - user chose it)
-      if (!isSafPath) {
+      if (baseDir) {
         const dirExists = await RNFS.exists(baseDir);
         if (!dirExists) {
           throw new Error(`Download directory does not exist: ${baseDir}. Please select a valid folder in Settings.`);
         }
-      } else {
-        // For temp directory (SAF downloads), create it if needed (we'll clean it up later)
-        try {
-          await RNFS.mkdir(baseDir);
-        } catch {
-          // Directory might already exist
-        }
+      }
+
+      const target = await this.prepareSaveTarget(
+        this.filenameValuesFor(options),
+        `.${options.format}`,
+        targetSafPath || baseDir,
+      );
+      releaseTarget = target.release;
+      const filename = target.filename;
+      const report = createProgressReporter(onProgress);
+      if (target.existingPath) {
+        await RNFS.unlink(partialPath).catch(() => { });
+        report({ phase: 'transferring', percent: 100 });
+        onComplete?.(target.existingPath, filename);
+        return downloadId;
+      }
+
+      // Temp directory is ours - create it if needed (we'll clean it up later)
+      try {
+        await RNFS.mkdir(tempDir);
+      } catch {
+        // Directory might already exist
+      }
+
+      // Resume from whatever is already on disk for this job
+      let resumeOffset = 0;
+      if (await RNFS.exists(partialPath)) {
+        const partialStat = await RNFS.stat(partialPath);
+        resumeOffset = Number(partialStat.size) || 0;
+      }
+      if (resumeOffset > 0) {
+        console.log(`⏯️ Resuming from byte ${resumeOffset}`);
       }
 
       // Use react-native-blob-util for native download
@@ -403,94 +740,245 @@ class DownloadService {
         .default;
       const { config } = ReactNativeBlobUtil;
 
+      // Android's Download Manager cannot append to an existing file, so the
+      // transfer runs in-process and appends to the partial file instead
       const downloadConfig: any = {
         fileCache: true,
-        path: filePath,
+        path: partialPath,
+        overwrite: resumeOffset === 0,
         trusty: true, // For development with self-signed certs
       };
 
-      // Android-specific: Use Download Manager for background downloads
-      if (Platform.OS === 'android') {
-        downloadConfig.addAndroidDownloads = {
-          useDownloadManager: true,
-          notification: true,
-          title: `Downloading ${sanitizedTitle}`,
-          description: 'YouTube Video Download',
-          mime: options.format === 'mp3' ? 'audio/mpeg' : 'video/mp4',
-          mediaScannable: true,
-          path: filePath,
-        };
+      const headers: Record<string, string> = {};
+      if (resumeOffset > 0) {
+        headers.Range = `bytes=${resumeOffset}-`;
       }
 
-      // Start the download
-      const task = config(downloadConfig).fetch('GET', streamUrl);
-
-      // Track native download progress via Download Manager
-      task.progress((received, total) => {
-        const recNum = Number(received);
-        const totNum = Number(total);
-        if (totNum > 0) {
-          const nativeProgress = (recNum / totNum) * 100;
+      // Either transfer is cancelled through entry.task (pause, cancel, size limit)
+      const entry: { task: any; paused: boolean; cancelled: boolean } = {
+        task: undefined,
+        paused: false,
+        cancelled: false,
+      };
+      this.directStreamTasks.set(resumeKey, entry);
+
+      // Set once the file turns out to be over the network's size limit
+      let oversize = 0;
+
+      // Track download progress across the whole file, not just this request
+      const onBytes = (received: number | string, total: number | string) => {
+        if (entry.paused || entry.cancelled || oversize) return;
+        const recNum = Number(received) + resumeOffset;
+        const totNum = Number(total) + resumeOffset;
+        if (options.maxBytes && Number(total) > 0 && totNum > options.maxBytes) {
+          console.log(`📵 ${totNum} bytes is over the ${options.maxBytes} byte limit - stopping`);
+          oversize = totNum;
+          entry.task.cancel();
+          return;
+        }
+        const known = Number(total) > 0;
+        const nativeProgress = known ? (recNum / totNum) * 100 : 0;
+        if (known) {
           console.log(
             `📊 Download Progress: ${nativeProgress.toFixed(1)}% (${recNum}/${totNum} bytes)`,
           );
-          onProgress?.(nativeProgress);
         }
-      });
+        report({
+          phase: 'transferring',
+          percent: nativeProgress,
+          bytesReceived: recNum,
+          totalBytes: known ? totNum : undefined,
+        });
+      };
+
+      // The server prepares the stream before the first byte arrives; a
+      // resumed job keeps showing its progress until the Range update
+      if (resumeOffset === 0) {
+        report({ phase: 'processing', percent: 0 });
+      }
 
       // Wait for download to complete
-      const res = await task;
-      let savedPath = res.path();
+      const limiter = limiterFor(options.bandwidthLimitKBps);
+      let status: number;
+      let expectedSize: number | undefined;
+      try {
+        // Capped: paced Range requests from JS, appended to the partial file
+        let paced: ThrottledDownloadResult | undefined;
+        if (limiter) {
+          const transfer = startThrottledDownload(streamUrl, partialPath, {
+            limiter,
+            startOffset: resumeOffset,
+            onProgress: onBytes,
+          });
+          entry.task = transfer;
+          paced = await transfer.promise;
+        }
+
+        if (paced?.ranged) {
+          status = paced.status;
+          expectedSize = paced.totalSize;
+        } else {
+          if (paced) {
+            console.warn('⚠️ Server ignores Range requests - downloading without the bandwidth cap');
+          }
+          if (entry.cancelled) throw new DownloadCancelledError(resumeKey);
+          if (entry.paused) throw new DownloadPausedError(resumeKey);
+
+          const task = config(downloadConfig).fetch('GET', streamUrl, headers);
+          entry.task = task;
+          task.progress(onBytes);
+          const res = await task;
+          status = res.info()?.status;
+          expectedSize = expectedSizeFromHeaders(
+            res.info()?.headers,
+            status === 206 ? resumeOffset : 0,
+          );
+        }
+      } catch (taskError) {
+        if (entry.cancelled) {
+          console.log(`🛑 Direct stream cancelled: ${resumeKey}`);
+          throw new DownloadCancelledError(resumeKey);
+        }
+        if (entry.paused) {
+          console.log(`⏸️ Direct stream paused at ${partialPath}`);
+          throw new DownloadPausedError(resumeKey);
+        }
+        if (oversize && options.maxBytes) {
+          // The partial file stays for a Range resume on another network
+          throw new NetworkLimitError(oversize, options.maxBytes);
+        }
+        throw taskError;
+      } finally {
+        // A quick pause + resume may already have registered a newer task
+        if (this.directStreamTasks.get(resumeKey) === entry) {
+          this.directStreamTasks.delete(resumeKey);
+        }
+      }
+
+      if (status >= 400) {
+        // The server's explanation (e.g. a missing resolution) was written
+        // to the file in place of the video
+        let message = `HTTP Error ${status}`;
+        if (resumeOffset === 0) {
+          try {
+            const stat = await RNFS.stat(partialPath);
+            if (Number(stat.size) < 4096) {
+              const body = JSON.parse(await RNFS.readFile(partialPath, 'utf8'));
+              message = body?.message || message;
+            }
+          } catch {
+            // Not a JSON error body
+          }
+        }
+        // Don't leave the error body behind for a retry to resume from
+        await RNFS.unlink(partialPath).catch(() => { });
+        throw new Error(message);
+      }
+      // Server ignored the Range header and sent the whole file again -
+      // drop the stale prefix we had before appending
+      if (resumeOffset > 0 && status !== 206) {
+        console.warn('⚠️ Server did not honour Range request - discarding stale prefix');
+        await dropLeadingBytes(partialPath, resumeOffset);
+      }
+
+      // Check the whole file before it is moved or exported
+      try {
+        await verifyDownloadedFile(partialPath, {
+          format: options.format,
+          expectedSize,
+        });
+      } catch (verifyError) {
+        // Never resume on top of bad bytes
+        await RNFS.unlink(partialPath).catch(() => { });
+        throw verifyError;
+      }
+
+      const tagging = await this.taggingFor(
+        filename,
+        this.trackMetadataFor(options),
+      );
+      if (tagging) {
+        await tagDownloadedFile(partialPath, tagging.format, tagging.metadata);
+      }
 
       console.log('✅ Download completed successfully!');
-      console.log('📂 Initial save to:', savedPath);
+      console.log('📂 Initial save to:', partialPath);
+
+      let savedPath = partialPath;
 
       // If we need to export to SAF location, do it now
       if (targetSafPath) {
         console.log('📤 Exporting to SAF location:', targetSafPath);
-        const tempDir = baseDir; // Store for cleanup
+        report({ phase: 'exporting', percent: 100 });
         try {
           const { exportToUserLocation } = await import('./download/storage');
-          const exportedPath = await exportToUserLocation(savedPath, filename, targetSafPath);
+          const exportedPath = await exportToUserLocation(partialPath, filename, targetSafPath);
           console.log('✅ Exported to SAF:', exportedPath);
           
           // Clean up temp file
           try {
-            await RNFS.unlink(savedPath);
+            await RNFS.unlink(partialPath);
             console.log('🗑️ Cleaned up temp file');
           } catch (cleanupErr) {
             console.warn('Failed to cleanup temp file:', cleanupErr);
           }
           
-          // Clean up temp directory if it's empty (we created it, so we clean it up)
-          try {
-            const files = await RNFS.readdir(tempDir);
-            if (files.length === 0) {
-              // Use unlink for directories (RNFS uses unlink for both files and empty dirs)
-              await RNFS.unlink(tempDir);
-              console.log('🗑️ Cleaned up empty temp directory');
-            } else {
-              console.log(`📁 Temp directory not empty (${files.length} files), leaving it`);
-            }
-          } catch (dirCleanupErr) {
-            // Directory might not be empty or might not exist - that's fine
-            console.log('Temp directory cleanup result:', dirCleanupErr);
-          }
-          
           savedPath = exportedPath;
         } catch (exportError: any) {
           console.error('❌ SAF export failed:', exportError);
           // Don't create fallback directories - user chose their location
           // Keep the temp file so user can manually move it if needed
-          throw new Error(`Failed to save to selected folder: ${exportError.message}. The file is temporarily saved at: ${savedPath}`);
+          throw new Error(`Failed to save to selected folder: ${exportError.message}. The file is temporarily saved at: ${partialPath}`);
+        }
+      } else if (baseDir) {
+        const finalPath = `${baseDir}/${filename}`;
+        if (await RNFS.exists(finalPath)) {
+          await RNFS.unlink(finalPath);
+        }
+        await RNFS.moveFile(partialPath, finalPath);
+        savedPath = finalPath;
+
+        // The transfer ran in-process rather than through Android's Download
+        // Manager, so tell the media scanner about the file ourselves
+        if (Platform.OS === 'android') {
+          await ReactNativeBlobUtil.fs
+            .scanFile([
+              {
+                path: finalPath,
+                mime:
+                  options.format === 'mp3'
+                    ? 'audio/mpeg'
+                    : options.format === 'webm'
+                      ? 'video/webm'
+                      : 'video/mp4',
+              },
+            ])
+            .catch(scanError =>
+              console.warn('⚠️ Media scan failed:', scanError),
+            );
         }
       }
 
+      // Clean up temp directory if it's empty (we created it, so we clean it up)
+      try {
+        const files = await RNFS.readdir(tempDir);
+        if (files.length === 0) {
+          // Use unlink for directories (RNFS uses unlink for both files and empty dirs)
+          await RNFS.unlink(tempDir);
+          console.log('🗑️ Cleaned up empty temp directory');
+        } else {
+          console.log(`📁 Temp directory not empty (${files.length} files), leaving it`);
+        }
+      } catch (dirCleanupErr) {
+        // Directory might not be empty or might not exist - that's fine
+        console.log('Temp directory cleanup result:', dirCleanupErr);
+      }
+
       // Save to storage service
       const video: DownloadedVideo = {
         id: localDownloadId || downloadId,
         videoId: options.videoId,
-        title: options.videoTitle || sanitizedTitle,
+        title: options.videoTitle || filename,
         format: options.format,
         filePath: savedPath,
         filename: filename,
@@ -503,6 +991,15 @@ class DownloadService {
 
       return downloadId;
     } catch (error: any) {
+      // Pausing is not a failure - the caller keeps the job around - and a
+      // cancelled job is already gone
+      if (
+        error instanceof DownloadPausedError ||
+        error instanceof DownloadCancelledError
+      ) {
+        throw error;
+      }
+
       console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
       console.error('❌ DIRECT STREAM DOWNLOAD FAILED');
       console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -529,16 +1026,26 @@ class DownloadService {
           ? error.message
           : error?.message || error?.data || 'Failed to start download';
 
-      onError?.(typeof message === 'string' ? message : 'Failed to start download');
+      const text =
+        typeof message === 'string' ? message : 'Failed to start download';
+      onError?.(
+        text,
+        error instanceof DownloadCorruptedError ||
+          error instanceof NetworkLimitError
+          ? error.reason
+          : failureReasonFromMessage(text),
+      );
       throw error;
+    } finally {
+      releaseTarget();
     }
   }
 
   async downloadVideo(
     options: DownloadOptions,
-    onProgress?: (progress: number) => void,
+    onProgress?: (progress: DownloadProgressInfo) => void,
     onComplete?: (filePath: string, filename: string) => void,
-    onError?: (error: string) => void,
+    onError?: (error: string, reason?: DownloadFailureReason) => void,
     localDownloadId?: string,
   ): Promise<string> {
     const timestamp = new Date().toISOString();
@@ -551,6 +1058,7 @@ class DownloadService {
       bitRate: options.bitRate || 'default',
       quality: options.quality || 'default',
       videoTitle: options.videoTitle,
+      clip: options.clip,
     });
     console.log(
       '🌐 API Endpoint:',
@@ -571,6 +1079,18 @@ class DownloadService {
       if (options.videoTitle) {
         this.videoTitleMap.set(downloadId, options.videoTitle);
       }
+      this.filenameValuesMap.set(downloadId, this.filenameValuesFor(options));
+      this.trackMetadataMap.set(downloadId, this.trackMetadataFor(options));
+      if (options.maxBytes) {
+        this.maxBytesMap.set(downloadId, options.maxBytes);
+      }
+      const limiter = limiterFor(options.bandwidthLimitKBps);
+      if (limiter) {
+        this.limiterMap.set(downloadId, limiter);
+      }
+      if (options.outputFolder) {
+        this.folderMap.set(downloadId, options.outputFolder);
+      }
 
       // Start SSE immediately to avoid missing early events
       this.startSSEListener(
@@ -582,7 +1102,10 @@ class DownloadService {
         options.videoTitle,
       );
       // Initialize monotonic progress tracker
-      this.lastForwardedProgress.set(downloadId, 0);
+      this.progressReporters.set(
+        downloadId,
+        createProgressReporter(onProgress),
+      );
 
       console.log(
         '⏳ Sending POST request to download API with client downloadId...',
@@ -602,6 +1125,8 @@ class DownloadService {
             bitRate: options.bitRate,
             quality: options.quality,
             videoTitle: options.videoTitle,
+            start: options.clip?.start,
+            end: options.clip?.end,
             downloadId,
           }),
         },
@@ -615,7 +1140,11 @@ class DownloadService {
         console.error(`❌ API Error: HTTP ${response.status}`);
         // Close SSE started earlier since API failed
         this.cancelDownload(downloadId);
-        throw new Error(`HTTP error! status: ${response.status}`);
+        // The server explains a rejected request (e.g. a missing resolution)
+        const body: any = await response.json().catch(() => null);
+        throw new Error(
+          body?.message || `HTTP error! status: ${response.status}`,
+        );
       }
 
       // Read response for logging and optional verification
@@ -637,18 +1166,18 @@ class DownloadService {
       console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
       console.error('Error details:', error);
       console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
-      onError?.(
-        error instanceof Error ? error.message : 'Failed to start download',
-      );
+      const message =
+        error instanceof Error ? error.message : 'Failed to start download';
+      onError?.(message, failureReasonFromMessage(message));
       throw error;
     }
   }
 
   private startSSEListener(
     downloadId: string,
-    onProgress?: (progress: number) => void,
+    onProgress?: (progress: DownloadProgressInfo) => void,
     onComplete?: (filePath: string, filename: string) => void,
-    onError?: (error: string) => void,
+    onError?: (error: string, reason?: DownloadFailureReason) => void,
     localDownloadId?: string,
     videoTitle?: string,
   ): void {
@@ -677,38 +1206,29 @@ class DownloadService {
     console.log(`💓 Heartbeat timeout: ${this.heartbeatTimeout / 1000}s`);
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
 
-    // Helpers: filename sanitization and extension inference
-    const sanitizeFileName = (name: string): string => {
-      const cleaned = (name || '')
-        .replace(/[\\/:*?"<>|]/g, '')
-        .replace(/\s+/g, ' ')
-        .trim();
-      return cleaned.substring(0, 150) || 'download';
-    };
-
-    const inferExtension = (fmt?: string, mime?: string | null): string => {
-      if (mime) {
-        if (mime.includes('audio/mpeg')) return '.mp3';
-        if (mime.includes('audio/mp4') || mime.includes('video/mp4'))
-          return '.mp4';
-        if (mime.includes('audio/webm') || mime.includes('video/webm'))
-          return '.webm';
-      }
-      if (fmt === 'mp3') return '.mp3';
-      if (fmt === 'mp4') return '.mp4';
-      if (fmt === 'webm') return '.webm';
-      return '';
-    };
+    // Template values for this download, with what the server reports on top
+    const filenameValuesFrom = (data: any, fallbackTitle: string) => ({
+      ...this.filenameValuesMap.get(downloadId),
+      title:
+        data.videoTitle ||
+        this.videoTitleMap.get(downloadId) ||
+        fallbackTitle,
+      videoId:
+        data.videoId || this.filenameValuesMap.get(downloadId)?.videoId || '',
+    });
 
-    // Monotonic progress guard - only forward increasing progress
-    const forwardProgress = (key: string, raw: number) => {
-      const clamped = Math.max(0, Math.min(100, Math.round(raw)));
-      const prev = this.lastForwardedProgress.get(key) ?? 0;
-      if (clamped > prev) {
-        this.lastForwardedProgress.set(key, clamped);
-        onProgress?.(clamped);
+    // Monotonic progress guard, shared with reconnected listeners
+    const reportProgress = (key: string, update: ProgressUpdate) => {
+      let report = this.progressReporters.get(key);
+      if (!report) {
+        report = createProgressReporter(onProgress);
+        this.progressReporters.set(key, report);
       }
+      report(update);
     };
+    // Server progress covers fetching and converting on its side
+    const forwardProgress = (key: string, raw: number) =>
+      reportProgress(key, { phase: 'processing', percent: raw });
 
     try {
       // Create EventSource connection (removed lineEndingCharacter option)
@@ -894,19 +1414,14 @@ class DownloadService {
 
                 // Resolve the URL to a file on disk and hide URL from UI
                 setTimeout(async () => {
+                  let target: SaveTarget | undefined;
                   try {
-                    // Determine desired filename: videoTitle + extension, fallback to server filename
-                    const providedTitle = (data as any).videoTitle as
-                      | string
-                      | undefined ||
-                      this.videoTitleMap.get(downloadId);
+                    // Filename comes from the user's template; the server
+                    // filename is only a fallback for the title and extension
                     const serverFilename =
                       data.filename ||
                       data.file?.filename ||
                       `download_${data.downloadId}`;
-                    const baseTitle = sanitizeFileName(
-                      providedTitle || serverFilename,
-                    );
                     const ext =
                       inferExtension((data as any).format, urlMime) ||
                       (serverFilename?.includes('.')
@@ -914,18 +1429,40 @@ class DownloadService {
                           serverFilename.lastIndexOf('.'),
                         )
                         : '');
-                    const desiredFilename = ext
-                      ? `${baseTitle}${ext}`
-                      : baseTitle;
-
-                    const savedPath = await saveFromUrlHelper(
-                      url,
-                      desiredFilename,
-                      urlMime || null,
-                      this.customDownloadPath,
-                      (pct: number) => forwardProgress(downloadId, pct),
+                    const fileSize = data.fileSize || data.file?.fileSize;
+                    const maxBytes = this.maxBytesMap.get(downloadId);
+                    if (maxBytes && fileSize && fileSize > maxBytes) {
+                      throw new NetworkLimitError(fileSize, maxBytes);
+                    }
+                    const values = filenameValuesFrom(data, serverFilename);
+                    target = await this.prepareSaveTarget(
+                      values,
+                      ext,
+                      this.folderFor(downloadId),
                     );
-                    const resolvedTitle = (data as any).videoTitle || baseTitle;
+                    const desiredFilename = target.filename;
+
+                    // Collision policy "skip": keep the existing file
+                    const savedPath =
+                      target.existingPath ||
+                      (await saveFromUrlHelper(
+                        url,
+                        desiredFilename,
+                        urlMime || null,
+                        this.folderFor(downloadId),
+                        update => reportProgress(downloadId, update),
+                        {
+                          expectedSize: data.fileSize || data.file?.fileSize,
+                          sha256: data.sha256 || data.file?.sha256,
+                        },
+                        await this.taggingFor(desiredFilename, {
+                          ...this.trackMetadataMap.get(downloadId),
+                          title: values.title,
+                        }),
+                        this.limiterMap.get(downloadId),
+                      ));
+                    forwardProgress(downloadId, 100);
+                    const resolvedTitle = values.title;
                     const video: DownloadedVideo = {
                       id: localDownloadId || downloadId,
                       videoId: (data as any).videoId || '',
@@ -944,8 +1481,16 @@ class DownloadService {
                     setTimeout(safeOnComplete, 0);
                   } catch (e) {
                     console.error('❌ Failed saving from URL', e);
-                    onError?.('Failed to save downloaded file');
+                    if (
+                      e instanceof DownloadCorruptedError ||
+                      e instanceof NetworkLimitError
+                    ) {
+                      onError?.(e.message, e.reason);
+                    } else {
+                      onError?.('Failed to save downloaded file');
+                    }
                   } finally {
+                    target?.release();
                     this.cancelDownload(downloadId);
                   }
                 }, 0);
@@ -978,6 +1523,27 @@ class DownloadService {
                   : inferExtension((data as any).format, mimeType) || '.mp3';
                 filename = `${baseTitle}${serverExt}`;
               }
+              // Legacy payloads are saved under the user's template too
+              const legacyExt = filename.includes('.')
+                ? filename.substring(filename.lastIndexOf('.'))
+                : '';
+              const prepareLegacyTarget = () =>
+                this.prepareSaveTarget(
+                  filenameValuesFrom(
+                    data,
+                    filename.substring(0, filename.length - legacyExt.length),
+                  ),
+                  legacyExt,
+                  this.folderFor(downloadId),
+                );
+              const completeWithExisting = (target: SaveTarget) => {
+                forwardProgress(downloadId, 100);
+                const safeOnComplete = createCrashSafeWrapper(
+                  () => onComplete?.(target.existingPath!, target.filename),
+                  'Download completion callback (skipped) failed',
+                );
+                setTimeout(safeOnComplete, 0);
+              };
 
               if (!fileContent) {
                 // Check if we have a streaming sink or buffered chunks
@@ -1018,7 +1584,13 @@ class DownloadService {
                 } else if (hasChunks) {
                   // Traditional buffered chunks - use existing assembly logic
                   setTimeout(async () => {
+                    let target: SaveTarget | undefined;
                     try {
+                      target = await prepareLegacyTarget();
+                      if (target.existingPath) {
+                        completeWithExisting(target);
+                        return;
+                      }
                       const start = Date.now();
                       const timeoutMs = 15000;
                       while (Date.now() - start < timeoutMs) {
@@ -1033,7 +1605,7 @@ class DownloadService {
                       }
                       await this.assembleChunks(
                         downloadId,
-                        filename,
+                        target.filename,
                         mimeType,
                         async (filePath: string, savedName: string) => {
                           forwardProgress(downloadId, 100);
@@ -1051,6 +1623,7 @@ class DownloadService {
                       console.error('❌ Failed to assemble downloaded file', e);
                       onError?.('Failed to assemble downloaded file');
                     } finally {
+                      target?.release();
                       this.cancelDownload(downloadId);
                     }
                   }, 0);
@@ -1101,12 +1674,25 @@ class DownloadService {
               console.log('💾 Saving file to device (legacy payload)...');
 
               setTimeout(async () => {
+                let target: SaveTarget | undefined;
                 try {
+                  target = await prepareLegacyTarget();
+                  if (target.existingPath) {
+                    completeWithExisting(target);
+                    this.cancelDownload(downloadId);
+                    return;
+                  }
+                  const savedName = target.filename;
                   logMemoryUsage('Before file save');
                   let filePath: string;
                   filePath = await this.saveFile(
                     normalizeBase64Helper(fileContent),
-                    filename,
+                    savedName,
+                    this.folderFor(downloadId),
+                    await this.taggingFor(
+                      savedName,
+                      this.trackMetadataMap.get(downloadId),
+                    ),
                   );
                   forwardProgress(downloadId, 100);
 
@@ -1116,10 +1702,10 @@ class DownloadService {
 
                   logMemoryUsage('After file save');
                   forceGarbageCollection();
-                  debugDownloadCompletion(filename, filePath);
+                  debugDownloadCompletion(savedName, filePath);
 
                   const safeOnComplete = createCrashSafeWrapper(
-                    () => onComplete?.(filePath, filename),
+                    () => onComplete?.(filePath, savedName),
                     'Download completion callback failed',
                   );
                   setTimeout(safeOnComplete, 0);
@@ -1136,6 +1722,8 @@ class DownloadService {
                     onError?.('Failed to save downloaded file');
                   }, 0);
                   this.cancelDownload(downloadId);
+                } finally {
+                  target?.release();
                 }
               }, 0);
               break;
@@ -1149,7 +1737,7 @@ class DownloadService {
               console.error(`Status: ${data.status}`);
               console.error(`Progress: ${data.progress}%`);
               console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
-              onError?.(data.message);
+              onError?.(data.message, failureReasonFromMessage(data.message));
               this.cancelDownload(downloadId);
               break;
           }
@@ -1247,14 +1835,22 @@ class DownloadService {
 
   private customDownloadPath: string | null = null;
 
+  // A job's own folder (SSE downloads), else the download folder
+  private folderFor(downloadId: string): string | null {
+    return this.folderMap.get(downloadId) || this.customDownloadPath;
+  }
+
   private async saveFile(
     base64Data: string,
     filename: string,
+    folder: string | null,
+    tagging?: TaggingRequest,
   ): Promise<string> {
     return await saveFileToCacheAndExport(
       base64Data,
       filename,
-      this.customDownloadPath,
+      folder,
+      tagging,
     );
   }
 
@@ -1303,7 +1899,7 @@ class DownloadService {
       eventSource.close();
       this.activeEventSources.delete(downloadId);
       this.reconnectAttempts.delete(downloadId);
-      this.lastForwardedProgress.delete(downloadId);
+      this.progressReporters.delete(downloadId);
       this.firstProgressReceived.delete(downloadId);
       this.useChunkProgress.delete(downloadId);
       this.lastProgressLog.delete(downloadId);
@@ -1317,6 +1913,54 @@ class DownloadService {
     }
   }
 
+  /**
+   * Pause an in-flight direct-stream transfer. The partial file is kept so the
+   * next downloadVideoDirectStream call for the same job resumes with a Range
+   * request. Returns false when there is no pausable transfer for this id.
+   */
+  pauseDirectStream(localDownloadId: string): boolean {
+    const entry = this.directStreamTasks.get(localDownloadId);
+    if (!entry) return false;
+
+    console.log(`⏸️ Pausing direct stream: ${localDownloadId}`);
+    entry.paused = true;
+    try {
+      entry.task.cancel();
+    } catch (error) {
+      console.warn('Failed to cancel direct stream task', error);
+    }
+    return true;
+  }
+
+  // Abort an in-flight direct-stream transfer and discard its partial file
+  async cancelDirectStream(localDownloadId: string): Promise<void> {
+    const entry = this.directStreamTasks.get(localDownloadId);
+    if (entry) {
+      entry.cancelled = true;
+      try {
+        entry.task.cancel();
+      } catch { }
+      this.directStreamTasks.delete(localDownloadId);
+    }
+
+    const tempDir = DIRECT_STREAM_TEMP_DIR;
+    try {
+      const files = await RNFS.readdir(tempDir);
+      await Promise.all(
+        files
+          .filter(name => name.startsWith(`${localDownloadId}_`) && name.endsWith('.part'))
+          .map(name => RNFS.unlink(`${tempDir}/${name}`)),
+      );
+    } catch {
+      // Nothing to clean up
+    }
+  }
+
+  // True while a direct-stream transfer for this job is running (pausable)
+  isDirectStreamActive(localDownloadId: string): boolean {
+    return this.directStreamTasks.has(localDownloadId);
+  }
+
   // Check if a download is stuck (no progress for too long)
   isDownloadStuck(downloadId: string): boolean {
     return (
@@ -1381,7 +2025,7 @@ class DownloadService {
       this.activeEventSources.clear();
       this.reconnectAttempts.clear();
       this.heartbeatTimers.clear();
-      this.lastForwardedProgress.clear();
+      this.progressReporters.clear();
       this.firstProgressReceived.clear();
       this.lastProgressLog.clear();
       this.listenerContext.clear();
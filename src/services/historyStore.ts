@@ -0,0 +1,294 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { DownloadedVideo } from './storageService';
+
+// Paged layout: records live in fixed-size pages so adding or removing one
+// download rewrites a single page instead of the whole history.
+const META_KEY = 'download_history:meta';
+const PAGE_KEY_PREFIX = 'download_history:page:';
+const LEGACY_KEY = 'downloaded_videos';
+const PAGE_SIZE = 100;
+
+export type HistorySortField = 'date' | 'title' | 'size';
+
+export interface HistoryQuery {
+  search?: string; // Case-insensitive title match
+  formats?: DownloadedVideo['format'][];
+  from?: number; // downloadedAt lower bound (inclusive, ms)
+  to?: number; // downloadedAt upper bound (inclusive, ms)
+  sortBy?: HistorySortField;
+  sortDirection?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+export interface HistoryQueryResult {
+  items: DownloadedVideo[];
+  total: number;
+}
+
+interface HistoryMeta {
+  version: 1;
+  pages: number[]; // Page numbers in insertion order
+}
+
+type HistoryListener = () => void;
+
+const pageKey = (page: number) => `${PAGE_KEY_PREFIX}${page}`;
+
+// Chapter files of one download stay together, in track order, at the
+// position where the first of them sorted
+function groupChapterFiles(sorted: DownloadedVideo[]): DownloadedVideo[] {
+  const groups = new Map<string, DownloadedVideo[]>();
+  sorted.forEach(v => {
+    if (!v.chapter) return;
+    const group = groups.get(v.chapter.parentId) || [];
+    group.push(v);
+    groups.set(v.chapter.parentId, group);
+  });
+  if (groups.size === 0) return sorted;
+
+  const result: DownloadedVideo[] = [];
+  sorted.forEach(v => {
+    if (!v.chapter) {
+      result.push(v);
+      return;
+    }
+    const group = groups.get(v.chapter.parentId);
+    if (!group) return; // Already placed
+    groups.delete(v.chapter.parentId);
+    result.push(...group.sort((a, b) => a.chapter!.index - b.chapter!.index));
+  });
+  return result;
+}
+
+/**
+ * AsyncStorage-backed download history with an in-memory index.
+ * All pages are read once on first use; queries then run against memory.
+ */
+export class DownloadHistoryStore {
+  private records: Map<string, DownloadedVideo> = new Map();
+  private pageOf: Map<string, number> = new Map();
+  private pages: Map<number, string[]> = new Map();
+  private meta: HistoryMeta = { version: 1, pages: [] };
+  private loaded: Promise<void> | null = null;
+  // Serializes writes so concurrent completions can't clobber a page
+  private writeChain: Promise<void> = Promise.resolve();
+  private listeners: Set<HistoryListener> = new Set();
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.loadFromStorage().catch(error => {
+        console.error('❌ [HISTORY] Failed to load download history', error);
+        // Allow a later call to retry; never write over pages we couldn't read
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    const metaJson = await AsyncStorage.getItem(META_KEY);
+    if (!metaJson) {
+      await this.migrateLegacy();
+      return;
+    }
+
+    this.meta = JSON.parse(metaJson);
+    const entries = await AsyncStorage.multiGet(this.meta.pages.map(pageKey));
+    entries.forEach(([key, value], i) => {
+      const page = this.meta.pages[i];
+      const videos: DownloadedVideo[] = value ? JSON.parse(value) : [];
+      this.pages.set(page, videos.map(v => v.id));
+      videos.forEach(v => {
+        this.records.set(v.id, v);
+        this.pageOf.set(v.id, page);
+      });
+      if (!value) console.warn(`⚠️ [HISTORY] Missing page ${key}`);
+    });
+    console.log(`📚 [HISTORY] Loaded ${this.records.size} downloads`);
+  }
+
+  // One-time move from the single `downloaded_videos` array
+  private async migrateLegacy(): Promise<void> {
+    const legacyJson = await AsyncStorage.getItem(LEGACY_KEY);
+    const legacy: DownloadedVideo[] = legacyJson ? JSON.parse(legacyJson) : [];
+
+    // Legacy array is newest-first; pages are filled oldest-first
+    const ordered = [...legacy].reverse();
+    const writes: [string, string][] = [];
+    for (let i = 0; i < ordered.length; i += PAGE_SIZE) {
+      const page = i / PAGE_SIZE;
+      const chunk = ordered.slice(i, i + PAGE_SIZE);
+      this.meta.pages.push(page);
+      this.pages.set(page, chunk.map(v => v.id));
+      chunk.forEach(v => {
+        this.records.set(v.id, v);
+        this.pageOf.set(v.id, page);
+      });
+      writes.push([pageKey(page), JSON.stringify(chunk)]);
+    }
+    writes.push([META_KEY, JSON.stringify(this.meta)]);
+
+    await AsyncStorage.multiSet(writes);
+    if (legacyJson) {
+      await AsyncStorage.removeItem(LEGACY_KEY);
+      console.log(
+        `📚 [HISTORY] Migrated ${legacy.length} downloads to paged storage`,
+      );
+    }
+  }
+
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(l => l());
+  }
+
+  // Newest first, matching the old array order
+  async getAll(): Promise<DownloadedVideo[]> {
+    await this.load();
+    return Array.from(this.records.values()).sort(
+      (a, b) => b.downloadedAt - a.downloadedAt,
+    );
+  }
+
+  async get(id: string): Promise<DownloadedVideo | null> {
+    await this.load();
+    return this.records.get(id) || null;
+  }
+
+  async findByVideoId(videoId: string): Promise<DownloadedVideo[]> {
+    await this.load();
+    return Array.from(this.records.values()).filter(v => v.videoId === videoId);
+  }
+
+  async count(): Promise<number> {
+    await this.load();
+    return this.records.size;
+  }
+
+  async upsert(video: DownloadedVideo): Promise<void> {
+    await this.upsertMany([video]);
+  }
+
+  // Each touched page is written once, however many of its records changed
+  async upsertMany(videos: DownloadedVideo[]): Promise<void> {
+    if (videos.length === 0) return;
+    await this.load();
+    await this.enqueueWrite(async () => {
+      const touched = new Set<number>();
+      videos.forEach(video => {
+        let page = this.pageOf.get(video.id);
+        if (page === undefined) {
+          page = this.pageWithRoom();
+          this.pages.get(page)!.push(video.id);
+          this.pageOf.set(video.id, page);
+        }
+        this.records.set(video.id, video);
+        touched.add(page);
+      });
+      for (const page of touched) {
+        await this.writePage(page);
+      }
+    });
+    this.notify();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    const page = this.pageOf.get(id);
+    if (page === undefined) return;
+
+    await this.enqueueWrite(async () => {
+      this.records.delete(id);
+      this.pageOf.delete(id);
+      this.pages.set(
+        page,
+        (this.pages.get(page) || []).filter(existing => existing !== id),
+      );
+      await this.writePage(page);
+    });
+    this.notify();
+  }
+
+  async query(query: HistoryQuery = {}): Promise<HistoryQueryResult> {
+    await this.load();
+
+    const search = query.search?.trim().toLowerCase();
+    const matches = Array.from(this.records.values()).filter(v => {
+      if (search && !v.title.toLowerCase().includes(search)) return false;
+      if (query.formats?.length && !query.formats.includes(v.format)) {
+        return false;
+      }
+      if (query.from !== undefined && v.downloadedAt < query.from) return false;
+      if (query.to !== undefined && v.downloadedAt > query.to) return false;
+      return true;
+    });
+
+    const direction = query.sortDirection === 'asc' ? 1 : -1;
+    const sortBy = query.sortBy || 'date';
+    matches.sort((a, b) => {
+      switch (sortBy) {
+        case 'title':
+          return direction * a.title.localeCompare(b.title);
+        case 'size':
+          // Unknown sizes always sort last, whatever the direction
+          if (a.fileSize === undefined || b.fileSize === undefined) {
+            if (a.fileSize === b.fileSize) return b.downloadedAt - a.downloadedAt;
+            return a.fileSize === undefined ? 1 : -1;
+          }
+          return (
+            direction * (a.fileSize - b.fileSize) ||
+            b.downloadedAt - a.downloadedAt
+          );
+        default:
+          return direction * (a.downloadedAt - b.downloadedAt);
+      }
+    });
+
+    const ordered = groupChapterFiles(matches);
+    const offset = query.offset || 0;
+    const limit = query.limit ?? ordered.length;
+    return {
+      items: ordered.slice(offset, offset + limit),
+      total: ordered.length,
+    };
+  }
+
+  private pageWithRoom(): number {
+    const last = this.meta.pages[this.meta.pages.length - 1];
+    if (last !== undefined && (this.pages.get(last)?.length || 0) < PAGE_SIZE) {
+      return last;
+    }
+    const next = last === undefined ? 0 : last + 1;
+    this.meta.pages.push(next);
+    this.pages.set(next, []);
+    return next;
+  }
+
+  private async writePage(page: number): Promise<void> {
+    const ids = this.pages.get(page) || [];
+    const videos = ids
+      .map(id => this.records.get(id))
+      .filter((v): v is DownloadedVideo => !!v);
+    await AsyncStorage.multiSet([
+      [pageKey(page), JSON.stringify(videos)],
+      [META_KEY, JSON.stringify(this.meta)],
+    ]);
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(write);
+    // Keep the chain alive even if this write fails
+    this.writeChain = next.catch(() => { });
+    return next;
+  }
+}
+
+export const historyStore = new DownloadHistoryStore();
@@ -8,3 +8,4 @@ export { storageService, type DownloadedVideo } from './storageService';
 export { clientDownloadQueue, ClientDownloadQueue } from './download/queueManager';
 export type { DownloadJob, DownloadQueueState } from './download/queue';
 export { analyticsService } from './analyticsService';
+export { subscriptionService } from './subscriptionService';
@@ -1,5 +1,20 @@
 import { downloadConfig, getDownloadConfig, DownloadMethod } from '../config/downloadConfig';
 import { DownloadOptions } from './download/types';
+import { estimatedDownloadBytes } from './download/diskSpace';
+import type { DownloadProgressInfo } from '../types/progress';
+import {
+    DownloadCancelledError,
+    DownloadPausedError,
+    NetworkLimitError,
+    type DownloadFailureReason,
+} from './download/errors';
+
+// Failures the fallback method would run into just the same
+const FINAL_FAILURES: DownloadFailureReason[] = [
+    'quality_unavailable',
+    'corrupted',
+    'insufficient_storage',
+];
 
 export class SmartDownloadManager {
     private config = getDownloadConfig();
@@ -13,9 +28,9 @@ export class SmartDownloadManager {
      */
     async downloadVideo(
         options: DownloadOptions,
-        onProgress?: (progress: number) => void,
+        onProgress?: (progress: DownloadProgressInfo) => void,
         onComplete?: (filePath: string, filename: string) => void,
-        onError?: (error: string) => void,
+        onError?: (error: string, reason?: DownloadFailureReason) => void,
         localDownloadId?: string,
     ): Promise<string> {
         const method = this.determineDownloadMethod(options);
@@ -32,25 +47,56 @@ export class SmartDownloadManager {
             console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
         }
 
+        const fallbackMethod =
+            this.config.fallbackMethod !== method ? this.config.fallbackMethod : undefined;
+
+        // While the first method runs, its failure is held back: the caller
+        // only hears about it if no fallback is tried
+        let starting = true;
+        let failure: [string, DownloadFailureReason | undefined] | undefined;
+        const onFirstError = (error: string, reason?: DownloadFailureReason) => {
+            if (starting) {
+                failure = [error, reason];
+            } else {
+                onError?.(error, reason);
+            }
+        };
+
         try {
-            return await this.executeDownload(
+            const downloadId = await this.executeDownload(
                 method,
                 options,
                 onProgress,
                 onComplete,
-                onError,
+                fallbackMethod ? onFirstError : onError,
                 localDownloadId,
             );
+            starting = false;
+            if (failure) onError?.(...failure);
+            return downloadId;
         } catch (error) {
+            starting = false;
+            // A paused, cancelled or over-limit transfer must not fall back to
+            // another method, nor one that failed for a reason the other method shares
+            if (
+                error instanceof DownloadPausedError ||
+                error instanceof DownloadCancelledError ||
+                error instanceof NetworkLimitError ||
+                (failure?.[1] && FINAL_FAILURES.includes(failure[1]))
+            ) {
+                if (failure) onError?.(...failure);
+                throw error;
+            }
+
             console.error(`❌ ${method.toUpperCase()} method failed:`, error);
 
             // Try fallback method if configured
-            if (this.config.fallbackMethod && this.config.fallbackMethod !== method) {
-                console.log(`🔄 Attempting fallback to ${this.config.fallbackMethod.toUpperCase()}...`);
+            if (fallbackMethod) {
+                console.log(`🔄 Attempting fallback to ${fallbackMethod.toUpperCase()}...`);
 
                 try {
                     return await this.executeDownload(
-                        this.config.fallbackMethod,
+                        fallbackMethod,
                         options,
                         onProgress,
                         onComplete,
@@ -58,11 +104,12 @@ export class SmartDownloadManager {
                         localDownloadId,
                     );
                 } catch (fallbackError) {
-                    console.error(`❌ Fallback ${this.config.fallbackMethod.toUpperCase()} also failed:`, fallbackError);
-                    throw new Error(`Both ${method} and ${this.config.fallbackMethod} methods failed`);
+                    console.error(`❌ Fallback ${fallbackMethod.toUpperCase()} also failed:`, fallbackError);
+                    throw new Error(`Both ${method} and ${fallbackMethod} methods failed`);
                 }
             }
 
+            if (failure) onError?.(...failure);
             throw error;
         }
     }
@@ -80,7 +127,7 @@ export class SmartDownloadManager {
 
             if (estimatedSizeMB > this.config.autoSwitchThreshold) {
                 if (this.config.enableMethodSwitchLogs) {
-                    console.log(`📏 Estimated size: ${estimatedSizeMB}MB > ${this.config.autoSwitchThreshold}MB threshold`);
+                    console.log(`📏 Estimated size: ${estimatedSizeMB.toFixed(1)}MB > ${this.config.autoSwitchThreshold}MB threshold`);
                     console.log(`🔄 Auto-switching to direct-stream for better performance`);
                 }
                 method = 'direct-stream';
@@ -96,9 +143,9 @@ export class SmartDownloadManager {
     private async executeDownload(
         method: DownloadMethod,
         options: DownloadOptions,
-        onProgress?: (progress: number) => void,
+        onProgress?: (progress: DownloadProgressInfo) => void,
         onComplete?: (filePath: string, filename: string) => void,
-        onError?: (error: string) => void,
+        onError?: (error: string, reason?: DownloadFailureReason) => void,
         localDownloadId?: string,
     ): Promise<string> {
         switch (method) {
@@ -126,38 +173,11 @@ export class SmartDownloadManager {
     }
 
     /**
-     * Estimate file size based on format and quality
+     * File size in MB: the real one when the video's streams were looked up,
+     * otherwise a guess from format and quality
      */
     private estimateFileSize(options: DownloadOptions): number {
-        // Rough estimates in MB
-        const estimates = {
-            mp3: 5, // ~5MB for average song
-            mp4: {
-                '360p': 25,
-                '480p': 40,
-                '720p': 80,
-                '1080p': 150,
-                default: 60, // Default to ~60MB
-            },
-            webm: {
-                '360p': 20,
-                '480p': 35,
-                '720p': 70,
-                '1080p': 130,
-                default: 50,
-            },
-        };
-
-        if (options.format === 'mp3') {
-            return estimates.mp3;
-        }
-
-        const formatEstimates = estimates[options.format as keyof typeof estimates] as any;
-        if (typeof formatEstimates === 'object') {
-            return formatEstimates[options.quality || 'default'] || formatEstimates.default;
-        }
-
-        return 60; // Default estimate
+        return estimatedDownloadBytes(options) / 1024 / 1024;
     }
 
     /**
@@ -1,23 +1,71 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ChannelSubscription } from '../types/subscription';
+import type { FilenameTemplate } from '../types/filename';
+import type { SubtitleFormat } from '../types/subtitle';
+import type { ChapterPart } from '../types/video';
+import {
+  DEFAULT_TAGGING_PREFERENCES,
+  type TaggingPreferences,
+} from '../types/tagging';
+import {
+  DEFAULT_NETWORK_POLICY,
+  type NetworkPolicy,
+} from '../types/network';
+import { DEFAULT_QUIET_HOURS, type QuietHours } from '../types/schedule';
+import type { FolderRule } from '../types/folders';
+import {
+  DEFAULT_PLAYBACK_RATE,
+  type PlaybackPosition,
+} from '../types/player';
+import {
+  historyStore,
+  type HistoryQuery,
+  type HistoryQueryResult,
+} from './historyStore';
+import { getFileSize } from './download/storage';
 
 const DOWNLOAD_PATH_KEY = 'download_path';
-const DOWNLOADED_VIDEOS_KEY = 'downloaded_videos';
 const DOWNLOAD_QUEUE_KEY = 'download_queue';
+const MAX_CONCURRENT_DOWNLOADS_KEY = 'max_concurrent_downloads';
+const CHANNEL_SUBSCRIPTIONS_KEY = 'channel_subscriptions';
+const FILENAME_TEMPLATE_KEY = 'filename_template';
+const TAGGING_PREFERENCES_KEY = 'metadata_tagging';
+const DISMISSED_CLIPBOARD_LINKS_KEY = 'dismissed_clipboard_links';
+const NETWORK_POLICY_KEY = 'network_policy';
+const QUIET_HOURS_KEY = 'quiet_hours';
+const BANDWIDTH_LIMIT_KEY = 'bandwidth_limit_kbps';
+const FOLDER_RULES_KEY = 'folder_rules';
+const PLAYBACK_POSITIONS_KEY = 'playback_positions';
+const PLAYBACK_RATE_KEY = 'playback_rate';
+// Oldest dismissed links are forgotten past this many
+const MAX_DISMISSED_CLIPBOARD_LINKS = 200;
+// Least recently played positions are forgotten past this many
+const MAX_PLAYBACK_POSITIONS = 200;
 
 export interface DownloadedVideo {
   id: string; // localDownloadId
   videoId: string;
   title: string;
-  format: 'mp3' | 'mp4' | 'webm';
+  format: 'mp3' | 'mp4' | 'webm' | SubtitleFormat; // srt/vtt: captions-only job
   filePath: string;
   filename: string;
   downloadedAt: number;
   thumbnailUrl?: string;
+  fileSize?: number; // bytes
+  chapter?: ChapterPart; // One file of a download split by chapters
+  quality?: string; // Video quality asked for
+  deliveredQuality?: string; // What the file has; may be below `quality`
+  missing?: boolean; // File not found by the last library scan
+  channelName?: string;
+  watchedAt?: number; // Last opened from the app
 }
 
 export interface PersistedDownloadQueue {
-  activeDownload: any | null;
+  activeDownloads: any[];
   queue: any[];
+  paused?: any[];
+  // Legacy single-slot snapshot (written by older app versions)
+  activeDownload?: any | null;
 }
 
 class StorageService {
@@ -55,9 +103,7 @@ class StorageService {
 
   async getDownloadedVideos(): Promise<DownloadedVideo[]> {
     try {
-      const videosJson = await AsyncStorage.getItem(DOWNLOADED_VIDEOS_KEY);
-      const videos = videosJson ? JSON.parse(videosJson) : [];
-      return videos;
+      return await historyStore.getAll();
     } catch (error) {
       console.error(
         '❌ [STORAGE SERVICE] Failed to get downloaded videos from storage',
@@ -76,60 +122,45 @@ class StorageService {
         filename: video.filename,
       });
 
-      const videos = await this.getDownloadedVideos();
-      console.log(
-        `📋 [STORAGE SERVICE] Current videos in storage: ${videos.length}`,
-      );
-
-      const existingIndex = videos.findIndex(v => v.id === video.id);
-
-      if (existingIndex !== -1) {
-        // Update existing video entry
-        console.log(
-          `🔄 [STORAGE SERVICE] Updating existing video at index ${existingIndex}`,
-        );
-        videos[existingIndex] = video;
-      } else {
-        // Add new video entry
-        console.log(`➕ [STORAGE SERVICE] Adding new video to storage`);
-        videos.unshift(video); // Add to the top of the list
-      }
-
-      const jsonData = JSON.stringify(videos);
-      console.log(
-        `💾 [STORAGE SERVICE] Saving ${videos.length} videos to AsyncStorage (${jsonData.length} bytes)`,
+      // Record the size up front so history can be sorted by it
+      const fileSize = video.fileSize ?? (await getFileSize(video.filePath));
+      await historyStore.upsert({ ...video, fileSize });
+      console.log(`✅ [STORAGE SERVICE] Successfully saved to history`);
+    } catch (error) {
+      console.error(
+        '❌ [STORAGE SERVICE] Failed to add downloaded video to storage',
+        error,
       );
-      await AsyncStorage.setItem(DOWNLOADED_VIDEOS_KEY, jsonData);
-      console.log(`✅ [STORAGE SERVICE] Successfully saved to AsyncStorage`);
+      throw error; // Re-throw to let caller know it failed
+    }
+  }
 
-      // Verify the save
-      const verification = await AsyncStorage.getItem(DOWNLOADED_VIDEOS_KEY);
+  // Several files from one download (e.g. its chapters) in a single write
+  async addDownloadedVideos(videos: DownloadedVideo[]): Promise<void> {
+    try {
       console.log(
-        `🔍 [STORAGE SERVICE] Verification: Data exists in storage = ${
-          verification !== null
-        }`,
+        `💾 [STORAGE SERVICE] Adding ${videos.length} videos to storage`,
       );
+      const sized: DownloadedVideo[] = [];
+      for (const video of videos) {
+        const fileSize = video.fileSize ?? (await getFileSize(video.filePath));
+        sized.push({ ...video, fileSize });
+      }
+      await historyStore.upsertMany(sized);
+      console.log(`✅ [STORAGE SERVICE] Successfully saved to history`);
     } catch (error) {
       console.error(
-        '❌ [STORAGE SERVICE] Failed to add downloaded video to storage',
+        '❌ [STORAGE SERVICE] Failed to add downloaded videos to storage',
         error,
       );
-      throw error; // Re-throw to let caller know it failed
+      throw error;
     }
   }
 
   async removeDownloadedVideo(id: string): Promise<void> {
     try {
       console.log(`🗑️ [STORAGE SERVICE] Removing video from storage: ${id}`);
-      const videos = await this.getDownloadedVideos();
-      const filteredVideos = videos.filter(v => v.id !== id);
-      console.log(
-        `📋 [STORAGE SERVICE] Videos before: ${videos.length}, after: ${filteredVideos.length}`,
-      );
-      await AsyncStorage.setItem(
-        DOWNLOADED_VIDEOS_KEY,
-        JSON.stringify(filteredVideos),
-      );
+      await historyStore.remove(id);
       console.log(
         `✅ [STORAGE SERVICE] Successfully removed video from storage`,
       );
@@ -141,6 +172,61 @@ class StorageService {
     }
   }
 
+  async markDownloadWatched(id: string): Promise<void> {
+    try {
+      const video = await historyStore.get(id);
+      if (video) await historyStore.upsert({ ...video, watchedAt: Date.now() });
+    } catch (error) {
+      console.error('❌ [STORAGE SERVICE] Failed to mark download as watched', error);
+    }
+  }
+
+  async findDownloadedVideos(videoId: string): Promise<DownloadedVideo[]> {
+    try {
+      return await historyStore.findByVideoId(videoId);
+    } catch (error) {
+      console.error('❌ [STORAGE SERVICE] Failed to look up downloaded video', error);
+      return [];
+    }
+  }
+
+  // Search/filter/sort the download history (paged via offset + limit)
+  async queryDownloadHistory(query: HistoryQuery): Promise<HistoryQueryResult> {
+    try {
+      return await historyStore.query(query);
+    } catch (error) {
+      console.error('❌ [STORAGE SERVICE] Failed to query download history', error);
+      return { items: [], total: 0 };
+    }
+  }
+
+  // Fires whenever a history entry is added, updated or removed
+  subscribeToDownloadHistory(listener: () => void): () => void {
+    return historyStore.subscribe(listener);
+  }
+
+  // Fill in sizes for entries saved before sizes were recorded
+  async backfillDownloadSizes(): Promise<void> {
+    try {
+      const missing = (await historyStore.getAll()).filter(
+        v => v.fileSize === undefined,
+      );
+      if (missing.length === 0) return;
+
+      const updated: DownloadedVideo[] = [];
+      for (const video of missing) {
+        const fileSize = await getFileSize(video.filePath);
+        if (fileSize !== undefined) updated.push({ ...video, fileSize });
+      }
+      await historyStore.upsertMany(updated);
+      console.log(
+        `📏 [STORAGE SERVICE] Backfilled sizes for ${updated.length}/${missing.length} downloads`,
+      );
+    } catch (error) {
+      console.error('❌ [STORAGE SERVICE] Failed to backfill download sizes', error);
+    }
+  }
+
   async saveDownloadQueue(queue: PersistedDownloadQueue): Promise<void> {
     try {
       const queueJson = JSON.stringify(queue);
@@ -150,6 +236,256 @@ class StorageService {
     }
   }
 
+  async getMaxConcurrentDownloads(): Promise<number | null> {
+    try {
+      const value = await AsyncStorage.getItem(MAX_CONCURRENT_DOWNLOADS_KEY);
+      if (!value) return null;
+      const parsed = parseInt(value, 10);
+      return Number.isNaN(parsed) ? null : parsed;
+    } catch (error) {
+      console.error('❌ Failed to get max concurrent downloads from storage', error);
+      return null;
+    }
+  }
+
+  async setMaxConcurrentDownloads(count: number): Promise<void> {
+    try {
+      await AsyncStorage.setItem(MAX_CONCURRENT_DOWNLOADS_KEY, String(count));
+      console.log(`✅ Max concurrent downloads saved to storage: ${count}`);
+    } catch (error) {
+      console.error('❌ Failed to set max concurrent downloads in storage', error);
+      throw error;
+    }
+  }
+
+  async getFilenameTemplate(): Promise<FilenameTemplate | null> {
+    try {
+      const json = await AsyncStorage.getItem(FILENAME_TEMPLATE_KEY);
+      return json ? JSON.parse(json) : null;
+    } catch (error) {
+      console.error('❌ Failed to get filename template from storage', error);
+      return null;
+    }
+  }
+
+  async setFilenameTemplate(template: FilenameTemplate): Promise<void> {
+    try {
+      await AsyncStorage.setItem(FILENAME_TEMPLATE_KEY, JSON.stringify(template));
+      console.log(`✅ Filename template saved to storage: ${template.template}`);
+    } catch (error) {
+      console.error('❌ Failed to set filename template in storage', error);
+      throw error;
+    }
+  }
+
+  async getTaggingPreferences(): Promise<TaggingPreferences> {
+    try {
+      const json = await AsyncStorage.getItem(TAGGING_PREFERENCES_KEY);
+      // Formats added later default to on
+      return { ...DEFAULT_TAGGING_PREFERENCES, ...(json ? JSON.parse(json) : {}) };
+    } catch (error) {
+      console.error('❌ Failed to get tagging preferences from storage', error);
+      return DEFAULT_TAGGING_PREFERENCES;
+    }
+  }
+
+  async setTaggingPreferences(preferences: TaggingPreferences): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        TAGGING_PREFERENCES_KEY,
+        JSON.stringify(preferences),
+      );
+      console.log('✅ Tagging preferences saved to storage', preferences);
+    } catch (error) {
+      console.error('❌ Failed to set tagging preferences in storage', error);
+      throw error;
+    }
+  }
+
+  async getNetworkPolicy(): Promise<NetworkPolicy> {
+    try {
+      const json = await AsyncStorage.getItem(NETWORK_POLICY_KEY);
+      return { ...DEFAULT_NETWORK_POLICY, ...(json ? JSON.parse(json) : {}) };
+    } catch (error) {
+      console.error('❌ Failed to get network policy from storage', error);
+      return DEFAULT_NETWORK_POLICY;
+    }
+  }
+
+  async setNetworkPolicy(policy: NetworkPolicy): Promise<void> {
+    try {
+      await AsyncStorage.setItem(NETWORK_POLICY_KEY, JSON.stringify(policy));
+      console.log('✅ Network policy saved to storage', policy);
+    } catch (error) {
+      console.error('❌ Failed to set network policy in storage', error);
+      throw error;
+    }
+  }
+
+  async getQuietHours(): Promise<QuietHours> {
+    try {
+      const json = await AsyncStorage.getItem(QUIET_HOURS_KEY);
+      return { ...DEFAULT_QUIET_HOURS, ...(json ? JSON.parse(json) : {}) };
+    } catch (error) {
+      console.error('❌ Failed to get quiet hours from storage', error);
+      return DEFAULT_QUIET_HOURS;
+    }
+  }
+
+  async setQuietHours(quietHours: QuietHours): Promise<void> {
+    try {
+      await AsyncStorage.setItem(QUIET_HOURS_KEY, JSON.stringify(quietHours));
+      console.log('✅ Quiet hours saved to storage', quietHours);
+    } catch (error) {
+      console.error('❌ Failed to set quiet hours in storage', error);
+      throw error;
+    }
+  }
+
+  // Global download cap in KB/s; 0 means uncapped
+  async getBandwidthLimit(): Promise<number> {
+    try {
+      const value = await AsyncStorage.getItem(BANDWIDTH_LIMIT_KEY);
+      const parsed = value ? parseInt(value, 10) : 0;
+      return Number.isNaN(parsed) ? 0 : parsed;
+    } catch (error) {
+      console.error('❌ Failed to get bandwidth limit from storage', error);
+      return 0;
+    }
+  }
+
+  async setBandwidthLimit(limitKBps: number): Promise<void> {
+    try {
+      await AsyncStorage.setItem(BANDWIDTH_LIMIT_KEY, String(limitKBps));
+      console.log(`✅ Bandwidth limit saved to storage: ${limitKBps} KB/s`);
+    } catch (error) {
+      console.error('❌ Failed to set bandwidth limit in storage', error);
+      throw error;
+    }
+  }
+
+  async getFolderRules(): Promise<FolderRule[]> {
+    try {
+      const json = await AsyncStorage.getItem(FOLDER_RULES_KEY);
+      return json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error('❌ Failed to get folder rules from storage', error);
+      return [];
+    }
+  }
+
+  async setFolderRules(rules: FolderRule[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(FOLDER_RULES_KEY, JSON.stringify(rules));
+      console.log(`✅ Folder rules saved to storage: ${rules.length} rules`);
+    } catch (error) {
+      console.error('❌ Failed to set folder rules in storage', error);
+      throw error;
+    }
+  }
+
+  // Video ids already offered from the clipboard and dismissed or acted on
+  async getDismissedClipboardLinks(): Promise<string[]> {
+    try {
+      const json = await AsyncStorage.getItem(DISMISSED_CLIPBOARD_LINKS_KEY);
+      return json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error('❌ Failed to get dismissed clipboard links from storage', error);
+      return [];
+    }
+  }
+
+  async addDismissedClipboardLink(videoId: string): Promise<void> {
+    try {
+      const dismissed = await this.getDismissedClipboardLinks();
+      const updated = [...dismissed.filter(id => id !== videoId), videoId].slice(
+        -MAX_DISMISSED_CLIPBOARD_LINKS,
+      );
+      await AsyncStorage.setItem(
+        DISMISSED_CLIPBOARD_LINKS_KEY,
+        JSON.stringify(updated),
+      );
+    } catch (error) {
+      console.error('❌ Failed to save dismissed clipboard link to storage', error);
+    }
+  }
+
+  // Resume positions keyed by download id
+  private async getPlaybackPositions(): Promise<Record<string, PlaybackPosition>> {
+    const json = await AsyncStorage.getItem(PLAYBACK_POSITIONS_KEY);
+    return json ? JSON.parse(json) : {};
+  }
+
+  async getPlaybackPosition(id: string): Promise<PlaybackPosition | undefined> {
+    try {
+      return (await this.getPlaybackPositions())[id];
+    } catch (error) {
+      console.error('❌ Failed to get playback position from storage', error);
+      return undefined;
+    }
+  }
+
+  // Pass no position to forget it, e.g. once playback reached the end
+  async setPlaybackPosition(
+    id: string,
+    position?: PlaybackPosition,
+  ): Promise<void> {
+    try {
+      const positions = await this.getPlaybackPositions();
+      delete positions[id];
+      if (position) positions[id] = position;
+      const updated = Object.fromEntries(
+        Object.entries(positions)
+          .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+          .slice(0, MAX_PLAYBACK_POSITIONS),
+      );
+      await AsyncStorage.setItem(PLAYBACK_POSITIONS_KEY, JSON.stringify(updated));
+    } catch (error) {
+      console.error('❌ Failed to save playback position to storage', error);
+    }
+  }
+
+  async getPlaybackRate(): Promise<number> {
+    try {
+      const value = await AsyncStorage.getItem(PLAYBACK_RATE_KEY);
+      const parsed = value ? parseFloat(value) : DEFAULT_PLAYBACK_RATE;
+      return Number.isNaN(parsed) ? DEFAULT_PLAYBACK_RATE : parsed;
+    } catch (error) {
+      console.error('❌ Failed to get playback rate from storage', error);
+      return DEFAULT_PLAYBACK_RATE;
+    }
+  }
+
+  async setPlaybackRate(rate: number): Promise<void> {
+    try {
+      await AsyncStorage.setItem(PLAYBACK_RATE_KEY, String(rate));
+    } catch (error) {
+      console.error('❌ Failed to save playback rate to storage', error);
+    }
+  }
+
+  async getSubscriptions(): Promise<ChannelSubscription[]> {
+    try {
+      const json = await AsyncStorage.getItem(CHANNEL_SUBSCRIPTIONS_KEY);
+      return json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error('❌ Failed to get channel subscriptions from storage', error);
+      return [];
+    }
+  }
+
+  async saveSubscriptions(subscriptions: ChannelSubscription[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        CHANNEL_SUBSCRIPTIONS_KEY,
+        JSON.stringify(subscriptions),
+      );
+    } catch (error) {
+      console.error('❌ Failed to save channel subscriptions to storage', error);
+      throw error;
+    }
+  }
+
   async loadDownloadQueue(): Promise<PersistedDownloadQueue | null> {
     try {
       const queueJson = await AsyncStorage.getItem(DOWNLOAD_QUEUE_KEY);
@@ -0,0 +1,225 @@
+import { apiClient } from './apiClient';
+import { storageService } from './storageService';
+import { clientDownloadQueue } from './download/queueManager';
+import type { DownloadJob } from './download/queue';
+import type {
+  ChannelSubscription,
+  SubscriptionRule,
+} from '../types/subscription';
+import type { Video } from '../types/video';
+
+const CHECK_INTERVAL_MS = 30 * 60 * 1000; // Look for new uploads every 30 minutes
+const UPLOADS_PER_CHECK = 15; // Recent uploads fetched per channel per check
+
+export const DEFAULT_SUBSCRIPTION_RULE: SubscriptionRule = {
+  format: 'mp3',
+  quality: 'audio_only',
+  bitRate: '320k',
+};
+
+type SubscriptionsListener = (subscriptions: ChannelSubscription[]) => void;
+
+/**
+ * Followed channels and the periodic check that auto-queues their new uploads.
+ * An upload is queued when it was published after the channel was followed,
+ * matches the channel's keyword filter and is neither downloaded nor queued.
+ */
+export class SubscriptionService {
+  private subscriptions: ChannelSubscription[] = [];
+  private listeners: Set<SubscriptionsListener> = new Set();
+  private loaded: Promise<void> | null = null;
+  private timer?: ReturnType<typeof setInterval>;
+  private checking = false;
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = storageService.getSubscriptions().then(saved => {
+        this.subscriptions = saved;
+      });
+    }
+    return this.loaded;
+  }
+
+  async getSubscriptions(): Promise<ChannelSubscription[]> {
+    await this.load();
+    return [...this.subscriptions];
+  }
+
+  subscribe(listener: SubscriptionsListener): () => void {
+    this.listeners.add(listener);
+    this.load()
+      .then(() => listener([...this.subscriptions]))
+      .catch(() => { });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  isFollowing(channelId: string): boolean {
+    return this.subscriptions.some(s => s.channelId === channelId);
+  }
+
+  async follow(
+    channelId: string,
+    channelName: string,
+    rule: SubscriptionRule = DEFAULT_SUBSCRIPTION_RULE,
+  ): Promise<void> {
+    await this.load();
+    if (this.isFollowing(channelId)) return;
+
+    this.subscriptions.push({
+      ...rule,
+      channelId,
+      channelName: channelName || channelId,
+      subscribedAt: Date.now(),
+    });
+    console.log(`📺 Following channel: ${channelName || channelId}`);
+    await this.persist();
+  }
+
+  async unfollow(channelId: string): Promise<void> {
+    await this.load();
+    this.subscriptions = this.subscriptions.filter(
+      s => s.channelId !== channelId,
+    );
+    console.log(`📺 Unfollowed channel: ${channelId}`);
+    await this.persist();
+  }
+
+  async updateRule(
+    channelId: string,
+    rule: Partial<SubscriptionRule>,
+  ): Promise<void> {
+    await this.load();
+    this.subscriptions = this.subscriptions.map(s =>
+      s.channelId === channelId ? { ...s, ...rule } : s,
+    );
+    await this.persist();
+  }
+
+  // Start the periodic check (runs one check straight away)
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkForNewUploads().catch(() => { });
+    }, CHECK_INTERVAL_MS);
+    this.checkForNewUploads().catch(() => { });
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Fetch recent uploads for every followed channel and queue the ones that
+   * match its rule. Returns the number of jobs queued.
+   */
+  async checkForNewUploads(): Promise<number> {
+    if (this.checking) return 0;
+    this.checking = true;
+
+    try {
+      await this.load();
+      if (this.subscriptions.length === 0) return 0;
+
+      const downloaded = await storageService.getDownloadedVideos();
+      const state = clientDownloadQueue.getState();
+      const knownVideoIds = new Set<string>([
+        ...downloaded.map(v => v.videoId),
+        ...state.activeDownloads.map(j => j.videoId),
+        ...state.queuedDownloads.map(j => j.videoId),
+        ...state.pausedDownloads.map(j => j.videoId),
+      ]);
+
+      const jobs: DownloadJob[] = [];
+      const checkedAt = Date.now();
+      const checkedIds = new Set<string>();
+      // Snapshot: follow/unfollow may replace the list while we're awaiting
+      const subscriptions = [...this.subscriptions];
+
+      for (const sub of subscriptions) {
+        let uploads: Video[];
+        try {
+          uploads = await apiClient.getChannelVideos(
+            sub.channelId,
+            UPLOADS_PER_CHECK,
+          );
+        } catch (error) {
+          // One failing channel shouldn't block the others
+          console.warn(`⚠️ Failed to check channel ${sub.channelId}`, error);
+          continue;
+        }
+
+        uploads
+          .filter(video => this.matchesRule(video, sub))
+          .filter(video => !knownVideoIds.has(video.id))
+          .forEach(video => {
+            knownVideoIds.add(video.id);
+            jobs.push(this.buildJob(video, sub, jobs.length));
+          });
+        checkedIds.add(sub.channelId);
+      }
+
+      // The queue skips anything it already has, so one duplicate doesn't
+      // stop the rest or the checked timestamps from being saved
+      const queuedIds = clientDownloadQueue.enqueueManyWithCallbacks(
+        jobs.map(job => ({ job })),
+      );
+      console.log(
+        `📺 Subscription check: ${queuedIds.length} new uploads queued from ${subscriptions.length} channels`,
+      );
+      this.subscriptions = this.subscriptions.map(s =>
+        checkedIds.has(s.channelId) ? { ...s, lastCheckedAt: checkedAt } : s,
+      );
+      await this.persist();
+      return queuedIds.length;
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private matchesRule(video: Video, sub: ChannelSubscription): boolean {
+    const publishedAt = Date.parse(video.publishedAt);
+    if (!Number.isNaN(publishedAt) && publishedAt < sub.subscribedAt) {
+      return false;
+    }
+    const keyword = sub.keyword?.trim().toLowerCase();
+    return !keyword || video.title.toLowerCase().includes(keyword);
+  }
+
+  private buildJob(
+    video: Video,
+    sub: ChannelSubscription,
+    index: number,
+  ): DownloadJob {
+    // Same format/quality mapping the download drawer uses
+    const isAudio = sub.format === 'mp3';
+    return {
+      id: `${Date.now()}-sub${index}`,
+      videoId: video.id,
+      format: sub.format,
+      bitRate: isAudio ? sub.bitRate || '320k' : undefined,
+      quality: isAudio
+        ? '144p'
+        : sub.quality === 'audio_only'
+          ? '720p'
+          : sub.quality,
+      videoTitle: video.title,
+      channelName: sub.channelName,
+      thumbnailUrl: video.thumbnailUrl,
+      publishedAt: video.publishedAt,
+      status: 'queued',
+      progress: 0,
+      createdAt: Date.now(),
+    };
+  }
+
+  private async persist(): Promise<void> {
+    const snapshot = [...this.subscriptions];
+    this.listeners.forEach(l => l(snapshot));
+    await storageService.saveSubscriptions(snapshot);
+  }
+}
+
+export const subscriptionService = new SubscriptionService();
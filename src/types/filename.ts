@@ -0,0 +1,7 @@
+// What to do when the rendered filename already exists in the download folder
+export type CollisionPolicy = 'overwrite' | 'skip' | 'number';
+
+export interface FilenameTemplate {
+  template: string; // e.g. "{channel} - {title} [{quality}]"
+  collisionPolicy: CollisionPolicy;
+}
@@ -0,0 +1,8 @@
+// Sends matching downloads to their own folder. A rule matches when every
+// condition it sets matches; the first matching rule wins.
+export interface FolderRule {
+  id: string;
+  format?: 'mp3' | 'mp4' | 'webm';
+  channelName?: string; // Compared ignoring case
+  folder: string; // SAF content:// tree or filesystem path
+}
@@ -0,0 +1,21 @@
+// A stream the server can fetch for a video. Video-only and audio-only
+// streams are merged into one file for MP4/WebM downloads.
+export interface StreamFormat {
+  itag: number; // YouTube's id for the stream
+  container: string; // "mp4", "webm", "m4a"
+  codec: string; // e.g. "avc1.64001F", "vp9", "opus"
+  hasVideo: boolean;
+  hasAudio: boolean;
+  resolution?: string; // Video streams only, e.g. "1080p"
+  fps?: number;
+  bitrate: number; // bits/s
+  size?: number; // Exact size in bytes, when YouTube reports one
+}
+
+export interface ApiFormatsResponse {
+  code: number;
+  message: string;
+  result: {
+    formats: StreamFormat[];
+  };
+}
@@ -1,2 +1,12 @@
 export * from './theme';
-export * from './video';
\ No newline at end of file
+export * from './video';
+export * from './subscription';
+export * from './filename';
+export * from './tagging';
+export * from './subtitle';
+export * from './network';
+export * from './schedule';
+export * from './progress';
+export * from './formats';
+export * from './folders';
+export * from './player';
@@ -0,0 +1,33 @@
+// How downloads may use a cellular connection
+export type CellularPolicy = 'allow' | 'wifi_only' | 'size_limit';
+
+export interface NetworkPolicy {
+  cellular: CellularPolicy;
+  cellularLimitMB: number; // Largest download allowed on cellular with 'size_limit'
+  pauseOnMetered: boolean; // Hold the queue on any metered network, hotspots included
+  autoResume: boolean; // Restart held jobs once the network allows it again
+}
+
+export const DEFAULT_NETWORK_POLICY: NetworkPolicy = {
+  cellular: 'allow',
+  cellularLimitMB: 50,
+  pauseOnMetered: false,
+  autoResume: true,
+};
+
+export const CELLULAR_LIMIT_OPTIONS_MB = [10, 25, 50, 100, 250];
+
+// Bandwidth caps offered in Settings and per download; 0 is uncapped
+export const BANDWIDTH_LIMIT_OPTIONS_KBPS = [0, 256, 512, 1024, 2048, 5120];
+
+// What the device is connected to right now
+export interface NetworkStatus {
+  isConnected: boolean;
+  isInternetReachable: boolean; // Assumed true until NetInfo has checked
+  type: string; // NetInfo type: 'wifi', 'cellular', 'ethernet', 'none'...
+  isCellular: boolean;
+  isMetered: boolean; // Cellular, or a network the OS marks as expensive
+}
+
+// Why a job is waiting instead of downloading
+export type NetworkHoldReason = 'offline' | 'wifi_only' | 'metered' | 'size_limit';
@@ -0,0 +1,28 @@
+/**
+ * In-app playback of completed downloads
+ */
+
+export const PLAYABLE_FORMATS = ['mp4', 'webm', 'mp3'];
+
+// What the player screen is opened with
+export interface PlayerParams {
+  id: string; // Download history id, for resume position and watched state
+  title: string;
+  filePath: string; // Filesystem path or SAF document uri
+  format: string;
+  thumbnailUrl?: string;
+}
+
+// Where playback of a download stopped, to resume from next time
+export interface PlaybackPosition {
+  position: number; // Seconds
+  duration: number; // Seconds
+  updatedAt: number; // Epoch ms
+}
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+export const DEFAULT_PLAYBACK_RATE = 1;
+
+// Sleep timer choices in minutes
+export const SLEEP_TIMER_MINUTES = [15, 30, 45, 60];
@@ -0,0 +1,25 @@
+// Where a download is: the server fetching and converting, bytes arriving on
+// the device, or the finished file being copied into a SAF folder
+export type DownloadPhase = 'processing' | 'transferring' | 'exporting';
+
+/**
+ * Progress of one download, the same for every download method. Byte
+ * counters and speeds are only known while bytes are arriving; later phases
+ * keep the last transfer's counters.
+ */
+export interface DownloadProgressInfo {
+  percent: number; // 0-100 over the whole download, never goes back
+  phase: DownloadPhase;
+  bytesReceived?: number;
+  totalBytes?: number; // Unknown until the server sends a length
+  speed?: number; // bytes/s over the last sample
+  smoothedSpeed?: number; // bytes/s, moving average; use this for display
+  averageSpeed?: number; // bytes/s over the whole transfer
+  eta?: number; // Seconds left in the transfer, at the smoothed speed
+}
+
+// What a download method reports; speeds and ETA are worked out from it
+export type ProgressUpdate = Pick<
+  DownloadProgressInfo,
+  'percent' | 'phase' | 'bytesReceived' | 'totalBytes'
+>;
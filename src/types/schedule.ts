@@ -0,0 +1,21 @@
+/**
+ * Daily window for downloads set to run overnight, in minutes after
+ * midnight (local time). The window may wrap past midnight.
+ */
+export interface QuietHours {
+  enabled: boolean;
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: 23 * 60, // 23:00
+  end: 7 * 60, // 07:00
+};
+
+// When a download should start
+export interface DownloadSchedule {
+  notBefore?: number; // Epoch ms
+  quietHoursOnly?: boolean; // Start only inside the quiet-hours window
+}
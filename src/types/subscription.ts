@@ -0,0 +1,18 @@
+import { VideoQuality } from './video';
+
+export type SubscriptionFormat = 'mp3' | 'mp4' | 'webm';
+
+// Download rule applied to every new upload of a followed channel
+export interface SubscriptionRule {
+  format: SubscriptionFormat;
+  quality: VideoQuality;
+  bitRate?: string; // mp3 only
+  keyword?: string; // Case-insensitive title filter; empty means every upload
+}
+
+export interface ChannelSubscription extends SubscriptionRule {
+  channelId: string;
+  channelName: string;
+  subscribedAt: number; // Uploads published before this are ignored
+  lastCheckedAt?: number;
+}
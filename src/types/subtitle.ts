@@ -0,0 +1,23 @@
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// What to ask the server for when a job includes captions
+export interface SubtitleOptions {
+  language: string; // BCP-47 code, e.g. "en" or "pt-BR"
+  format: SubtitleFormat;
+  allowAutoGenerated: boolean; // Fall back to YouTube's automatic captions
+}
+
+// A caption track the video offers
+export interface CaptionTrack {
+  languageCode: string;
+  name: string; // Display name, e.g. "English"
+  isAutoGenerated: boolean;
+}
+
+export interface ApiCaptionTracksResponse {
+  code: number;
+  message: string;
+  result: {
+    tracks: CaptionTrack[];
+  };
+}
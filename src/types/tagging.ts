@@ -0,0 +1,10 @@
+// Formats the post-download tagging stage knows how to write
+export type TaggableFormat = 'mp3' | 'mp4';
+
+// Per-format switch for writing title/artist/date/artwork into saved files
+export type TaggingPreferences = Record<TaggableFormat, boolean>;
+
+export const DEFAULT_TAGGING_PREFERENCES: TaggingPreferences = {
+  mp3: true,
+  mp4: true,
+};
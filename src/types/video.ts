@@ -1,3 +1,6 @@
+import type { NetworkHoldReason } from './network';
+import type { DownloadProgressInfo } from './progress';
+
 export interface Video {
   id: string;
   title: string;
@@ -7,11 +10,37 @@ export interface Video {
   channelId: string;
   publishedAt: string;
   viewCount?: number;
+  description?: string;
+  chapters?: Chapter[]; // Parsed from description timestamps
+}
+
+// A chapter of a long upload, e.g. one track of a full album
+export interface Chapter {
+  title: string;
+  start: number; // seconds
+  end?: number; // Omitted on the last chapter: runs to the end of the video
 }
 
-export type VideoFormat = 'mp4' | 'webm' | 'mp3' | 'mkv';
+// srt/vtt only appear on captions-only downloads
+export type VideoFormat = 'mp4' | 'webm' | 'mp3' | 'mkv' | 'srt' | 'vtt';
 export type VideoQuality = '144p' | '240p' | '360p' | '480p' | '720p' | '1080p' | '1440p' | '2160p' | 'audio_only';
-export type DownloadStatus = 'pending' | 'downloading' | 'completed' | 'failed' | 'cancelled';
+// "best_up_to": step down when the resolution is missing; "exact": fail
+export type QualityMode = 'best_up_to' | 'exact';
+export type DownloadStatus = 'pending' | 'scheduled' | 'downloading' | 'paused' | 'waiting_for_network' | 'completed' | 'failed' | 'cancelled';
+
+// Part of a video to download, in seconds from the start
+export interface ClipRange {
+  start?: number;
+  end?: number; // Omitted: to the end of the video
+}
+
+// One file of a download that was split by chapters
+export interface ChapterPart {
+  parentId: string; // Job id of the download that was split
+  parentTitle: string;
+  index: number; // 1-based
+  count: number;
+}
 
 export interface Download {
   id: string;
@@ -21,7 +50,15 @@ export interface Download {
   quality: VideoQuality;
   status: DownloadStatus;
   progress: number; // 0-100
+  progressInfo?: DownloadProgressInfo; // Bytes, speed, ETA and phase
+  deliveredQuality?: VideoQuality; // What the file has; may be below `quality`
   filePath?: string;
+  fileSize?: number; // bytes, known once saved
+  fileMissing?: boolean; // Saved file was moved or deleted outside the app
+  clip?: ClipRange;
+  chapter?: ChapterPart; // Set on the per-chapter files of a split download
+  networkHold?: NetworkHoldReason; // Why a waiting_for_network download is held
+  scheduledFor?: Date; // When a scheduled download becomes due
   error?: string;
   createdAt: Date;
   startedAt?: Date;
@@ -42,6 +79,12 @@ export interface SearchResponse {
   totalPages?: number;
 }
 
+export interface PlaylistResponse {
+  playlistId: string;
+  title?: string;
+  videos: Video[];
+}
+
 // API Response types (matching the actual API structure)
 export interface ApiSearchResponse {
   code: number;
@@ -75,3 +118,54 @@ export interface ApiVideoItem {
     title: string;
   };
 }
+
+export interface ApiVideoDetailsResponse {
+  code: number;
+  message: string;
+  result: {
+    title: string;
+    description: string;
+    channelTitle: string;
+    channelId: string;
+    thumbnailUrl: string;
+    publishedAt: string;
+    duration?: number; // seconds
+  };
+}
+
+// Playlist items are passed through from the YouTube playlistItems resource
+export interface ApiPlaylistResponse {
+  code: number;
+  message: string;
+  result: {
+    title?: string;
+    items: ApiPlaylistItem[];
+    nextPage: string;
+    totalResults?: number;
+  };
+}
+
+export interface ApiPlaylistItem {
+  etag: string;
+  kind: string;
+  snippet: {
+    channelId: string;
+    channelTitle: string;
+    title: string;
+    description: string;
+    publishedAt: string;
+    position: number;
+    resourceId?: { kind: string; videoId: string };
+    videoOwnerChannelId?: string;
+    videoOwnerChannelTitle?: string;
+    thumbnails: {
+      default?: { height: number; url: string; width: number };
+      high?: { height: number; url: string; width: number };
+      medium?: { height: number; url: string; width: number };
+    };
+  };
+  contentDetails?: {
+    videoId: string;
+    videoPublishedAt?: string;
+  };
+}
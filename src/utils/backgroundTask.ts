@@ -1,11 +1,21 @@
 import { Platform, NativeModules, AppState } from 'react-native';
+import BackgroundFetch, { type HeadlessEvent } from 'react-native-background-fetch';
 
 /**
  * Background task utilities for keeping downloads alive
  */
 
+// One-shot task that wakes the queue when a scheduled download is due.
+// iOS needs it listed under BGTaskSchedulerPermittedIdentifiers.
+const QUEUE_WAKE_TASK_ID = 'com.transistorsoft.ytdownloader.queuewake';
+// The OS never runs background fetch more often than this
+const FETCH_INTERVAL_MINUTES = 15;
+
 class BackgroundTaskManager {
   private isBackgroundEnabled = false;
+  private configured?: Promise<boolean>;
+  private wakeHandler?: () => void | Promise<void>;
+  private wakeAt?: number;
 
   /**
    * Request battery optimization exemption for Android
@@ -50,6 +60,98 @@ class BackgroundTaskManager {
     }
   }
 
+  /**
+   * Set what runs when the OS wakes the app for a scheduled download (or
+   * for a periodic background fetch, the fallback when one-shot tasks are
+   * delayed). The download queue registers itself here.
+   */
+  setWakeHandler(handler: () => void | Promise<void>): void {
+    this.wakeHandler = handler;
+  }
+
+  /**
+   * Ask the OS to wake the app at `at` (epoch ms). Replaces any earlier
+   * request; the OS may run it late, never early.
+   */
+  async scheduleWake(at: number): Promise<void> {
+    if (this.wakeAt === at) return;
+    this.wakeAt = at;
+    if (!(await this.configure())) return;
+
+    try {
+      await BackgroundFetch.stop(QUEUE_WAKE_TASK_ID);
+      await BackgroundFetch.scheduleTask({
+        taskId: QUEUE_WAKE_TASK_ID,
+        delay: Math.max(0, at - Date.now()),
+        periodic: false,
+        forceAlarmManager: true, // Exact time on Android
+        stopOnTerminate: false,
+        enableHeadless: true,
+      });
+      console.log(`⏰ Queue wake-up scheduled for ${new Date(at).toISOString()}`);
+    } catch (error) {
+      console.error('❌ Failed to schedule queue wake-up:', error);
+    }
+  }
+
+  async cancelWake(): Promise<void> {
+    if (this.wakeAt === undefined) return;
+    this.wakeAt = undefined;
+    if (!(await this.configure())) return;
+    await BackgroundFetch.stop(QUEUE_WAKE_TASK_ID).catch(() => false);
+  }
+
+  /**
+   * Android runs wake-ups here when the app has been terminated. Register
+   * from index.js with BackgroundFetch.registerHeadlessTask.
+   */
+  handleHeadlessEvent = async (event: HeadlessEvent): Promise<void> => {
+    if (event.timeout) {
+      BackgroundFetch.finish(event.taskId);
+      return;
+    }
+    await this.handleTask(event.taskId);
+  };
+
+  private handleTask = async (taskId: string): Promise<void> => {
+    console.log(`⏰ Background task fired: ${taskId}`);
+    if (taskId === QUEUE_WAKE_TASK_ID) this.wakeAt = undefined;
+    try {
+      await this.wakeHandler?.();
+    } catch (error) {
+      console.error('❌ Queue wake-up failed:', error);
+    } finally {
+      BackgroundFetch.finish(taskId);
+    }
+  };
+
+  private configure(): Promise<boolean> {
+    if (!this.configured) {
+      this.configured = BackgroundFetch.configure(
+        {
+          minimumFetchInterval: FETCH_INTERVAL_MINUTES,
+          stopOnTerminate: false,
+          startOnBoot: true,
+          enableHeadless: true,
+        },
+        this.handleTask,
+        taskId => BackgroundFetch.finish(taskId),
+      )
+        .then(status => {
+          const available = status === BackgroundFetch.STATUS_AVAILABLE;
+          if (!available) {
+            console.warn(`⚠️ Background fetch unavailable (status ${status})`);
+          }
+          return available;
+        })
+        .catch(error => {
+          console.error('❌ Failed to configure background fetch:', error);
+          return false;
+        });
+    }
+    return this.configured;
+  }
+
   /**
    * Check if background execution is supported
    */
@@ -67,6 +169,9 @@ class BackgroundTaskManager {
       await this.requestBatteryOptimizationExemption();
     }
 
+    // Scheduled downloads need the OS to wake the queue
+    await this.configure();
+
     // Monitor app state changes
     AppState.addEventListener('change', (nextAppState) => {
       if (nextAppState === 'background') {
@@ -0,0 +1,56 @@
+import type { Chapter } from '../types/video';
+
+// "4:05", "1:02:33" or "01:02:33", optionally wrapped in [] or ()
+const TIMESTAMP_PATTERN = /[[(]?\b((?:\d{1,2}:)?\d{1,2}:\d{2})\b[\])]?/g;
+// Separators and list numbering left around a title once the time is removed
+const TITLE_EDGES = /^[\s\-–—|:•·.,]+|[\s\-–—|:•·.,]+$/g;
+const LIST_NUMBER = /^\d{1,3}[.)]\s+/;
+
+// YouTube only shows chapters for at least three, starting at 0:00
+const MIN_CHAPTERS = 3;
+const MIN_CHAPTER_SECONDS = 1;
+
+const toSeconds = (timestamp: string) =>
+  timestamp.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+
+/**
+ * Read chapters from description timestamps ("0:00 Intro", "Intro - 3:45",
+ * "[1:02:33] Finale"). Each line contributes at most one chapter; a line with
+ * a range ("0:00 - 3:45 Intro") starts at its first time. Returns an empty
+ * list unless the times start at 0:00 and keep increasing, like YouTube's own
+ * chapter detection.
+ */
+export function parseChapters(
+  description: string | undefined,
+  duration?: number,
+): Chapter[] {
+  if (!description) return [];
+
+  const chapters: Chapter[] = [];
+  for (const line of description.split(/\r?\n/)) {
+    const times = Array.from(line.matchAll(TIMESTAMP_PATTERN));
+    if (times.length === 0) continue;
+
+    const start = toSeconds(times[0][1]);
+    const title = line
+      .replace(TIMESTAMP_PATTERN, ' ')
+      .replace(TITLE_EDGES, '')
+      .replace(LIST_NUMBER, '')
+      .replace(/\s{2,}/g, ' ')
+      .trim();
+    chapters.push({ title: title || `Chapter ${chapters.length + 1}`, start });
+  }
+
+  if (chapters.length < MIN_CHAPTERS || chapters[0].start !== 0) return [];
+  for (let i = 1; i < chapters.length; i++) {
+    if (chapters[i].start - chapters[i - 1].start < MIN_CHAPTER_SECONDS) {
+      return [];
+    }
+  }
+  if (duration && chapters[chapters.length - 1].start >= duration) return [];
+
+  return chapters.map((chapter, i) => ({
+    ...chapter,
+    end: chapters[i + 1]?.start ?? (duration || undefined),
+  }));
+}
@@ -1,3 +1,6 @@
+import type { ClipRange } from '../types/video';
+import type { DownloadProgressInfo } from '../types/progress';
+
 /**
  * Format duration from seconds to MM:SS or HH:MM:SS format
  */
@@ -39,4 +42,77 @@ export const formatFileSize = (bytes: number): string => {
   
   const i = Math.floor(Math.log(bytes) / Math.log(1024));
   return `${(bytes / Math.pow(1024, i)).toFixed(1)} ${sizes[i]}`;
-};
\ No newline at end of file
+};
+
+/**
+ * Format a bandwidth cap, e.g. "512 KB/s" or "2 MB/s" (0 is "Unlimited")
+ */
+export const formatBandwidth = (kbps: number): string => {
+  if (kbps <= 0) return 'Unlimited';
+  if (kbps < 1024) return `${kbps} KB/s`;
+  return `${Number((kbps / 1024).toFixed(1))} MB/s`;
+};
+
+/**
+ * Format the time until something happens, e.g. "3h 12m", "45m" or "<1m"
+ */
+export const formatCountdown = (ms: number): string => {
+  const totalMinutes = Math.ceil(ms / 60000);
+  if (totalMinutes < 1) return '<1m';
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+};
+
+/**
+ * Format a player position as M:SS or H:MM:SS (0 shows as 0:00)
+ */
+export const formatTimestamp = (seconds: number): string =>
+  seconds > 0 ? formatDuration(Math.floor(seconds)) : '0:00';
+
+/**
+ * Format a clip range, e.g. "1:02:30–1:03:00" or "0:45–end"
+ */
+export const formatClipRange = (clip: ClipRange): string =>
+  `${formatTimestamp(clip.start ?? 0)}–${
+    clip.end !== undefined ? formatTimestamp(clip.end) : 'end'
+  }`;
+
+/**
+ * Format the time left in a transfer, e.g. "40s", "12m" or "1h 5m"
+ */
+export const formatEta = (seconds: number): string =>
+  seconds < 60 ? `${Math.max(1, Math.round(seconds))}s` : formatCountdown(seconds * 1000);
+
+// Readable name for a download folder: a SAF tree's path inside its volume
+export const formatFolder = (folder: string): string => {
+  if (!folder.startsWith('content://')) {
+    return folder.replace(/^\/storage\/emulated\/0\//, '');
+  }
+  const tree = decodeURIComponent(folder.split('/tree/')[1] || folder);
+  return tree.substring(tree.indexOf(':') + 1) || tree;
+};
+
+/**
+ * One line describing a download in progress, e.g.
+ * "12.3 MB of 40.0 MB • 1.2 MB/s • 25s left"
+ */
+export const formatProgressDetails = (progress: DownloadProgressInfo): string => {
+  if (progress.phase === 'processing') return 'Preparing on server...';
+  if (progress.phase === 'exporting') return 'Saving to folder...';
+  if (progress.bytesReceived === undefined) return 'Downloading...';
+
+  const parts = [
+    progress.totalBytes
+      ? `${formatFileSize(progress.bytesReceived)} of ${formatFileSize(progress.totalBytes)}`
+      : formatFileSize(progress.bytesReceived),
+  ];
+  if ((progress.smoothedSpeed ?? 0) >= 1) {
+    parts.push(`${formatFileSize(progress.smoothedSpeed!)}/s`);
+  }
+  if (progress.eta !== undefined) {
+    parts.push(`${formatEta(progress.eta)} left`);
+  }
+  return parts.join(' • ');
+};
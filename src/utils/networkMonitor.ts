@@ -1,16 +1,50 @@
 import { AppState, AppStateStatus } from 'react-native';
+import NetInfo, {
+  NetInfoState,
+  NetInfoStateType,
+} from '@react-native-community/netinfo';
+import type { NetworkStatus } from '../types/network';
 
 /**
  * Network and connectivity monitor for background downloads
  */
 
+// Until NetInfo answers, assume a connection so queued work is not held
+const UNKNOWN_STATUS: NetworkStatus = {
+  isConnected: true,
+  isInternetReachable: true,
+  type: NetInfoStateType.unknown,
+  isCellular: false,
+  isMetered: false,
+};
+
+const toStatus = (state: NetInfoState): NetworkStatus => {
+  const isCellular = state.type === NetInfoStateType.cellular;
+  return {
+    isConnected: state.isConnected !== false,
+    // null means "not checked yet", not "unreachable"
+    isInternetReachable: state.isInternetReachable !== false,
+    type: state.type,
+    isCellular,
+    isMetered: isCellular || !!state.details?.isConnectionExpensive,
+  };
+};
+
+const sameStatus = (a: NetworkStatus, b: NetworkStatus) =>
+  a.isConnected === b.isConnected &&
+  a.isInternetReachable === b.isInternetReachable &&
+  a.type === b.type &&
+  a.isMetered === b.isMetered;
+
 class NetworkMonitor {
   private appState: AppStateStatus = AppState.currentState;
-  private listeners: Set<(isConnected: boolean) => void> = new Set();
+  private status: NetworkStatus = UNKNOWN_STATUS;
+  private listeners: Set<(status: NetworkStatus) => void> = new Set();
 
   constructor() {
     // Monitor app state changes
     AppState.addEventListener('change', this.handleAppStateChange);
+    NetInfo.addEventListener(this.handleNetInfoChange);
   }
 
   private handleAppStateChange = (nextState: AppStateStatus) => {
@@ -19,15 +53,28 @@ class NetworkMonitor {
 
     if (nextState === 'active' && prev !== 'active') {
       console.log('🌐 App active - checking network connectivity');
-      // Notify listeners that we're back online
-      this.notifyListeners(true);
+      // Events may have been missed while in the background
+      this.refresh().catch(error =>
+        console.warn('⚠️ Network refresh failed:', error),
+      );
     }
   };
 
+  private handleNetInfoChange = (state: NetInfoState) => {
+    const next = toStatus(state);
+    if (sameStatus(next, this.status)) return;
+
+    this.status = next;
+    console.log(
+      `🌐 Network: ${next.type}, connected=${next.isConnected}, reachable=${next.isInternetReachable}, metered=${next.isMetered}`,
+    );
+    this.notifyListeners(next);
+  };
+
   /**
-   * Subscribe to network state changes
+   * Subscribe to network state changes (type, connectivity, reachability)
    */
-  subscribe(listener: (isConnected: boolean) => void): () => void {
+  subscribe(listener: (status: NetworkStatus) => void): () => void {
     this.listeners.add(listener);
     return () => this.listeners.delete(listener);
   }
@@ -35,16 +82,35 @@ class NetworkMonitor {
   /**
    * Notify all listeners of network state change
    */
-  private notifyListeners(isConnected: boolean) {
+  private notifyListeners(status: NetworkStatus) {
     this.listeners.forEach(listener => {
       try {
-        listener(isConnected);
+        listener(status);
       } catch (error) {
         console.error('Error in network listener:', error);
       }
     });
   }
 
+  /**
+   * Last known network state
+   */
+  getStatus(): NetworkStatus {
+    return this.status;
+  }
+
+  /**
+   * Ask the OS for the current network state instead of waiting for an event
+   */
+  async refresh(): Promise<NetworkStatus> {
+    try {
+      this.handleNetInfoChange(await NetInfo.refresh());
+    } catch (error) {
+      console.warn('⚠️ Failed to refresh network state', error);
+    }
+    return this.status;
+  }
+
   /**
    * Check if app is in foreground
    */
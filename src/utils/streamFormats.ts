@@ -0,0 +1,77 @@
+import type { StreamFormat } from '../types/formats';
+import type { ClipRange, VideoFormat, VideoQuality } from '../types/video';
+
+/**
+ * Which of the drawer's choices a video really offers, and how big each
+ * download will be, from the streams returned by apiClient.getFormats.
+ */
+
+// Audio-only picks are sent as 720p for MP4/WebM (see useDownloads)
+const requestedQuality = (quality: VideoQuality) =>
+  quality === 'audio_only' ? '720p' : quality;
+
+const byBitrate = (a: StreamFormat, b: StreamFormat) => b.bitrate - a.bitrate;
+
+const bestAudioStream = (formats: StreamFormat[]) =>
+  formats.filter(f => f.hasAudio && !f.hasVideo).sort(byBitrate)[0];
+
+// The stream the server would use: same container as the output when there
+// is one, then the highest bitrate
+const videoStreamFor = (
+  formats: StreamFormat[],
+  format: VideoFormat,
+  quality: VideoQuality,
+) => {
+  const candidates = formats
+    .filter(f => f.hasVideo && f.resolution === requestedQuality(quality))
+    .sort(byBitrate);
+  return candidates.find(f => f.container === format) || candidates[0];
+};
+
+export const isQualityAvailable = (
+  formats: StreamFormat[],
+  quality: VideoQuality,
+): boolean =>
+  quality === 'audio_only'
+    ? formats.some(f => f.hasAudio)
+    : formats.some(f => f.hasVideo && f.resolution === quality);
+
+// Share of the video a clip covers, 1 for the whole video
+const clipShare = (clip?: ClipRange, duration?: number) => {
+  if (!clip || !duration) return 1;
+  const start = Math.max(0, clip.start ?? 0);
+  const end = Math.min(duration, clip.end ?? duration);
+  return Math.max(0, end - start) / duration;
+};
+
+/**
+ * Size in bytes of the file a download will produce, or undefined when
+ * YouTube doesn't report the sizes it needs. MP3 is re-encoded, so its size
+ * is scaled from the source audio by bitrate.
+ */
+export function downloadSizeFor(
+  formats: StreamFormat[],
+  format: VideoFormat,
+  quality: VideoQuality,
+  options: { bitRate?: string; clip?: ClipRange; duration?: number } = {},
+): number | undefined {
+  const audio = bestAudioStream(formats);
+  let size: number | undefined;
+
+  if (format === 'mp3') {
+    const targetBitrate = parseInt(options.bitRate || '320k', 10) * 1000;
+    if (audio?.size && audio.bitrate) {
+      size = (audio.size * targetBitrate) / audio.bitrate;
+    }
+  } else {
+    const video = videoStreamFor(formats, format, quality);
+    if (video?.size) {
+      const audioSize = video.hasAudio ? 0 : audio?.size;
+      size = audioSize === undefined ? undefined : video.size + audioSize;
+    }
+  }
+
+  return size === undefined
+    ? undefined
+    : Math.round(size * clipShare(options.clip, options.duration));
+}
@@ -11,7 +11,7 @@ export const testDownload = async (videoId: string = '6sc79fcCaZ8') => {
         bitRate: '320k',
       },
       progress => {
-        console.log(`Download progress: ${progress}%`);
+        console.log(`Download progress: ${progress.percent}%`);
       },
       (filePath, filename) => {
         console.log(`Download complete! File saved to: ${filePath}`);
@@ -0,0 +1,71 @@
+export interface YouTubeLink {
+  videoId: string | null;
+  playlistId: string | null;
+}
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+// First YouTube URL in the input; shared text often wraps it in a sentence
+const YOUTUBE_URL_PATTERN =
+  /(?:https?:\/\/)?(?:[\w-]+\.)*(?:youtube(?:-nocookie)?\.com|youtu\.be)\/[^\s<>"']*/i;
+// Paths that carry the video id as their second segment, e.g. /embed/<id>
+const ID_PATH_PREFIXES = ['shorts', 'embed', 'live', 'v', 'e'];
+
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
+
+// Query and fragment parameters together, so "#t=30" and "&t=30" read the same
+function linkParams(queryAndHash: string): Map<string, string> {
+  const params = new Map<string, string>();
+  queryAndHash
+    .split(/[?&#]/)
+    .filter(Boolean)
+    .forEach(pair => {
+      const [key, value = ''] = pair.split('=');
+      if (!params.has(key)) params.set(key, safeDecode(value));
+    });
+  return params;
+}
+
+/**
+ * Video and playlist ids from anything a user might paste or share: a bare
+ * 11-character id, or a youtube.com / m. / music. / youtu.be link to a
+ * watch page, short, embed, live stream or playlist. Timestamps ("t=1m30s",
+ * "start=90") and tracking parameters are ignored. Auto-generated mixes
+ * ("list=RD...") never end, so they don't count as playlists.
+ */
+export function parseYouTubeUrl(input: string): YouTubeLink | null {
+  const trimmed = input.trim();
+  if (VIDEO_ID_PATTERN.test(trimmed)) {
+    return { videoId: trimmed, playlistId: null };
+  }
+
+  const match = trimmed.match(YOUTUBE_URL_PATTERN);
+  if (!match) return null;
+
+  const url = match[0].replace(/^https?:\/\//i, '');
+  const splitAt = url.search(/[?#]/);
+  const hostAndPath = splitAt === -1 ? url : url.substring(0, splitAt);
+  const params = linkParams(splitAt === -1 ? '' : url.substring(splitAt));
+  const [host, ...segments] = hostAndPath.split('/').filter(Boolean);
+
+  let candidate: string | undefined;
+  if (/(^|\.)youtu\.be$/i.test(host)) {
+    candidate = segments[0];
+  } else if (segments[0] === 'watch') {
+    candidate = params.get('v');
+  } else if (ID_PATH_PREFIXES.includes(segments[0])) {
+    candidate = segments[1];
+  }
+  const videoId =
+    candidate && VIDEO_ID_PATTERN.test(candidate) ? candidate : null;
+
+  const list = params.get('list');
+  const playlistId = list && !list.startsWith('RD') ? list : null;
+
+  return videoId || playlistId ? { videoId, playlistId } : null;
+}